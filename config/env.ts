@@ -0,0 +1,51 @@
+import "dotenv/config"
+import { HardhatPluginError } from "hardhat/plugins"
+
+/**
+ * Thrown when a network is selected but a variable it depends on is not set.
+ * Only the variable name is reported, never a value.
+ */
+export class MissingEnvironmentVariableError extends HardhatPluginError {
+	constructor(public readonly variable: string, public readonly network: string) {
+		super(
+			"magic-world-config",
+			`Environment variable ${variable} is required for network "${network}" but is not set. ` +
+				`Add it to your .env file or export it in your shell.`
+		)
+	}
+}
+
+/**
+ * Returns the value of an environment variable needed by a network
+ * @param variable Name of the environment variable
+ * @param network Network that needs the variable, used in the error message
+ */
+export function requireEnv(variable: string, network: string): string {
+	const value = process.env[variable]
+	if (value === undefined || value.trim() === "") {
+		throw new MissingEnvironmentVariableError(variable, network)
+	}
+	return value
+}
+
+/**
+ * Returns the value of an optional environment variable, or undefined when unset
+ */
+export function optionalEnv(variable: string): string | undefined {
+	const value = process.env[variable]
+	return value === undefined || value.trim() === "" ? undefined : value
+}
+
+/**
+ * Resolves the network Hardhat is about to use. The config is loaded before
+ * the runtime environment exists, so the `--network` argument is read from
+ * the command line, falling back to HARDHAT_NETWORK and then the default.
+ */
+export function getSelectedNetwork(defaultNetwork: string, argv: string[] = process.argv): string {
+	for (let i = 0; i < argv.length; i++) {
+		if (argv[i] === "--network" && argv[i + 1] !== undefined) {
+			return argv[i + 1]
+		}
+	}
+	return optionalEnv("HARDHAT_NETWORK") ?? defaultNetwork
+}
@@ -0,0 +1,134 @@
+import { HardhatUserConfig, NetworksUserConfig } from "hardhat/types"
+import { optionalEnv, requireEnv } from "./env"
+
+/**
+ * Block explorer used by `hardhat verify` for a network
+ */
+export interface ExplorerDefinition {
+	/** Network name as known by hardhat-verify */
+	network: string
+	/** Environment variable holding the explorer API key; blockscout accepts any non-empty key */
+	apiKeyEnv?: string
+	/** Explorer endpoints, only needed for chains hardhat-verify does not know */
+	urls?: {
+		apiURL: string
+		browserURL: string
+	}
+}
+
+/**
+ * A live network the contracts can be deployed to
+ */
+export interface NetworkDefinition {
+	chainId: number
+	/** Fixed RPC endpoint, or the environment variable that holds it */
+	rpcUrl: string | { env: string }
+	/** Environment variable holding the deployer private key */
+	privateKeyEnv: string
+	gasPrice?: number
+	explorer?: ExplorerDefinition
+}
+
+/**
+ * Registry of live networks. Declare new networks here; hardhat.config.ts
+ * builds the `networks` and `etherscan` sections from it.
+ */
+export const NETWORKS = {
+	rskMainnet: {
+		chainId: 30,
+		rpcUrl: { env: "RSK_MAINNET_RPC_URL" },
+		privateKeyEnv: "PRIVATE_KEY",
+		gasPrice: 60000000,
+		explorer: {
+			network: "rskmainnet",
+			urls: {
+				apiURL: "https://rootstock.blockscout.com/api/",
+				browserURL: "https://rootstock.blockscout.com/",
+			},
+		},
+	},
+	rskTestnet: {
+		chainId: 31,
+		rpcUrl: { env: "RSK_TESTNET_RPC_URL" },
+		privateKeyEnv: "PRIVATE_KEY",
+		gasPrice: 60000000,
+		explorer: {
+			network: "rsktestnet",
+			urls: {
+				apiURL: "https://rootstock-testnet.blockscout.com/api/",
+				browserURL: "https://rootstock-testnet.blockscout.com/",
+			},
+		},
+	},
+	bscTestnet: {
+		chainId: 97,
+		rpcUrl: "https://data-seed-prebsc-1-s1.bnbchain.org:8545",
+		privateKeyEnv: "PRIVATE_KEY",
+		gasPrice: 20000000000,
+		explorer: {
+			network: "bscTestnet",
+			apiKeyEnv: "ETHERSCAN_API_KEY",
+		},
+	},
+} satisfies Record<string, NetworkDefinition>
+
+export type LiveNetworkName = keyof typeof NETWORKS
+
+export function isLiveNetwork(name: string): name is LiveNetworkName {
+	return Object.prototype.hasOwnProperty.call(NETWORKS, name)
+}
+
+/**
+ * Builds the Hardhat `networks` entries for the registry. Only the selected
+ * network has its environment variables checked; the others are declared
+ * with whatever is available so that `--network` validation still works.
+ * @param selectedNetwork Network Hardhat is about to connect to
+ */
+export function buildLiveNetworks(selectedNetwork: string): NetworksUserConfig {
+	const networks: NetworksUserConfig = {}
+
+	for (const [name, definition] of Object.entries(NETWORKS) as [LiveNetworkName, NetworkDefinition][]) {
+		const isSelected = name === selectedNetwork
+		const read = (variable: string) => (isSelected ? requireEnv(variable, name) : optionalEnv(variable))
+
+		const url = typeof definition.rpcUrl === "string" ? definition.rpcUrl : read(definition.rpcUrl.env)
+		const privateKey = read(definition.privateKeyEnv)
+
+		networks[name] = {
+			url: url ?? "",
+			chainId: definition.chainId,
+			gasPrice: definition.gasPrice,
+			accounts: privateKey ? [privateKey] : [],
+		}
+	}
+
+	return networks
+}
+
+/**
+ * Builds the hardhat-verify `etherscan` section from the registry. API keys
+ * are optional at load time; hardhat-verify reports a missing key when a
+ * verification is actually attempted.
+ */
+export function buildEtherscanConfig(): HardhatUserConfig["etherscan"] {
+	const apiKey: Record<string, string> = {}
+	const customChains = []
+
+	for (const definition of Object.values(NETWORKS) as NetworkDefinition[]) {
+		const { explorer } = definition
+		if (!explorer) continue
+
+		// Is not required by blockscout. Can be any non-empty string
+		apiKey[explorer.network] = explorer.apiKeyEnv ? optionalEnv(explorer.apiKeyEnv) ?? "" : "blockscout"
+
+		if (explorer.urls) {
+			customChains.push({
+				network: explorer.network,
+				chainId: definition.chainId,
+				urls: explorer.urls,
+			})
+		}
+	}
+
+	return { apiKey, customChains }
+}
@@ -0,0 +1,141 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/governance/utils/IVotes.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+
+/**
+ * @title MagicWorldAirdrop
+ * @notice Merkle distributor for MAGIC. Each account in the tree claims its
+ * amount once, before the deadline, and can delegate its voting power in the
+ * same call with a `delegateBySig` signature.
+ * @dev Leaves are `keccak256(bytes.concat(keccak256(abi.encode(account,
+ * amount))))`, the format of OpenZeppelin's StandardMerkleTree. The
+ * distributor is funded by transferring or minting MAGIC to it. After the
+ * deadline the owner, the governance timelock after deployment, can sweep
+ * what was not claimed.
+ */
+contract MagicWorldAirdrop is Ownable {
+    using SafeERC20 for IERC20;
+
+    IERC20 public immutable token;
+    bytes32 public immutable merkleRoot;
+    uint256 public immutable claimDeadline;
+
+    mapping(address => bool) public hasClaimed;
+
+    event Claimed(address indexed account, uint256 amount);
+    event Swept(address indexed to, uint256 amount);
+
+    error AirdropAlreadyClaimed(address account);
+    error AirdropInvalidProof();
+    error AirdropClaimEnded();
+    error AirdropClaimNotEnded();
+    error AirdropDelegationFailed(address account, address delegatee);
+
+    /**
+     * @param _token MAGIC, which must implement IVotes
+     * @param _merkleRoot Root of the tree of (account, amount) leaves
+     * @param _claimDeadline Timestamp after which claims are closed
+     */
+    constructor(
+        address _token,
+        bytes32 _merkleRoot,
+        uint256 _claimDeadline
+    ) Ownable(msg.sender) {
+        require(_token != address(0), "Invalid token address");
+        require(_claimDeadline > block.timestamp, "Deadline must be in the future");
+        token = IERC20(_token);
+        merkleRoot = _merkleRoot;
+        claimDeadline = _claimDeadline;
+    }
+
+    /**
+     * @notice Sends `amount` MAGIC to `account`. Anyone can submit the claim,
+     * the tokens always go to the account in the tree.
+     * @param proof Proof of the (account, amount) leaf
+     */
+    function claim(
+        address account,
+        uint256 amount,
+        bytes32[] calldata proof
+    ) external {
+        _claim(account, amount, proof);
+    }
+
+    /**
+     * @notice Claims and delegates the account's MAGIC votes to `delegatee`
+     * @dev The signature is a MAGIC `delegateBySig` signature by `account`.
+     * If it was already used, e.g. submitted to MAGIC directly, the claim
+     * still succeeds as long as `account` delegates to `delegatee`.
+     */
+    function claimAndDelegate(
+        address account,
+        uint256 amount,
+        bytes32[] calldata proof,
+        address delegatee,
+        uint256 nonce,
+        uint256 expiry,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        _claim(account, amount, proof);
+
+        try
+            IVotes(address(token)).delegateBySig(
+                delegatee,
+                nonce,
+                expiry,
+                v,
+                r,
+                s
+            )
+        {} catch {}
+        // A signature by another account would delegate that account instead
+        if (IVotes(address(token)).delegates(account) != delegatee) {
+            revert AirdropDelegationFailed(account, delegatee);
+        }
+    }
+
+    /**
+     * @notice Whether `amount` is the allocation of `account` in the tree
+     */
+    function verify(
+        address account,
+        uint256 amount,
+        bytes32[] calldata proof
+    ) public view returns (bool) {
+        bytes32 leaf = keccak256(
+            bytes.concat(keccak256(abi.encode(account, amount)))
+        );
+        return MerkleProof.verifyCalldata(proof, merkleRoot, leaf);
+    }
+
+    /**
+     * @notice Sends the unclaimed MAGIC to `to` once claims are closed
+     */
+    function sweep(address to) external onlyOwner {
+        if (block.timestamp <= claimDeadline) revert AirdropClaimNotEnded();
+        uint256 amount = token.balanceOf(address(this));
+        token.safeTransfer(to, amount);
+        emit Swept(to, amount);
+    }
+
+    function _claim(
+        address account,
+        uint256 amount,
+        bytes32[] calldata proof
+    ) internal {
+        if (block.timestamp > claimDeadline) revert AirdropClaimEnded();
+        if (hasClaimed[account]) revert AirdropAlreadyClaimed(account);
+        if (!verify(account, amount, proof)) revert AirdropInvalidProof();
+
+        hasClaimed[account] = true;
+        token.safeTransfer(account, amount);
+        emit Claimed(account, amount);
+    }
+}
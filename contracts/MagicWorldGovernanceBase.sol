@@ -0,0 +1,272 @@
+// SPDX-License-Identifier: MIT
+// Compatible with OpenZeppelin Contracts ^5.0.0
+pragma solidity ^0.8.22;
+
+import {GovernorUpgradeable} from "@openzeppelin/contracts-upgradeable/governance/GovernorUpgradeable.sol";
+import {GovernorCountingSimpleUpgradeable} from "@openzeppelin/contracts-upgradeable/governance/extensions/GovernorCountingSimpleUpgradeable.sol";
+import {GovernorSettingsUpgradeable} from "@openzeppelin/contracts-upgradeable/governance/extensions/GovernorSettingsUpgradeable.sol";
+import {GovernorVotesUpgradeable} from "@openzeppelin/contracts-upgradeable/governance/extensions/GovernorVotesUpgradeable.sol";
+import {GovernorVotesQuorumFractionUpgradeable} from "@openzeppelin/contracts-upgradeable/governance/extensions/GovernorVotesQuorumFractionUpgradeable.sol";
+import {GovernorTimelockControlUpgradeable} from "@openzeppelin/contracts-upgradeable/governance/extensions/GovernorTimelockControlUpgradeable.sol";
+import {TimelockControllerUpgradeable} from "@openzeppelin/contracts-upgradeable/governance/TimelockControllerUpgradeable.sol";
+import {IVotes} from "@openzeppelin/contracts/governance/utils/IVotes.sol";
+
+/**
+ * @title MagicWorldGovernanceBase
+ * @notice Governor for the MAGIC token. Passed proposals are queued in a
+ * TimelockController and can only be executed once its delay has elapsed,
+ * giving token holders a window to react before changes take effect.
+ *
+ * Voting power is the MAGIC plus the stMAGIC delegated to an account at the
+ * proposal snapshot, so MAGIC keeps its votes while staked. Quorum is a
+ * percentage of the MAGIC supply at the proposal snapshot, which already
+ * includes staked MAGIC. The
+ * voting delay, voting period, proposal threshold and quorum percentage can
+ * be changed by proposal (`setVotingDelay`, `setVotingPeriod`,
+ * `setProposalThreshold`, `updateQuorumNumerator`) within the bounds below.
+ * @dev The timelock is the executor: it holds the governed contracts and
+ * must grant this governor the proposer and canceller roles. Voting delay
+ * and period are measured in blocks, following the token's clock, which
+ * stMAGIC shares.
+ *
+ * Shared by MagicWorldGovernance, deployed as is, and
+ * MagicWorldGovernanceUpgradeable, deployed behind a UUPS proxy. The
+ * OpenZeppelin parents keep their state in namespaced storage, so a new
+ * version may only append state variables after `stakedToken`.
+ */
+abstract contract MagicWorldGovernanceBase is
+    GovernorUpgradeable,
+    GovernorSettingsUpgradeable,
+    GovernorCountingSimpleUpgradeable,
+    GovernorVotesUpgradeable,
+    GovernorVotesQuorumFractionUpgradeable,
+    GovernorTimelockControlUpgradeable
+{
+    uint48 public constant MIN_VOTING_DELAY = 1;
+    uint48 public constant MAX_VOTING_DELAY = 201_600; // ~1 week of 3s blocks
+    uint32 public constant MIN_VOTING_PERIOD = 5;
+    uint32 public constant MAX_VOTING_PERIOD = 403_200; // ~2 weeks of 3s blocks
+    uint256 public constant MAX_PROPOSAL_THRESHOLD = 1_000_000e18;
+    uint256 public constant MIN_QUORUM_NUMERATOR = 1; // 1% of the supply
+    uint256 public constant MAX_QUORUM_NUMERATOR = 50; // 50% of the supply
+
+    // stMAGIC, the receipt of MAGIC staked in MagicWorldStaking
+    IVotes public stakedToken;
+
+    error GovernanceInvalidVotingDelay(
+        uint256 votingDelay,
+        uint256 min,
+        uint256 max
+    );
+    error GovernanceInvalidVotingPeriod(
+        uint256 votingPeriod,
+        uint256 min,
+        uint256 max
+    );
+    error GovernanceInvalidProposalThreshold(
+        uint256 proposalThreshold,
+        uint256 max
+    );
+    error GovernanceInvalidQuorumNumerator(
+        uint256 quorumNumerator,
+        uint256 min,
+        uint256 max
+    );
+
+    /**
+     * @dev Runs once, from the constructor or from the proxy's initializer.
+     * The governor is named MagicWorldGovernance either way, so votes are
+     * signed for the same EIP-712 domain name.
+     */
+    function __MagicWorldGovernance_init(
+        IVotes _token,
+        IVotes _stakedToken,
+        TimelockControllerUpgradeable _timelock,
+        uint48 initialVotingDelay,
+        uint32 initialVotingPeriod,
+        uint256 initialProposalThreshold,
+        uint256 initialQuorumNumerator
+    ) internal onlyInitializing {
+        __Governor_init("MagicWorldGovernance");
+        __GovernorSettings_init(
+            initialVotingDelay,
+            initialVotingPeriod,
+            initialProposalThreshold
+        );
+        __GovernorCountingSimple_init();
+        __GovernorVotes_init(_token);
+        __GovernorVotesQuorumFraction_init(initialQuorumNumerator);
+        __GovernorTimelockControl_init(_timelock);
+        stakedToken = _stakedToken;
+    }
+
+    // Staked MAGIC votes through its stMAGIC receipt
+    function _getVotes(
+        address account,
+        uint256 timepoint,
+        bytes memory params
+    )
+        internal
+        view
+        override(GovernorUpgradeable, GovernorVotesUpgradeable)
+        returns (uint256)
+    {
+        return
+            super._getVotes(account, timepoint, params) +
+            stakedToken.getPastVotes(account, timepoint);
+    }
+
+    // Bounds are enforced by the internal setters, so they also apply at deployment
+
+    function _setVotingDelay(uint48 newVotingDelay) internal override {
+        if (
+            newVotingDelay < MIN_VOTING_DELAY ||
+            newVotingDelay > MAX_VOTING_DELAY
+        ) {
+            revert GovernanceInvalidVotingDelay(
+                newVotingDelay,
+                MIN_VOTING_DELAY,
+                MAX_VOTING_DELAY
+            );
+        }
+        super._setVotingDelay(newVotingDelay);
+    }
+
+    function _setVotingPeriod(uint32 newVotingPeriod) internal override {
+        if (
+            newVotingPeriod < MIN_VOTING_PERIOD ||
+            newVotingPeriod > MAX_VOTING_PERIOD
+        ) {
+            revert GovernanceInvalidVotingPeriod(
+                newVotingPeriod,
+                MIN_VOTING_PERIOD,
+                MAX_VOTING_PERIOD
+            );
+        }
+        super._setVotingPeriod(newVotingPeriod);
+    }
+
+    function _setProposalThreshold(
+        uint256 newProposalThreshold
+    ) internal override {
+        if (newProposalThreshold > MAX_PROPOSAL_THRESHOLD) {
+            revert GovernanceInvalidProposalThreshold(
+                newProposalThreshold,
+                MAX_PROPOSAL_THRESHOLD
+            );
+        }
+        super._setProposalThreshold(newProposalThreshold);
+    }
+
+    function _updateQuorumNumerator(
+        uint256 newQuorumNumerator
+    ) internal override {
+        if (
+            newQuorumNumerator < MIN_QUORUM_NUMERATOR ||
+            newQuorumNumerator > MAX_QUORUM_NUMERATOR
+        ) {
+            revert GovernanceInvalidQuorumNumerator(
+                newQuorumNumerator,
+                MIN_QUORUM_NUMERATOR,
+                MAX_QUORUM_NUMERATOR
+            );
+        }
+        super._updateQuorumNumerator(newQuorumNumerator);
+    }
+
+    // The following functions are overrides required by Solidity.
+
+    function proposalThreshold()
+        public
+        view
+        override(GovernorUpgradeable, GovernorSettingsUpgradeable)
+        returns (uint256)
+    {
+        return super.proposalThreshold();
+    }
+
+    function state(
+        uint256 proposalId
+    )
+        public
+        view
+        override(GovernorUpgradeable, GovernorTimelockControlUpgradeable)
+        returns (ProposalState)
+    {
+        return super.state(proposalId);
+    }
+
+    function proposalNeedsQueuing(
+        uint256 proposalId
+    )
+        public
+        view
+        override(GovernorUpgradeable, GovernorTimelockControlUpgradeable)
+        returns (bool)
+    {
+        return super.proposalNeedsQueuing(proposalId);
+    }
+
+    function _queueOperations(
+        uint256 proposalId,
+        address[] memory targets,
+        uint256[] memory values,
+        bytes[] memory calldatas,
+        bytes32 descriptionHash
+    )
+        internal
+        override(GovernorUpgradeable, GovernorTimelockControlUpgradeable)
+        returns (uint48)
+    {
+        return
+            super._queueOperations(
+                proposalId,
+                targets,
+                values,
+                calldatas,
+                descriptionHash
+            );
+    }
+
+    function _executeOperations(
+        uint256 proposalId,
+        address[] memory targets,
+        uint256[] memory values,
+        bytes[] memory calldatas,
+        bytes32 descriptionHash
+    )
+        internal
+        override(GovernorUpgradeable, GovernorTimelockControlUpgradeable)
+    {
+        super._executeOperations(
+            proposalId,
+            targets,
+            values,
+            calldatas,
+            descriptionHash
+        );
+    }
+
+    function _cancel(
+        address[] memory targets,
+        uint256[] memory values,
+        bytes[] memory calldatas,
+        bytes32 descriptionHash
+    )
+        internal
+        override(GovernorUpgradeable, GovernorTimelockControlUpgradeable)
+        returns (uint256)
+    {
+        return super._cancel(targets, values, calldatas, descriptionHash);
+    }
+
+    // The timelock executes proposals, so it is the executor
+    function _executor()
+        internal
+        view
+        override(GovernorUpgradeable, GovernorTimelockControlUpgradeable)
+        returns (address)
+    {
+        return super._executor();
+    }
+}
@@ -1,31 +1,50 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
+import "@openzeppelin/contracts/access/extensions/AccessControlEnumerable.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Capped.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Votes.sol";
 
-
-contract MagicWorldGovernanceToken is ERC20Permit, ERC20Votes {
-    address public owner;
+/**
+ * @title MagicWorldGovernanceToken
+ * @notice MAGIC, the governance token. Minting is restricted to accounts with
+ * MINTER_ROLE and can never take the supply above MAX_SUPPLY. Holders can burn
+ * their own tokens, or tokens they are approved for.
+ * @dev DEFAULT_ADMIN_ROLE grants and revokes roles; after deployment it is held
+ * by the governance timelock. Role members can be listed on-chain, and every
+ * change emits RoleGranted or RoleRevoked.
+ */
+contract MagicWorldGovernanceToken is
+    ERC20Permit,
+    ERC20Votes,
+    ERC20Capped,
+    ERC20Burnable,
+    AccessControlEnumerable
+{
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+    uint256 public constant MAX_SUPPLY = 1_000_000_000e18;
 
     constructor()
         ERC20("Magic World Governance Token", "MAGIC")
         ERC20Permit("Magic World Governance Token")
+        ERC20Capped(MAX_SUPPLY)
     {
-        owner = msg.sender;
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(MINTER_ROLE, msg.sender);
     }
 
-    function mint(address to, uint256 amount) external {
-        require(msg.sender == owner, "Only owner can mint");
+    function mint(address to, uint256 amount) external onlyRole(MINTER_ROLE) {
         _mint(to, amount);
     }
 
-    // Override required functions
+    // Override required functions, the cap is checked on every mint
     function _update(
         address from,
         address to,
         uint256 amount
-    ) internal virtual override(ERC20, ERC20Votes) {
+    ) internal virtual override(ERC20, ERC20Votes, ERC20Capped) {
         super._update(from, to, amount);
     }
 
@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {TimelockControllerUpgradeable} from "@openzeppelin/contracts-upgradeable/governance/TimelockControllerUpgradeable.sol";
+import {IVotes} from "@openzeppelin/contracts/governance/utils/IVotes.sol";
+import {MagicWorldGovernanceBase} from "./MagicWorldGovernanceBase.sol";
+
+/**
+ * @title MagicWorldGovernanceUpgradeable
+ * @notice MagicWorldGovernance behind a UUPS proxy
+ * @dev Upgrades are governance actions: a proposal targeting the governor
+ * itself calls `upgradeToAndCall`, which the timelock executes once the
+ * proposal has passed and its delay has elapsed.
+ */
+contract MagicWorldGovernanceUpgradeable is
+    MagicWorldGovernanceBase,
+    UUPSUpgradeable
+{
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
+        IVotes _token,
+        IVotes _stakedToken,
+        TimelockControllerUpgradeable _timelock,
+        uint48 initialVotingDelay,
+        uint32 initialVotingPeriod,
+        uint256 initialProposalThreshold,
+        uint256 initialQuorumNumerator
+    ) external initializer {
+        __MagicWorldGovernance_init(
+            _token,
+            _stakedToken,
+            _timelock,
+            initialVotingDelay,
+            initialVotingPeriod,
+            initialProposalThreshold,
+            initialQuorumNumerator
+        );
+        __UUPSUpgradeable_init();
+    }
+
+    function _authorizeUpgrade(address) internal override onlyGovernance {}
+}
@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Votes.sol";
+
+/**
+ * @title MagicWorldStakedToken
+ * @notice Receipt for MAGIC staked in MagicWorldStaking (stMAGIC). It is minted
+ * 1:1 on stake and burned on unstake, and can't be transferred, so staked MAGIC
+ * keeps its voting power: holders delegate stMAGIC like MAGIC, and the governor
+ * counts both at the proposal snapshot.
+ * @dev Owned by the staking contract, which is the only account that can mint
+ * and burn. Uses the default block number clock, like MAGIC.
+ */
+contract MagicWorldStakedToken is ERC20Permit, ERC20Votes, Ownable {
+    error StakedTokenNonTransferable();
+
+    constructor()
+        ERC20("Magic World Staked MAGIC", "stMAGIC")
+        ERC20Permit("Magic World Staked MAGIC")
+        Ownable(msg.sender)
+    {}
+
+    function mint(address to, uint256 amount) external onlyOwner {
+        _mint(to, amount);
+    }
+
+    function burn(address from, uint256 amount) external onlyOwner {
+        _burn(from, amount);
+    }
+
+    // Only mints and burns move balances
+    function _update(
+        address from,
+        address to,
+        uint256 amount
+    ) internal virtual override(ERC20, ERC20Votes) {
+        if (from != address(0) && to != address(0)) {
+            revert StakedTokenNonTransferable();
+        }
+        super._update(from, to, amount);
+    }
+
+    function nonces(
+        address account
+    ) public view virtual override(ERC20Permit, Nonces) returns (uint256) {
+        return super.nonces(account);
+    }
+}
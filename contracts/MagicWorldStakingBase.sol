@@ -0,0 +1,1671 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "./MagicWorldStakedToken.sol";
+import "./libraries/LockTiers.sol";
+import "./libraries/RewardEpochs.sol";
+import "./libraries/RewardTokens.sol";
+import "./libraries/StakingTypes.sol";
+import "./libraries/TokenWhitelist.sol";
+
+/**
+ * @title MagicWorldStakingBase
+ * @notice A secure staking contract for whitelisted ERC20 tokens with reward distribution
+ * @dev Users can stake whitelisted tokens and earn rewards in one or more reward tokens.
+ * `rewardToken` is the main reward; further reward tokens (e.g. partner campaigns)
+ * can be added, each with its own rate, period and funding.
+ * Each token has a weight that multiplies its stakes' share of every reward stream,
+ * so incentives can be rebalanced across tokens without redeploying.
+ * Stakes can also be locked for one of the lock tiers: a locked position earns
+ * with the tier's boost and can only be withdrawn once its own unlock time has passed.
+ * When the main reward token is whitelisted, pending rewards can be compounded into
+ * the staker's stake of it, by the staker or, for opted-in stakers, by a keeper.
+ * In an incident the admin can turn on emergency mode, which lets stakers take
+ * their principal out at once with `emergencyWithdraw`, giving up unclaimed rewards.
+ * Each staker's earnings are moved into `rewards` whenever their stake changes, so
+ * accrued rewards are kept until claimed, and `totalAllocatedRewards` tracks exactly
+ * what is owed or still to be distributed. A staker's update only visits the tokens
+ * they have a stake in, so its cost doesn't grow with the whitelist.
+ * Stakes are credited with the amount actually received. Tokens that charge transfer
+ * fees must be declared as such, and rebasing tokens are staked as shares of the
+ * contract's balance so that rebases are shared pro rata.
+ * Stakes of the governance token are receipted 1:1 in a non-transferable votes token
+ * (stMAGIC), so that staking MAGIC doesn't take away its voting power.
+ * Privileged functions are split across roles: DEFAULT_ADMIN_ROLE configures
+ * rewards, lock tiers, keepers and emergencies and grants the other roles,
+ * PAUSER_ROLE pauses, REWARD_DISTRIBUTOR_ROLE funds and schedules rewards and
+ * TOKEN_MANAGER_ROLE manages the token whitelist. After deployment the admin
+ * role is held by the governance timelock.
+ *
+ * Shared by MagicWorldStaking, deployed as is, and MagicWorldStakingUpgradeable,
+ * deployed behind a UUPS proxy. The OpenZeppelin parents keep their state in
+ * namespaced storage and this contract's state starts at slot 0, so a new
+ * version may only append state variables at the end.
+ */
+abstract contract MagicWorldStakingBase is
+    AccessControlUpgradeable,
+    ReentrancyGuardUpgradeable,
+    PausableUpgradeable
+{
+    using SafeERC20 for IERC20;
+
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant REWARD_DISTRIBUTOR_ROLE =
+        keccak256("REWARD_DISTRIBUTOR_ROLE");
+    bytes32 public constant TOKEN_MANAGER_ROLE =
+        keccak256("TOKEN_MANAGER_ROLE");
+
+    // Structs, see StakingTypes.sol for the ones shared with the libraries
+    struct StakeInfo {
+        uint256 amount; // Normalized amount (18 decimals), excluding locked positions
+        uint256 timestamp; // Last deposit timestamp, each deposit unlocks on its own (see StakeLot)
+        uint256 lockedAmount; // Normalized amount held in locked positions
+        uint256 boostedAmount; // amount plus the boosted amount of locked positions, used for rewards
+    }
+
+    struct StakeLot {
+        uint256 amount; // Normalized amount (18 decimals) left in the lot
+        uint256 timestamp; // Deposit timestamp
+    }
+
+    struct LockedPosition {
+        address token;
+        uint256 amount; // Normalized amount (18 decimals)
+        uint256 boostedAmount; // amount * boost of the tier at lock time
+        uint256 unlockTime;
+        uint256 tierId;
+    }
+
+    // State variables
+    IERC20 public rewardToken; //the main reward token for the staking contract
+    uint256 public constant PRECISION = 1e18;
+    uint256 public constant WEIGHT_PRECISION = 1e4;
+    uint256 public constant MAX_WEIGHT = 100 * WEIGHT_PRECISION;
+    uint256 public constant MAX_REWARD_TOKENS = 8;
+    uint256 public constant MAX_BOOST = 5 * WEIGHT_PRECISION;
+    uint256 public constant MAX_LOCK_DURATION = 4 * 365 days;
+
+    // Track whitelisted tokens in an array for iteration
+    address[] public whitelistedTokenList;
+    mapping(address => uint256) private whitelistedTokenIndex; // token => index+1 (0 means not in list)
+    mapping(address => mapping(address => StakeInfo)) public userStakes; // user => token => stake
+    mapping(address => TokenInfo) public whitelistedTokens;
+
+    // Reward tokens, rewardToken first
+    address[] public rewardTokens;
+    mapping(address => RewardData) public rewardData;
+    mapping(address => mapping(address => PoolRewardInfo)) public poolRewards; // token => reward token => pool
+    mapping(address => mapping(address => mapping(address => uint256)))
+        public userRewardPerTokenPaid; // user => token => reward token => pool accRewardPerToken at the last update
+    mapping(address => mapping(address => uint256)) public rewards; // user => reward token => accrued, unclaimed
+
+    // Scheduled reward epochs, in start order. Epochs before nextEpoch have started.
+    mapping(address => RewardEpochs.Epoch[]) public rewardEpochs; // reward token => epochs
+    mapping(address => uint256) public nextEpoch; // reward token => first epoch not started yet
+
+    // Tokens each user has a stake in, so that reward updates don't depend on the whitelist size
+    mapping(address => address[]) private userTokens;
+    mapping(address => mapping(address => uint256)) private userTokenIndex; // user => token => index+1 (0 means not in list)
+
+    // Each deposit of a flexible stake is a lot, oldest first. Lots before the head are fully withdrawn.
+    mapping(address => mapping(address => StakeLot[])) private stakeLots; // user => token => lots
+    mapping(address => mapping(address => uint256)) private stakeLotHead; // user => token => first open lot
+
+    // Lock tiers and each user's locked positions, a withdrawn position is deleted in place
+    LockTier[] public lockTiers;
+    mapping(address => LockedPosition[]) public userLocks;
+
+    // Stakers opted in to auto-compounding, and the accounts allowed to compound for them
+    mapping(address => bool) public autoCompound;
+    mapping(address => bool) public keepers;
+
+    // Set by the admin in an incident, blocks new stakes and enables emergencyWithdraw
+    bool public emergencyMode;
+
+    // Non-transferable votes token minted 1:1 for normalized stakes of votesToken (MAGIC)
+    MagicWorldStakedToken public receiptToken;
+    address public votesToken;
+
+    uint256 public totalNormalizedStaked; // Renamed from totalRewardPool for clarity
+    uint256 public totalWeightedStaked; // Sum of totalBoosted * weight over all tokens
+
+    // Events
+    event TokenWhitelisted(address indexed token, uint256 minStakeDuration);
+    event TokenRemovedFromWhitelist(address indexed token);
+    event Staked(address indexed user, address indexed token, uint256 amount);
+    event Unstaked(address indexed user, address indexed token, uint256 amount);
+    event RewardClaimed(address indexed user, uint256 amount);
+    event RewardsFunded(uint256 amount);
+    event MinStakeDurationUpdated(address indexed token, uint256 newDuration);
+    event TokenModeUpdated(address indexed token, TokenMode mode);
+    event TokenWeightUpdated(
+        address indexed token,
+        uint256 oldWeight,
+        uint256 newWeight
+    );
+    event RewardTokenAdded(address indexed rewardToken, uint256 rewardsDuration);
+    event RewardTokenClaimed(
+        address indexed user,
+        address indexed rewardToken,
+        uint256 amount
+    );
+    event RewardTokenFunded(address indexed rewardToken, uint256 amount);
+    event RewardsDurationUpdated(
+        address indexed rewardToken,
+        uint256 newDuration
+    );
+    event Compounded(address indexed user, uint256 amount);
+    event AutoCompoundSet(address indexed user, bool enabled);
+    event KeeperUpdated(address indexed keeper, bool enabled);
+    event EmergencyModeSet(bool enabled);
+    event EmergencyWithdrawn(
+        address indexed user,
+        address indexed token,
+        uint256 amount
+    );
+    event LockTierAdded(uint256 indexed tierId, uint256 duration, uint256 boost);
+    event LockTierEnabled(uint256 indexed tierId, bool enabled);
+    event StakedLocked(
+        address indexed user,
+        address indexed token,
+        uint256 indexed positionId,
+        uint256 amount,
+        uint256 tierId,
+        uint256 unlockTime
+    );
+    event LockedWithdrawn(
+        address indexed user,
+        address indexed token,
+        uint256 indexed positionId,
+        uint256 amount
+    );
+    event ReceiptTokenSet(address indexed token, address indexed receiptToken);
+    event RewardEpochScheduled(
+        address indexed rewardToken,
+        uint256 indexed epochId,
+        uint256 start,
+        uint256 duration,
+        uint256 amount
+    );
+    event RewardEpochCancelled(
+        address indexed rewardToken,
+        uint256 indexed epochId,
+        uint256 amount
+    );
+
+    /**
+     * @dev Sets the reward token and grants every role to the deployer. Runs
+     * once, from the constructor or from the proxy's initializer.
+     * @param _rewardToken Address of the reward token
+     */
+    function __MagicWorldStaking_init(
+        address _rewardToken
+    ) internal onlyInitializing {
+        require(_rewardToken != address(0), "Invalid reward token");
+        __AccessControl_init();
+        __ReentrancyGuard_init();
+        __Pausable_init();
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
+        _grantRole(REWARD_DISTRIBUTOR_ROLE, msg.sender);
+        _grantRole(TOKEN_MANAGER_ROLE, msg.sender);
+
+        rewardToken = IERC20(_rewardToken);
+        rewardTokens.push(_rewardToken);
+        rewardData[_rewardToken].rewardsDuration = 7 days;
+
+        _addLockTier(30 days, (WEIGHT_PRECISION * 110) / 100);
+        _addLockTier(90 days, (WEIGHT_PRECISION * 125) / 100);
+        _addLockTier(180 days, (WEIGHT_PRECISION * 150) / 100);
+        _addLockTier(365 days, 2 * WEIGHT_PRECISION);
+    }
+
+    /**
+     * @dev Updates reward state before any action
+     */
+    modifier updateReward(address account) {
+        _updateRewardPerToken();
+        if (account != address(0)) {
+            // Update user's rewards
+            _updateUserRewards(account);
+        }
+        _;
+    }
+
+    modifier whenNotEmergency() {
+        require(!emergencyMode, "Emergency mode active");
+        _;
+    }
+
+    modifier onlyKeeper() {
+        require(keepers[msg.sender], "Caller is not a keeper");
+        _;
+    }
+
+    modifier onlyRewardToken(address reward) {
+        require(rewardData[reward].rewardsDuration > 0, "Not a reward token");
+        _;
+    }
+
+    /**
+     * @dev Brings every reward's state up to date, starting the epochs that are due
+     */
+    function _updateRewardPerToken() internal {
+        for (uint256 i = 0; i < rewardTokens.length; i++) {
+            address reward = rewardTokens[i];
+            (rewardData[reward], nextEpoch[reward]) = _currentRewardData(
+                reward
+            );
+        }
+    }
+
+    /**
+     * @dev A reward's state as of now. Each scheduled epoch that is due ends the
+     * running stream at its start and replaces it with its own.
+     * @return data The reward's data, with rewardPerTokenStored up to date
+     * @return next First epoch not started yet
+     */
+    function _currentRewardData(
+        address reward
+    ) internal view returns (RewardData memory data, uint256 next) {
+        data = rewardData[reward];
+        next = nextEpoch[reward];
+        RewardEpochs.Epoch[] storage epochs = rewardEpochs[reward];
+        // Cancelled epochs are passed over whenever they start, an epoch
+        // scheduled after the last live one may start before them
+        for (
+            ;
+            next < epochs.length &&
+                (epochs[next].start <= block.timestamp ||
+                    epochs[next].amount == 0);
+            next++
+        ) {
+            RewardEpochs.Epoch storage epoch = epochs[next];
+            if (epoch.amount == 0) continue; // Cancelled
+            _accrueRewards(data, epoch.start);
+            data.rewardRate = epoch.amount / epoch.duration;
+            data.lastUpdateTime = epoch.start;
+            data.periodFinish = epoch.start + epoch.duration;
+        }
+        _accrueRewards(data, block.timestamp);
+    }
+
+    /**
+     * @dev Distributes a reward's stream up to `time`, or the end of its period.
+     * Rewards distributed while nothing weighted is staked are not earned by
+     * anyone and are released from the reward's allocation.
+     */
+    function _accrueRewards(
+        RewardData memory data,
+        uint256 time
+    ) internal view {
+        uint256 lastTime = time < data.periodFinish ? time : data.periodFinish;
+        if (lastTime <= data.lastUpdateTime) return;
+
+        uint256 distributed = (lastTime - data.lastUpdateTime) *
+            data.rewardRate;
+        if (totalWeightedStaked == 0) {
+            data.totalAllocatedRewards -= distributed;
+        } else {
+            data.rewardPerTokenStored +=
+                (distributed * PRECISION) /
+                totalWeightedStaked;
+        }
+        data.lastUpdateTime = lastTime;
+    }
+
+    /**
+     * @dev Rewards per normalized unit of a token, given the reward's global reward per token
+     * @param token Staked token
+     * @param reward Reward token
+     * @param currentRewardPerToken Global reward per weighted unit
+     */
+    function _getPoolRewardPerToken(
+        address token,
+        address reward,
+        uint256 currentRewardPerToken
+    ) internal view returns (uint256) {
+        return
+            TokenWhitelist.poolRewardPerToken(
+                poolRewards[token][reward],
+                whitelistedTokens[token],
+                currentRewardPerToken
+            );
+    }
+
+    /**
+     * @dev Settles a token's accumulators up to each reward's rewardPerTokenStored,
+     * at its current weight
+     * @param token Token to update
+     */
+    function _updatePool(address token) internal {
+        TokenWhitelist.updatePool(
+            whitelistedTokens,
+            rewardTokens,
+            rewardData,
+            poolRewards,
+            token
+        );
+    }
+
+    /**
+     * @dev Changes a token's total stake and keeps the global totals in sync
+     * @param info Token to update
+     * @param newTotalStaked New normalized total staked of the token
+     * @param newTotalBoosted New boosted total of the token
+     */
+    function _setTotalStaked(
+        TokenInfo storage info,
+        uint256 newTotalStaked,
+        uint256 newTotalBoosted
+    ) internal {
+        totalWeightedStaked -= TokenWhitelist.weightedStake(info);
+        totalNormalizedStaked -= info.totalStaked;
+        info.totalStaked = newTotalStaked;
+        info.totalBoosted = newTotalBoosted;
+        totalWeightedStaked += TokenWhitelist.weightedStake(info);
+        totalNormalizedStaked += newTotalStaked;
+    }
+
+    /**
+     * @dev Normalizes a token amount to 18 decimals
+     */
+    function _normalize(
+        address token,
+        uint256 amount
+    ) internal view returns (uint256) {
+        uint8 tokenDecimals = IERC20Metadata(token).decimals();
+        require(tokenDecimals <= 18, "Token decimals too high");
+        return amount * (10 ** (18 - tokenDecimals));
+    }
+
+    /**
+     * @dev Pulls tokens from the caller and returns the amount actually received
+     */
+    function _receiveTokens(
+        address token,
+        uint256 amount
+    ) internal returns (uint256 received) {
+        uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+        IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        received = IERC20(token).balanceOf(address(this)) - balanceBefore;
+        require(received > 0, "Cannot stake 0");
+        if (whitelistedTokens[token].mode == TokenMode.Standard) {
+            require(received == amount, "Undeclared transfer fee");
+        }
+    }
+
+    /**
+     * @dev Normalized stake to credit for tokens received. For rebasing tokens
+     * this is a share of the balance held for stakers before the deposit, and
+     * a deposit too small for a share is refused.
+     */
+    function _toStake(
+        address token,
+        uint256 received
+    ) internal view returns (uint256 normalizedAmount) {
+        normalizedAmount = TokenWhitelist.toStake(
+            whitelistedTokens[token],
+            token,
+            received,
+            true
+        );
+        require(normalizedAmount > 0, "Cannot stake 0 shares");
+    }
+
+    /**
+     * @dev Token amount a normalized stake is worth. Must be called before the
+     * stake is removed from the token's total.
+     */
+    function _toTokenAmount(
+        address token,
+        uint256 normalizedAmount
+    ) internal view returns (uint256) {
+        return
+            TokenWhitelist.toTokenAmount(
+                whitelistedTokens[token],
+                token,
+                normalizedAmount
+            );
+    }
+
+    /**
+     * @dev Internal function to update user rewards. Moves what each of the
+     * user's stakes earned since the last update into their accrued rewards.
+     * @param account User address to update rewards for
+     */
+    function _updateUserRewards(address account) internal {
+        address[] storage tokens = userTokens[account];
+        for (uint i = 0; i < tokens.length; i++) {
+            address token = tokens[i];
+            _updatePool(token);
+            uint256 boostedAmount = userStakes[account][token].boostedAmount;
+            for (uint256 j = 0; j < rewardTokens.length; j++) {
+                address reward = rewardTokens[j];
+                uint256 accRewardPerToken = poolRewards[token][reward]
+                    .accRewardPerToken;
+                rewards[account][reward] += _earned(
+                    account,
+                    token,
+                    reward,
+                    boostedAmount,
+                    accRewardPerToken
+                );
+                userRewardPerTokenPaid[account][token][
+                    reward
+                ] = accRewardPerToken;
+            }
+        }
+    }
+
+    /**
+     * @dev Adds a token to the user's staked tokens, if not there yet. The new
+     * stake earns from the pool's current accumulators on.
+     * @param account Staker
+     * @param token Token being staked
+     */
+    function _addUserToken(address account, address token) internal {
+        if (userTokenIndex[account][token] > 0) {
+            return;
+        }
+        userTokens[account].push(token);
+        userTokenIndex[account][token] = userTokens[account].length;
+
+        _updatePool(token);
+        for (uint256 i = 0; i < rewardTokens.length; i++) {
+            address reward = rewardTokens[i];
+            userRewardPerTokenPaid[account][token][reward] = poolRewards[
+                token
+            ][reward].accRewardPerToken;
+        }
+    }
+
+    /**
+     * @dev Removes a token from the user's staked tokens once nothing is staked.
+     * Expects the user's rewards to be up to date.
+     * @param account Staker
+     * @param token Token being withdrawn
+     */
+    function _removeUserToken(address account, address token) internal {
+        if (userStakes[account][token].boostedAmount > 0) {
+            return;
+        }
+
+        // Swap and pop, as for the whitelist
+        uint256 index = userTokenIndex[account][token] - 1;
+        address[] storage tokens = userTokens[account];
+        uint256 lastIndex = tokens.length - 1;
+        if (index != lastIndex) {
+            address lastToken = tokens[lastIndex];
+            tokens[index] = lastToken;
+            userTokenIndex[account][lastToken] = index + 1;
+        }
+
+        tokens.pop();
+        delete userTokenIndex[account][token];
+    }
+
+    /**
+     * @dev Rewards a stake earned since the user's last update
+     * @param account Staker
+     * @param token Staked token
+     * @param reward Reward token
+     * @param boostedAmount The stake's boosted amount
+     * @param accRewardPerToken Current accRewardPerToken of the pool
+     */
+    function _earned(
+        address account,
+        address token,
+        address reward,
+        uint256 boostedAmount,
+        uint256 accRewardPerToken
+    ) internal view returns (uint256) {
+        return
+            (boostedAmount *
+                (accRewardPerToken -
+                    userRewardPerTokenPaid[account][token][reward])) /
+            PRECISION;
+    }
+
+    /**
+     * @dev Mints the receipt for a new stake, if the token is receipted
+     */
+    function _mintReceipt(
+        address account,
+        address token,
+        uint256 normalizedAmount
+    ) internal {
+        if (token == votesToken) {
+            receiptToken.mint(account, normalizedAmount);
+        }
+    }
+
+    /**
+     * @dev Burns the receipt of a withdrawn stake, if the token is receipted
+     */
+    function _burnReceipt(
+        address account,
+        address token,
+        uint256 normalizedAmount
+    ) internal {
+        if (token == votesToken) {
+            receiptToken.burn(account, normalizedAmount);
+        }
+    }
+
+    /**
+     * @dev Stake tokens into the contract
+     * @param token Address of the whitelisted token to stake
+     * @param amount Amount of tokens to stake
+     */
+    function stake(
+        address token,
+        uint256 amount
+    )
+        external
+        nonReentrant
+        whenNotPaused
+        whenNotEmergency
+        updateReward(msg.sender)
+    {
+        require(amount > 0, "Cannot stake 0");
+        require(
+            whitelistedTokens[token].isWhitelisted,
+            "Token not whitelisted"
+        );
+
+        // Credit what actually arrived
+        uint256 received = _receiveTokens(token, amount);
+        uint256 normalizedAmount = _toStake(token, received);
+        _addUserToken(msg.sender, token);
+
+        // Update stake info
+        StakeInfo storage userStake = userStakes[msg.sender][token];
+        userStake.amount += normalizedAmount;
+        userStake.boostedAmount += normalizedAmount;
+        userStake.timestamp = block.timestamp;
+        stakeLots[msg.sender][token].push(
+            StakeLot({amount: normalizedAmount, timestamp: block.timestamp})
+        );
+
+        // Update total staked
+        TokenInfo storage tokenInfo = whitelistedTokens[token];
+        _setTotalStaked(
+            tokenInfo,
+            tokenInfo.totalStaked + normalizedAmount,
+            tokenInfo.totalBoosted + normalizedAmount
+        );
+        _mintReceipt(msg.sender, token, normalizedAmount);
+
+        emit Staked(msg.sender, token, received);
+    }
+
+    /**
+     * @dev Unstake tokens from the contract. The amount is taken from the oldest
+     * deposits first, and only from deposits past the minimum stake duration.
+     * @param token Address of the whitelisted token to unstake
+     * @param amount Amount of tokens to unstake
+     */
+    function unstake(
+        address token,
+        uint256 amount
+    ) external nonReentrant updateReward(msg.sender) {
+        require(amount > 0, "Cannot unstake 0");
+
+        StakeInfo storage userStake = userStakes[msg.sender][token];
+        TokenInfo storage tokenInfo = whitelistedTokens[token];
+
+        require(userStake.amount > 0, "No stake found");
+        StakeLot[] storage lots = stakeLots[msg.sender][token];
+        uint256 head = stakeLotHead[msg.sender][token];
+        require(
+            block.timestamp >=
+                lots[head].timestamp + tokenInfo.minStakeDuration,
+            "Minimum stake duration not met"
+        );
+
+        // Stake to remove for the amount, rounded up for rebasing tokens
+        uint256 normalizedAmount = TokenWhitelist.toStake(
+            tokenInfo,
+            token,
+            amount,
+            false
+        );
+        require(userStake.amount >= normalizedAmount, "Insufficient stake");
+
+        // Withdraw from matured lots, oldest first
+        uint256 remaining = normalizedAmount;
+        while (remaining > 0) {
+            require(
+                head < lots.length &&
+                    block.timestamp >=
+                    lots[head].timestamp + tokenInfo.minStakeDuration,
+                "Minimum stake duration not met"
+            );
+            StakeLot storage lot = lots[head];
+            if (lot.amount > remaining) {
+                lot.amount -= remaining;
+                remaining = 0;
+            } else {
+                remaining -= lot.amount;
+                delete lots[head];
+                head++;
+            }
+        }
+        stakeLotHead[msg.sender][token] = head;
+
+        // Update stake info
+        userStake.amount -= normalizedAmount;
+        userStake.boostedAmount -= normalizedAmount;
+        _setTotalStaked(
+            tokenInfo,
+            tokenInfo.totalStaked - normalizedAmount,
+            tokenInfo.totalBoosted - normalizedAmount
+        );
+        _removeUserToken(msg.sender, token);
+        _burnReceipt(msg.sender, token, normalizedAmount);
+
+        // Transfer tokens
+        IERC20(token).safeTransfer(msg.sender, amount);
+
+        emit Unstaked(msg.sender, token, amount);
+    }
+
+    /**
+     * @dev Stake tokens in a new locked position that earns with the tier's boost
+     * @param token Address of the whitelisted token to stake
+     * @param amount Amount of tokens to stake
+     * @param tierId Lock tier to use
+     * @return positionId Index of the position in the user's locked positions
+     */
+    function stakeLocked(
+        address token,
+        uint256 amount,
+        uint256 tierId
+    )
+        external
+        nonReentrant
+        whenNotPaused
+        whenNotEmergency
+        updateReward(msg.sender)
+        returns (uint256 positionId)
+    {
+        require(amount > 0, "Cannot stake 0");
+        require(
+            whitelistedTokens[token].isWhitelisted,
+            "Token not whitelisted"
+        );
+        require(tierId < lockTiers.length, "Invalid lock tier");
+        LockTier storage tier = lockTiers[tierId];
+        require(tier.enabled, "Lock tier disabled");
+
+        TokenInfo storage tokenInfo = whitelistedTokens[token];
+        require(
+            tier.duration >= tokenInfo.minStakeDuration,
+            "Lock shorter than minimum stake duration"
+        );
+
+        uint256 received = _receiveTokens(token, amount);
+        uint256 normalizedAmount = _toStake(token, received);
+        uint256 boostedAmount = (normalizedAmount * tier.boost) /
+            WEIGHT_PRECISION;
+        _addUserToken(msg.sender, token);
+        uint256 unlockTime = block.timestamp + tier.duration;
+
+        positionId = userLocks[msg.sender].length;
+        userLocks[msg.sender].push(
+            LockedPosition({
+                token: token,
+                amount: normalizedAmount,
+                boostedAmount: boostedAmount,
+                unlockTime: unlockTime,
+                tierId: tierId
+            })
+        );
+
+        StakeInfo storage userStake = userStakes[msg.sender][token];
+        userStake.lockedAmount += normalizedAmount;
+        userStake.boostedAmount += boostedAmount;
+        _setTotalStaked(
+            tokenInfo,
+            tokenInfo.totalStaked + normalizedAmount,
+            tokenInfo.totalBoosted + boostedAmount
+        );
+        _mintReceipt(msg.sender, token, normalizedAmount);
+
+        emit StakedLocked(
+            msg.sender,
+            token,
+            positionId,
+            received,
+            tierId,
+            unlockTime
+        );
+    }
+
+    /**
+     * @dev Withdraw a locked position once its unlock time has passed
+     * @param positionId Index of the position in the caller's locked positions
+     */
+    function withdrawLocked(
+        uint256 positionId
+    ) external nonReentrant updateReward(msg.sender) {
+        require(
+            positionId < userLocks[msg.sender].length,
+            "No locked position"
+        );
+        LockedPosition memory position = userLocks[msg.sender][positionId];
+        require(position.amount > 0, "No locked position");
+        require(
+            block.timestamp >= position.unlockTime,
+            "Position still locked"
+        );
+
+        delete userLocks[msg.sender][positionId];
+
+        StakeInfo storage userStake = userStakes[msg.sender][position.token];
+        TokenInfo storage tokenInfo = whitelistedTokens[position.token];
+        uint256 amount = _toTokenAmount(position.token, position.amount);
+        userStake.lockedAmount -= position.amount;
+        userStake.boostedAmount -= position.boostedAmount;
+        _setTotalStaked(
+            tokenInfo,
+            tokenInfo.totalStaked - position.amount,
+            tokenInfo.totalBoosted - position.boostedAmount
+        );
+        _removeUserToken(msg.sender, position.token);
+        _burnReceipt(msg.sender, position.token, position.amount);
+
+        IERC20(position.token).safeTransfer(msg.sender, amount);
+
+        emit LockedWithdrawn(msg.sender, position.token, positionId, amount);
+    }
+
+    /**
+     * @dev Withdraw the caller's whole stake of a token in emergency mode, including
+     * locked positions and deposits still within the minimum stake duration.
+     * Rewards are credited per staker, not per position, so all of the caller's
+     * unclaimed rewards are forfeited, of every reward token and earned on every
+     * staked token, and released from the allocation. Stakes of other tokens
+     * stay in place and earn from then on. Stakers who want to keep their
+     * rewards claim them first, which works in emergency mode unless paused.
+     * @param token Staked token to withdraw
+     */
+    function emergencyWithdraw(
+        address token
+    ) external nonReentrant updateReward(msg.sender) {
+        require(emergencyMode, "Emergency mode not active");
+
+        StakeInfo storage userStake = userStakes[msg.sender][token];
+        uint256 normalizedAmount = userStake.amount + userStake.lockedAmount;
+        require(normalizedAmount > 0, "No stake found");
+
+        // Forfeit every unclaimed reward of the caller, not only the token's
+        for (uint256 i = 0; i < rewardTokens.length; i++) {
+            address reward = rewardTokens[i];
+            rewardData[reward].totalAllocatedRewards -= rewards[msg.sender][
+                reward
+            ];
+            delete rewards[msg.sender][reward];
+        }
+
+        TokenInfo storage tokenInfo = whitelistedTokens[token];
+        uint256 amount = _toTokenAmount(token, normalizedAmount);
+        _setTotalStaked(
+            tokenInfo,
+            tokenInfo.totalStaked - normalizedAmount,
+            tokenInfo.totalBoosted - userStake.boostedAmount
+        );
+        delete userStakes[msg.sender][token];
+        _removeUserToken(msg.sender, token);
+        _burnReceipt(msg.sender, token, normalizedAmount);
+        delete stakeLots[msg.sender][token];
+        delete stakeLotHead[msg.sender][token];
+
+        // Close the token's locked positions
+        LockedPosition[] storage locks = userLocks[msg.sender];
+        for (uint256 i = 0; i < locks.length; i++) {
+            if (locks[i].token == token && locks[i].amount > 0) {
+                delete locks[i];
+            }
+        }
+
+        IERC20(token).safeTransfer(msg.sender, amount);
+
+        emit EmergencyWithdrawn(msg.sender, token, amount);
+    }
+
+    /**
+     * @dev View function to get pending rewards of the main reward token for a user
+     * @param account User address to check rewards for
+     */
+    function getPendingRewards(address account) public view returns (uint256) {
+        return getPendingReward(account, address(rewardToken));
+    }
+
+    /**
+     * @dev View function to get pending rewards of one reward token for a user
+     * @param account User address to check rewards for
+     * @param reward Reward token to check
+     */
+    function getPendingReward(
+        address account,
+        address reward
+    ) public view onlyRewardToken(reward) returns (uint256) {
+        uint256 pending = rewards[account][reward];
+        (RewardData memory data, ) = _currentRewardData(reward);
+        uint256 currentRewardPerToken = data.rewardPerTokenStored;
+
+        address[] storage tokens = userTokens[account];
+        for (uint i = 0; i < tokens.length; i++) {
+            address token = tokens[i];
+            pending += _earned(
+                account,
+                token,
+                reward,
+                userStakes[account][token].boostedAmount,
+                _getPoolRewardPerToken(token, reward, currentRewardPerToken)
+            );
+        }
+
+        return pending;
+    }
+
+    /**
+     * @dev View function to get pending rewards of every reward token for a user
+     * @param account User address to check rewards for
+     * @return tokens Reward tokens, in the order of rewardTokens
+     * @return amounts Pending amount of each reward token
+     */
+    function getAllPendingRewards(
+        address account
+    ) external view returns (address[] memory tokens, uint256[] memory amounts) {
+        tokens = rewardTokens;
+        amounts = new uint256[](tokens.length);
+        for (uint256 i = 0; i < tokens.length; i++) {
+            amounts[i] = getPendingReward(account, tokens[i]);
+        }
+    }
+
+    /**
+     * @dev Claim accumulated rewards of every reward token
+     */
+    function claimRewards()
+        external
+        nonReentrant
+        whenNotPaused
+        updateReward(msg.sender)
+    {
+        uint256 claimed = 0;
+        for (uint256 i = 0; i < rewardTokens.length; i++) {
+            claimed += _claimReward(rewardTokens[i]);
+        }
+        require(claimed > 0, "No rewards to claim");
+    }
+
+    /**
+     * @dev Claim accumulated rewards of a single reward token
+     * @param reward Reward token to claim
+     */
+    function claimReward(
+        address reward
+    )
+        external
+        nonReentrant
+        whenNotPaused
+        onlyRewardToken(reward)
+        updateReward(msg.sender)
+    {
+        require(_claimReward(reward) > 0, "No rewards to claim");
+    }
+
+    /**
+     * @dev Pays out the caller's accrued rewards of one reward token.
+     * Expects the caller's rewards to be up to date.
+     * @param reward Reward token to claim
+     * @return pendingRewards Amount paid
+     */
+    function _claimReward(
+        address reward
+    ) internal returns (uint256 pendingRewards) {
+        pendingRewards = rewards[msg.sender][reward];
+        if (pendingRewards > 0) {
+            rewards[msg.sender][reward] = 0;
+            rewardData[reward].totalAllocatedRewards -= pendingRewards;
+
+            // Transfer rewards to user
+            IERC20(reward).safeTransfer(msg.sender, pendingRewards);
+            if (reward == address(rewardToken)) {
+                emit RewardClaimed(msg.sender, pendingRewards);
+            } else {
+                emit RewardTokenClaimed(msg.sender, reward, pendingRewards);
+            }
+        }
+    }
+
+    /**
+     * @dev Stake the caller's pending main rewards into their stake of the reward
+     * token, without a transfer. Requires the reward token to be whitelisted.
+     */
+    function compound()
+        external
+        nonReentrant
+        whenNotPaused
+        whenNotEmergency
+        updateReward(address(0))
+    {
+        require(
+            whitelistedTokens[address(rewardToken)].isWhitelisted,
+            "Reward token not whitelisted"
+        );
+        require(_compound(msg.sender) > 0, "No rewards to compound");
+    }
+
+    /**
+     * @dev Opt in or out of auto-compounding by a keeper
+     * @param enabled Whether keepers may compound the caller's rewards
+     */
+    function setAutoCompound(bool enabled) external {
+        autoCompound[msg.sender] = enabled;
+
+        emit AutoCompoundSet(msg.sender, enabled);
+    }
+
+    /**
+     * @dev Compound the pending main rewards of a batch of opted-in stakers (keepers only).
+     * Accounts that are not opted in or have nothing pending are skipped.
+     * @param accounts Stakers to compound for
+     * @return compounded Number of accounts compounded
+     */
+    function compoundFor(
+        address[] calldata accounts
+    )
+        external
+        nonReentrant
+        whenNotPaused
+        whenNotEmergency
+        onlyKeeper
+        updateReward(address(0))
+        returns (uint256 compounded)
+    {
+        require(
+            whitelistedTokens[address(rewardToken)].isWhitelisted,
+            "Reward token not whitelisted"
+        );
+        for (uint256 i = 0; i < accounts.length; i++) {
+            if (autoCompound[accounts[i]] && _compound(accounts[i]) > 0) {
+                compounded++;
+            }
+        }
+    }
+
+    /**
+     * @dev Moves an account's pending main rewards into their stake of the
+     * reward token. Expects the reward state to be up to date.
+     * @param account Staker to compound for
+     * @return pendingRewards Amount compounded, in reward token units
+     */
+    function _compound(
+        address account
+    ) internal returns (uint256 pendingRewards) {
+        _updateUserRewards(account);
+        address reward = address(rewardToken);
+        pendingRewards = rewards[account][reward];
+        if (pendingRewards == 0) {
+            return 0;
+        }
+
+        // The rewards become principal
+        rewards[account][reward] = 0;
+        rewardData[reward].totalAllocatedRewards -= pendingRewards;
+
+        uint256 normalizedAmount = _normalize(reward, pendingRewards);
+        _addUserToken(account, reward);
+        StakeInfo storage userStake = userStakes[account][reward];
+        userStake.amount += normalizedAmount;
+        userStake.boostedAmount += normalizedAmount;
+        userStake.timestamp = block.timestamp;
+        // Added to the newest open lot if there is one, so that compounding
+        // doesn't relock the rewards or add to the lots unstake walks
+        StakeLot[] storage lots = stakeLots[account][reward];
+        if (lots.length > stakeLotHead[account][reward]) {
+            lots[lots.length - 1].amount += normalizedAmount;
+        } else {
+            lots.push(
+                StakeLot({amount: normalizedAmount, timestamp: block.timestamp})
+            );
+        }
+
+        TokenInfo storage tokenInfo = whitelistedTokens[reward];
+        _setTotalStaked(
+            tokenInfo,
+            tokenInfo.totalStaked + normalizedAmount,
+            tokenInfo.totalBoosted + normalizedAmount
+        );
+        _mintReceipt(account, reward, normalizedAmount);
+
+        emit Compounded(account, pendingRewards);
+    }
+
+    /**
+     * @dev Fund the contract with main reward tokens
+     * @param amount Amount of reward tokens to add
+     */
+    function fundRewards(
+        uint256 amount
+    )
+        external
+        onlyRole(REWARD_DISTRIBUTOR_ROLE)
+        updateReward(address(0))
+    {
+        _fundRewards(address(rewardToken), amount);
+    }
+
+    /**
+     * @dev Fund the contract with tokens of any reward token
+     * @param reward Reward token to fund
+     * @param amount Amount of reward tokens to add
+     */
+    function fundRewardToken(
+        address reward,
+        uint256 amount
+    )
+        external
+        onlyRole(REWARD_DISTRIBUTOR_ROLE)
+        onlyRewardToken(reward)
+        updateReward(address(0))
+    {
+        _fundRewards(reward, amount);
+    }
+
+    /**
+     * @dev Internal function to start or extend a reward period.
+     * Expects the reward state to be up to date.
+     * @param reward Reward token to fund
+     * @param amount Amount of reward tokens to add
+     */
+    function _fundRewards(address reward, uint256 amount) internal {
+        uint256 received = RewardTokens.fund(
+            rewardData[reward],
+            rewardEpochs[reward],
+            nextEpoch[reward],
+            reward,
+            amount
+        );
+
+        if (reward == address(rewardToken)) {
+            emit RewardsFunded(received);
+        } else {
+            emit RewardTokenFunded(reward, received);
+        }
+    }
+
+    /**
+     * @dev Schedule a reward epoch: `amount` reward tokens distributed from `start`
+     * over `duration`, funded now. Epochs of a reward token are scheduled in
+     * order, after the last one that isn't cancelled, and can't overlap each
+     * other or the running period. What doesn't
+     * make up a whole amount per second is left as excess.
+     * @param reward Reward token to distribute
+     * @param start Timestamp the epoch starts at
+     * @param duration Seconds the epoch lasts
+     * @param amount Amount of reward tokens to distribute
+     */
+    function scheduleRewardEpoch(
+        address reward,
+        uint256 start,
+        uint256 duration,
+        uint256 amount
+    )
+        external
+        onlyRole(REWARD_DISTRIBUTOR_ROLE)
+        onlyRewardToken(reward)
+        updateReward(address(0))
+    {
+        RewardData storage data = rewardData[reward];
+        uint256 streamed = RewardEpochs.schedule(
+            rewardEpochs[reward],
+            reward,
+            data.periodFinish,
+            start,
+            duration,
+            amount
+        );
+        // Allocated right away, so it can't be withdrawn as excess
+        data.totalAllocatedRewards += streamed;
+
+        emit RewardEpochScheduled(
+            reward,
+            rewardEpochs[reward].length - 1,
+            start,
+            duration,
+            streamed
+        );
+    }
+
+    /**
+     * @dev Cancel an epoch that hasn't started and refund its tokens to the caller
+     * @param reward Reward token of the epoch
+     * @param epochId Index of the epoch in rewardEpochs
+     */
+    function cancelRewardEpoch(
+        address reward,
+        uint256 epochId
+    ) external onlyRole(REWARD_DISTRIBUTOR_ROLE) {
+        uint256 amount = RewardEpochs.cancel(
+            rewardEpochs[reward],
+            reward,
+            epochId
+        );
+        rewardData[reward].totalAllocatedRewards -= amount;
+
+        emit RewardEpochCancelled(reward, epochId, amount);
+    }
+
+    /**
+     * @dev Set the rewards duration of the main reward token
+     * @param _rewardsDuration The new rewards duration in seconds
+     */
+    function setRewardsDuration(
+        uint256 _rewardsDuration
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setRewardsDuration(address(rewardToken), _rewardsDuration);
+    }
+
+    /**
+     * @dev Set the rewards duration of any reward token
+     * @param reward Reward token to update
+     * @param _rewardsDuration The new rewards duration in seconds
+     */
+    function setRewardTokenDuration(
+        address reward,
+        uint256 _rewardsDuration
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) onlyRewardToken(reward) {
+        _setRewardsDuration(reward, _rewardsDuration);
+    }
+
+    function _setRewardsDuration(
+        address reward,
+        uint256 _rewardsDuration
+    ) internal {
+        RewardTokens.setDuration(rewardData[reward], reward, _rewardsDuration);
+    }
+
+    /**
+     * @dev Add a reward token, paid alongside the main reward once funded
+     * @param reward Reward token address
+     * @param _rewardsDuration Duration of its reward periods in seconds
+     */
+    function addRewardToken(
+        address reward,
+        uint256 _rewardsDuration
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) updateReward(address(0)) {
+        RewardTokens.add(
+            rewardTokens,
+            rewardData,
+            whitelistedTokens,
+            whitelistedTokenList,
+            poolRewards,
+            reward,
+            _rewardsDuration
+        );
+    }
+
+    /**
+     * @dev Add a token to the whitelist
+     * @param token Token address to whitelist
+     * @param minStakeDuration Minimum staking duration for this token
+     */
+    function addToken(
+        address token,
+        uint256 minStakeDuration
+    ) external onlyRole(TOKEN_MANAGER_ROLE) updateReward(address(0)) {
+        _addToken(token, minStakeDuration, TokenMode.Standard);
+    }
+
+    /**
+     * @dev Add a token to the whitelist, declaring its transfer behaviour
+     * @param token Token address to whitelist
+     * @param minStakeDuration Minimum staking duration for this token
+     * @param mode Whether the token charges transfer fees or rebases
+     */
+    function addTokenWithMode(
+        address token,
+        uint256 minStakeDuration,
+        TokenMode mode
+    ) external onlyRole(TOKEN_MANAGER_ROLE) updateReward(address(0)) {
+        _addToken(token, minStakeDuration, mode);
+    }
+
+    /**
+     * @dev Add several tokens to the whitelist in one transaction
+     * @param tokens Token addresses to whitelist
+     * @param minStakeDurations Minimum staking duration for each token
+     */
+    function addTokens(
+        address[] calldata tokens,
+        uint256[] calldata minStakeDurations
+    ) external onlyRole(TOKEN_MANAGER_ROLE) updateReward(address(0)) {
+        require(
+            tokens.length == minStakeDurations.length,
+            "Array length mismatch"
+        );
+        for (uint256 i = 0; i < tokens.length; i++) {
+            _addToken(tokens[i], minStakeDurations[i], TokenMode.Standard);
+        }
+    }
+
+    /**
+     * @dev Internal function to whitelist a token with a 1x weight.
+     * Expects the reward state to be up to date.
+     * @param token Token address to whitelist
+     * @param minStakeDuration Minimum staking duration for this token
+     * @param mode Transfer behaviour of the token
+     */
+    function _addToken(
+        address token,
+        uint256 minStakeDuration,
+        TokenMode mode
+    ) internal {
+        TokenWhitelist.add(
+            whitelistedTokens,
+            whitelistedTokenList,
+            whitelistedTokenIndex,
+            rewardTokens,
+            rewardData,
+            poolRewards,
+            token,
+            minStakeDuration,
+            mode
+        );
+    }
+
+    /**
+     * @dev Remove a token from the whitelist
+     * @param token Token address to remove
+     */
+    function removeToken(
+        address token
+    ) external onlyRole(TOKEN_MANAGER_ROLE) {
+        TokenWhitelist.remove(
+            whitelistedTokens,
+            whitelistedTokenList,
+            whitelistedTokenIndex,
+            rewardTokens,
+            poolRewards,
+            token
+        );
+    }
+
+    /**
+     * @dev Declare how a whitelisted token behaves on transfer, e.g. once a fee or
+     * a rebase is discovered. Switching an existing stake to Rebasing shares the
+     * contract's balance pro rata among its stakers.
+     * @param token Token address to update
+     * @param mode New transfer behaviour
+     */
+    function setTokenMode(
+        address token,
+        TokenMode mode
+    ) external onlyRole(TOKEN_MANAGER_ROLE) {
+        TokenWhitelist.setMode(
+            whitelistedTokens,
+            whitelistedTokenIndex,
+            rewardData,
+            token,
+            mode
+        );
+    }
+
+    /**
+     * @dev Update minimum stake duration for a token
+     * @param token Token address to update
+     * @param newDuration New minimum stake duration
+     */
+    function updateMinStakeDuration(
+        address token,
+        uint256 newDuration
+    ) external onlyRole(TOKEN_MANAGER_ROLE) {
+        TokenWhitelist.setMinStakeDuration(
+            whitelistedTokens,
+            whitelistedTokenIndex,
+            token,
+            newDuration
+        );
+    }
+
+    /**
+     * @dev Set the reward weight of a token. Rewards accrued so far are settled
+     * at the old weight before the new one takes effect.
+     * @param token Token address to update
+     * @param weight New weight, WEIGHT_PRECISION = 1x, 0 stops rewards for the token
+     */
+    function setTokenWeight(
+        address token,
+        uint256 weight
+    ) external onlyRole(TOKEN_MANAGER_ROLE) updateReward(address(0)) {
+        _setTokenWeight(token, weight);
+    }
+
+    /**
+     * @dev Set the reward weights of several tokens at once, to rebalance incentives
+     * @param tokens Token addresses to update
+     * @param weights New weight for each token
+     */
+    function setTokenWeights(
+        address[] calldata tokens,
+        uint256[] calldata weights
+    ) external onlyRole(TOKEN_MANAGER_ROLE) updateReward(address(0)) {
+        require(tokens.length == weights.length, "Array length mismatch");
+        for (uint256 i = 0; i < tokens.length; i++) {
+            _setTokenWeight(tokens[i], weights[i]);
+        }
+    }
+
+    /**
+     * @dev Internal function to set a token weight. Expects the reward state to be up to date.
+     * @param token Token address to update
+     * @param weight New weight
+     */
+    function _setTokenWeight(address token, uint256 weight) internal {
+        (uint256 oldWeightedStake, uint256 newWeightedStake) = TokenWhitelist
+            .setWeight(
+                whitelistedTokens,
+                whitelistedTokenIndex,
+                rewardTokens,
+                rewardData,
+                poolRewards,
+                token,
+                weight
+            );
+        totalWeightedStaked =
+            totalWeightedStaked -
+            oldWeightedStake +
+            newWeightedStake;
+    }
+
+    /**
+     * @dev Add a lock tier. Existing positions keep the boost they were locked with.
+     * @param duration Lock duration in seconds
+     * @param boost Reward multiplier, WEIGHT_PRECISION = 1x
+     */
+    function addLockTier(
+        uint256 duration,
+        uint256 boost
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _addLockTier(duration, boost);
+    }
+
+    /**
+     * @dev Enable or disable a lock tier for new positions
+     * @param tierId Lock tier to update
+     * @param enabled Whether new positions may use the tier
+     */
+    function setLockTierEnabled(
+        uint256 tierId,
+        bool enabled
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        LockTiers.setEnabled(lockTiers, tierId, enabled);
+    }
+
+    /**
+     * @dev Allow or disallow an account to compound for opted-in stakers
+     * @param keeper Keeper address
+     * @param enabled Whether the account is a keeper
+     */
+    function setKeeper(
+        address keeper,
+        bool enabled
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(keeper != address(0), "Invalid keeper");
+        keepers[keeper] = enabled;
+
+        emit KeeperUpdated(keeper, enabled);
+    }
+
+    function _addLockTier(uint256 duration, uint256 boost) internal {
+        LockTiers.add(lockTiers, duration, boost);
+    }
+
+    /**
+     * @dev Emergency withdraw excess rewards of every reward token (admin only).
+     * Rewards owed to stakers or still to be distributed, and staked principal of
+     * a reward token that is also whitelisted, are never excess.
+     */
+    function emergencyWithdrawRewards()
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+        updateReward(address(0))
+    {
+        RewardTokens.withdrawExcess(
+            rewardTokens,
+            rewardData,
+            whitelistedTokens
+        );
+    }
+
+    /**
+     * @dev Set the token whose stakes are receipted in a votes token, e.g. MAGIC and
+     * stMAGIC. The receipt token must be owned by this contract. Can only be changed
+     * while neither the old nor the new token has stakes, so receipts always match stakes.
+     * @param token Staked token to receipt, zero to stop receipting
+     * @param receipt Receipt token
+     */
+    function setReceiptToken(
+        address token,
+        address receipt
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(
+            whitelistedTokens[votesToken].totalStaked == 0 &&
+                whitelistedTokens[token].totalStaked == 0,
+            "Token still has stakes"
+        );
+        require(
+            token == address(0) || receipt != address(0),
+            "Invalid receipt token"
+        );
+        votesToken = token;
+        receiptToken = MagicWorldStakedToken(receipt);
+
+        emit ReceiptTokenSet(token, receipt);
+    }
+
+    /**
+     * @dev Turn emergency mode on or off. While on, new stakes are blocked and
+     * stakers can leave with emergencyWithdraw regardless of lock periods.
+     * @param enabled Whether emergency mode is active
+     */
+    function setEmergencyMode(
+        bool enabled
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(emergencyMode != enabled, "Emergency mode unchanged");
+        emergencyMode = enabled;
+
+        emit EmergencyModeSet(enabled);
+    }
+
+    /**
+     * @dev Pause the contract
+     */
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    /**
+     * @dev Unpause the contract. Left to the admin, so a pauser can stop the
+     * contract quickly but can't undo a pause on their own.
+     */
+    function unpause() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _unpause();
+    }
+
+    /**
+     * @dev Get count of whitelisted tokens
+     */
+    function getWhitelistedTokensCount() public view returns (uint256) {
+        return whitelistedTokenList.length;
+    }
+
+    /**
+     * @dev Get whitelisted token at index
+     */
+    function getWhitelistedTokenAtIndex(
+        uint256 index
+    ) public view returns (address) {
+        require(index < whitelistedTokenList.length, "Index out of bounds");
+        return whitelistedTokenList[index];
+    }
+
+    /**
+     * @dev Get a user's open deposits of a token, oldest first, with the time each one unlocks
+     * @param account User address
+     * @param token Staked token
+     * @return lots Open deposits, normalized amounts
+     * @return unlockTimes Timestamp from which each deposit can be unstaked
+     */
+    function getStakeLots(
+        address account,
+        address token
+    )
+        external
+        view
+        returns (StakeLot[] memory lots, uint256[] memory unlockTimes)
+    {
+        StakeLot[] storage allLots = stakeLots[account][token];
+        uint256 head = stakeLotHead[account][token];
+        uint256 minStakeDuration = whitelistedTokens[token].minStakeDuration;
+
+        lots = new StakeLot[](allLots.length - head);
+        unlockTimes = new uint256[](lots.length);
+        for (uint256 i = 0; i < lots.length; i++) {
+            lots[i] = allLots[head + i];
+            unlockTimes[i] = lots[i].timestamp + minStakeDuration;
+        }
+    }
+
+    /**
+     * @dev Get the amount of a user's stake that has passed the minimum stake duration
+     * @param account User address
+     * @param token Staked token
+     * @return Normalized amount that can be unstaked now
+     */
+    function getUnlockedAmount(
+        address account,
+        address token
+    ) external view returns (uint256) {
+        StakeLot[] storage lots = stakeLots[account][token];
+        uint256 minStakeDuration = whitelistedTokens[token].minStakeDuration;
+        uint256 unlocked = 0;
+        for (
+            uint256 i = stakeLotHead[account][token];
+            i < lots.length &&
+                block.timestamp >= lots[i].timestamp + minStakeDuration;
+            i++
+        ) {
+            unlocked += lots[i].amount;
+        }
+        return unlocked;
+    }
+
+    /**
+     * @dev Get count of lock tiers
+     */
+    function getLockTiersCount() public view returns (uint256) {
+        return lockTiers.length;
+    }
+
+    /**
+     * @dev Get the tokens a user has a stake in, flexible or locked
+     */
+    function getUserTokens(
+        address account
+    ) external view returns (address[] memory) {
+        return userTokens[account];
+    }
+
+    /**
+     * @dev Get all locked positions of a user, withdrawn positions are zeroed
+     */
+    function getUserLocks(
+        address account
+    ) external view returns (LockedPosition[] memory) {
+        return userLocks[account];
+    }
+
+    /**
+     * @dev Get count of reward tokens, including the main reward token
+     */
+    function getRewardTokensCount() public view returns (uint256) {
+        return rewardTokens.length;
+    }
+
+    /**
+     * @dev The epoch a reward token is distributing now, if any
+     * @return active Whether an epoch is running
+     * @return epochId Index of the last started epoch in rewardEpochs
+     * @return epoch The last started epoch
+     */
+    function getCurrentEpoch(
+        address reward
+    )
+        external
+        view
+        returns (bool active, uint256 epochId, RewardEpochs.Epoch memory epoch)
+    {
+        return RewardEpochs.current(rewardEpochs[reward], nextEpoch[reward]);
+    }
+
+    /**
+     * @dev Epochs of a reward token that haven't started, cancelled ones
+     * included with a zero amount
+     * @return firstEpochId Index in rewardEpochs of the first returned epoch
+     * @return epochs The epochs, in start order
+     */
+    function getUpcomingEpochs(
+        address reward
+    )
+        external
+        view
+        returns (uint256 firstEpochId, RewardEpochs.Epoch[] memory epochs)
+    {
+        return RewardEpochs.upcoming(rewardEpochs[reward], nextEpoch[reward]);
+    }
+
+    function getRewardEpochsCount(
+        address reward
+    ) external view returns (uint256) {
+        return rewardEpochs[reward].length;
+    }
+
+    // Views of the main reward token's state
+
+    function rewardRate() external view returns (uint256) {
+        return rewardData[address(rewardToken)].rewardRate;
+    }
+
+    function rewardsDuration() external view returns (uint256) {
+        return rewardData[address(rewardToken)].rewardsDuration;
+    }
+
+    function periodFinish() external view returns (uint256) {
+        return rewardData[address(rewardToken)].periodFinish;
+    }
+
+    function lastUpdateTime() external view returns (uint256) {
+        return rewardData[address(rewardToken)].lastUpdateTime;
+    }
+
+    function rewardPerTokenStored() external view returns (uint256) {
+        return rewardData[address(rewardToken)].rewardPerTokenStored;
+    }
+
+    function totalAllocatedRewards() external view returns (uint256) {
+        return rewardData[address(rewardToken)].totalAllocatedRewards;
+    }
+}
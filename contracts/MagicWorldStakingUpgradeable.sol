@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "./MagicWorldStakingBase.sol";
+
+/**
+ * @title MagicWorldStakingUpgradeable
+ * @notice MagicWorldStaking behind a UUPS proxy, so that fixes to the staking
+ * or reward logic can be rolled out without stakers moving their stakes.
+ * @dev Only DEFAULT_ADMIN_ROLE, the governance timelock after deployment, can
+ * upgrade. The deploy scripts check that a new implementation's storage layout
+ * is compatible with the running one before proposing or making the upgrade.
+ */
+contract MagicWorldStakingUpgradeable is
+    MagicWorldStakingBase,
+    UUPSUpgradeable
+{
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Sets the reward token and grants every role to the caller
+     * @param _rewardToken Address of the main reward token
+     */
+    function initialize(address _rewardToken) external initializer {
+        __MagicWorldStaking_init(_rewardToken);
+        __UUPSUpgradeable_init();
+    }
+
+    function _authorizeUpgrade(
+        address
+    ) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
+}
@@ -0,0 +1,130 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./MagicWorldVestingWallet.sol";
+
+/**
+ * @title MagicWorldVestingFactory
+ * @notice Creates and funds a MagicWorldVestingWallet per MAGIC vesting
+ * schedule, e.g. for team and investor allocations. Each schedule gets its
+ * own wallet so that its unvested tokens can be delegated by its beneficiary.
+ * @dev The creator funds each schedule with an ERC20 transfer, so the factory
+ * must be approved first. The owner, the governance timelock after
+ * deployment, can revoke revocable schedules; unvested tokens go to the owner.
+ */
+contract MagicWorldVestingFactory is Ownable {
+    using SafeERC20 for IERC20;
+
+    struct Schedule {
+        address beneficiary;
+        uint256 amount;
+        uint64 start;
+        uint64 cliffDuration;
+        uint64 duration;
+        bool revocable;
+    }
+
+    IERC20 public immutable token;
+
+    address[] public vestingWallets;
+    mapping(address => bool) public isVestingWallet;
+    mapping(address => address[]) private beneficiaryWallets;
+
+    event VestingCreated(
+        address indexed wallet,
+        address indexed beneficiary,
+        uint256 amount,
+        uint64 start,
+        uint64 cliffDuration,
+        uint64 duration,
+        bool revocable
+    );
+    event VestingRevoked(address indexed wallet, uint256 unvested);
+
+    constructor(address _token) Ownable(msg.sender) {
+        require(_token != address(0), "Invalid token address");
+        token = IERC20(_token);
+    }
+
+    /**
+     * @notice Creates a vesting wallet and funds it from the caller
+     * @return wallet The new vesting wallet
+     */
+    function createVesting(
+        Schedule calldata schedule
+    ) external returns (address wallet) {
+        return _createVesting(schedule);
+    }
+
+    /**
+     * @notice Creates several vesting wallets in one transaction
+     * @dev The caller must have approved the sum of all amounts
+     */
+    function createVestings(
+        Schedule[] calldata schedules
+    ) external returns (address[] memory wallets) {
+        wallets = new address[](schedules.length);
+        for (uint256 i = 0; i < schedules.length; i++) {
+            wallets[i] = _createVesting(schedules[i]);
+        }
+    }
+
+    /**
+     * @notice Revokes a schedule, sending its unvested tokens to the owner
+     */
+    function revoke(address wallet) external onlyOwner returns (uint256) {
+        require(isVestingWallet[wallet], "Unknown vesting wallet");
+        uint256 unvested = MagicWorldVestingWallet(wallet).revoke(owner());
+        emit VestingRevoked(wallet, unvested);
+        return unvested;
+    }
+
+    function getVestingWalletsCount() external view returns (uint256) {
+        return vestingWallets.length;
+    }
+
+    function getVestingWallets() external view returns (address[] memory) {
+        return vestingWallets;
+    }
+
+    function getBeneficiaryWallets(
+        address beneficiary
+    ) external view returns (address[] memory) {
+        return beneficiaryWallets[beneficiary];
+    }
+
+    function _createVesting(
+        Schedule calldata schedule
+    ) internal returns (address wallet) {
+        require(schedule.amount > 0, "Amount must be greater than 0");
+
+        wallet = address(
+            new MagicWorldVestingWallet(
+                address(token),
+                schedule.beneficiary,
+                schedule.start,
+                schedule.cliffDuration,
+                schedule.duration,
+                schedule.revocable
+            )
+        );
+        vestingWallets.push(wallet);
+        isVestingWallet[wallet] = true;
+        beneficiaryWallets[schedule.beneficiary].push(wallet);
+
+        token.safeTransferFrom(msg.sender, wallet, schedule.amount);
+
+        emit VestingCreated(
+            wallet,
+            schedule.beneficiary,
+            schedule.amount,
+            schedule.start,
+            schedule.cliffDuration,
+            schedule.duration,
+            schedule.revocable
+        );
+    }
+}
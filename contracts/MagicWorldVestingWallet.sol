@@ -0,0 +1,138 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/governance/utils/IVotes.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title MagicWorldVestingWallet
+ * @notice Holds one MAGIC vesting schedule. Nothing vests before the cliff,
+ * after which tokens vest linearly from `start` until `start + duration`.
+ * Anyone can release vested tokens to the beneficiary, and the beneficiary
+ * decides who votes with the tokens still held here, vested or not.
+ * @dev Created and funded by MagicWorldVestingFactory, which is the only
+ * account that can revoke a revocable schedule. Like OpenZeppelin's
+ * VestingWallet, the vested amount is a share of everything the wallet ever
+ * held, so tokens sent here later follow the same schedule.
+ */
+contract MagicWorldVestingWallet {
+    using SafeERC20 for IERC20;
+
+    address public immutable factory;
+    IERC20 public immutable token;
+    address public immutable beneficiary;
+    uint64 public immutable start;
+    uint64 public immutable cliff;
+    uint64 public immutable duration;
+    bool public immutable revocable;
+
+    uint256 public released;
+    bool public revoked;
+
+    event TokensReleased(address indexed beneficiary, uint256 amount);
+    event VestingRevoked(address indexed refundTo, uint256 unvested);
+
+    error VestingUnauthorized(address account);
+    error VestingInvalidSchedule();
+    error VestingNotRevocable();
+    error VestingAlreadyRevoked();
+    error VestingNothingToRelease();
+
+    /**
+     * @param _token MAGIC, which must implement IVotes
+     * @param _beneficiary Receives released tokens and controls their votes
+     * @param _start Timestamp from which tokens vest
+     * @param _cliffDuration Seconds after `_start` before anything vests
+     * @param _duration Seconds from `_start` until everything has vested
+     * @param _revocable Whether the factory owner can revoke unvested tokens
+     */
+    constructor(
+        address _token,
+        address _beneficiary,
+        uint64 _start,
+        uint64 _cliffDuration,
+        uint64 _duration,
+        bool _revocable
+    ) {
+        if (
+            _beneficiary == address(0) ||
+            _duration == 0 ||
+            _cliffDuration > _duration
+        ) {
+            revert VestingInvalidSchedule();
+        }
+        factory = msg.sender;
+        token = IERC20(_token);
+        beneficiary = _beneficiary;
+        start = _start;
+        cliff = _start + _cliffDuration;
+        duration = _duration;
+        revocable = _revocable;
+
+        // Votes count for the beneficiary from the start, unless they
+        // delegate elsewhere
+        IVotes(_token).delegate(_beneficiary);
+    }
+
+    function end() public view returns (uint64) {
+        return start + duration;
+    }
+
+    /**
+     * @notice Tokens vested at `timestamp`, released or not
+     * @dev After revocation, everything left in the wallet is vested
+     */
+    function vestedAmount(uint64 timestamp) public view returns (uint256) {
+        uint256 totalAllocation = token.balanceOf(address(this)) + released;
+        if (revoked || timestamp >= end()) {
+            return totalAllocation;
+        }
+        if (timestamp < cliff) {
+            return 0;
+        }
+        return (totalAllocation * (timestamp - start)) / duration;
+    }
+
+    function releasable() public view returns (uint256) {
+        return vestedAmount(uint64(block.timestamp)) - released;
+    }
+
+    /**
+     * @notice Sends vested tokens to the beneficiary
+     */
+    function release() external returns (uint256 amount) {
+        amount = releasable();
+        if (amount == 0) revert VestingNothingToRelease();
+        released += amount;
+        token.safeTransfer(beneficiary, amount);
+        emit TokensReleased(beneficiary, amount);
+    }
+
+    /**
+     * @notice Delegates the votes of the tokens held here
+     */
+    function delegate(address delegatee) external {
+        if (msg.sender != beneficiary) revert VestingUnauthorized(msg.sender);
+        IVotes(address(token)).delegate(delegatee);
+    }
+
+    /**
+     * @notice Sends unvested tokens to `refundTo`; what has vested stays
+     * releasable to the beneficiary
+     * @dev Only callable by the factory, on behalf of its owner
+     */
+    function revoke(address refundTo) external returns (uint256 unvested) {
+        if (msg.sender != factory) revert VestingUnauthorized(msg.sender);
+        if (!revocable) revert VestingNotRevocable();
+        if (revoked) revert VestingAlreadyRevoked();
+
+        uint256 vested = vestedAmount(uint64(block.timestamp));
+        unvested = token.balanceOf(address(this)) + released - vested;
+        revoked = true;
+        if (unvested > 0) {
+            token.safeTransfer(refundTo, unvested);
+        }
+        emit VestingRevoked(refundTo, unvested);
+    }
+}
@@ -0,0 +1,56 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./StakingTypes.sol";
+
+/**
+ * @title LockTiers
+ * @notice Lock tiers MagicWorldStaking offers for locked positions
+ * @dev Deployed once and linked, its external functions run in the staking
+ * contract's context and emit the staking contract's events.
+ */
+library LockTiers {
+    // Same as MagicWorldStaking's
+    uint256 private constant WEIGHT_PRECISION = 1e4;
+    uint256 private constant MAX_BOOST = 5 * WEIGHT_PRECISION;
+    uint256 private constant MAX_LOCK_DURATION = 4 * 365 days;
+
+    event LockTierAdded(uint256 indexed tierId, uint256 duration, uint256 boost);
+    event LockTierEnabled(uint256 indexed tierId, bool enabled);
+
+    /**
+     * @dev Adds an enabled tier
+     */
+    function add(
+        LockTier[] storage tiers,
+        uint256 duration,
+        uint256 boost
+    ) external {
+        require(
+            duration > 0 && duration <= MAX_LOCK_DURATION,
+            "Invalid lock duration"
+        );
+        require(
+            boost >= WEIGHT_PRECISION && boost <= MAX_BOOST,
+            "Invalid boost"
+        );
+
+        tiers.push(LockTier({duration: duration, boost: boost, enabled: true}));
+
+        emit LockTierAdded(tiers.length - 1, duration, boost);
+    }
+
+    /**
+     * @dev Enables or disables a tier for new positions
+     */
+    function setEnabled(
+        LockTier[] storage tiers,
+        uint256 tierId,
+        bool enabled
+    ) external {
+        require(tierId < tiers.length, "Invalid lock tier");
+        tiers[tierId].enabled = enabled;
+
+        emit LockTierEnabled(tierId, enabled);
+    }
+}
@@ -0,0 +1,146 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title RewardEpochs
+ * @notice Queue of scheduled reward epochs of one reward token in
+ * MagicWorldStaking. Each epoch distributes its amount from its start over its
+ * duration; epochs that aren't cancelled are kept in start order and never
+ * overlap. A new epoch must start after the last epoch that isn't cancelled:
+ * cancelling the last epochs frees their slots, but the gap left by a cancelled
+ * epoch that has live epochs after it can't be scheduled into.
+ * @dev Deployed once and linked, its external functions run in the staking
+ * contract's context. Starting due epochs is up to the staking contract, which
+ * tracks the first epoch that hasn't started.
+ */
+library RewardEpochs {
+    using SafeERC20 for IERC20;
+
+    struct Epoch {
+        uint256 start; // Timestamp the epoch's stream starts at
+        uint256 duration; // Seconds the amount is distributed over
+        uint256 amount; // Reward tokens streamed over the epoch, 0 once cancelled
+    }
+
+    /**
+     * @dev Adds an epoch after the last one, funded by the caller. The epoch
+     * streams a whole number of tokens per second, the rest of what is received
+     * isn't part of it and stays excess.
+     * @param periodFinish End of the reward's running period
+     * @return streamed Reward tokens the epoch streams
+     */
+    function schedule(
+        Epoch[] storage epochs,
+        address reward,
+        uint256 periodFinish,
+        uint256 start,
+        uint256 duration,
+        uint256 amount
+    ) external returns (uint256 streamed) {
+        require(start >= block.timestamp, "Epoch must start in the future");
+        require(duration > 0, "Epoch duration must be greater than zero");
+        require(amount > 0, "Cannot fund with 0 tokens");
+        require(start >= periodFinish, "Overlaps the current period");
+
+        // The last epoch not cancelled, started or not, must be over by then
+        for (uint256 i = epochs.length; i > 0; i--) {
+            Epoch storage last = epochs[i - 1];
+            if (last.amount > 0) {
+                require(
+                    start >= last.start + last.duration,
+                    "Overlaps a scheduled epoch"
+                );
+                break;
+            }
+        }
+
+        uint256 balanceBefore = IERC20(reward).balanceOf(address(this));
+        IERC20(reward).safeTransferFrom(msg.sender, address(this), amount);
+        uint256 received = IERC20(reward).balanceOf(address(this)) -
+            balanceBefore;
+        uint256 rewardRate = received / duration;
+        require(rewardRate > 0, "Epoch reward rate is zero");
+        streamed = rewardRate * duration;
+
+        epochs.push(Epoch(start, duration, streamed));
+    }
+
+    /**
+     * @dev Cancels an epoch that hasn't started and refunds it to the caller
+     * @return amount Reward tokens refunded
+     */
+    function cancel(
+        Epoch[] storage epochs,
+        address reward,
+        uint256 epochId
+    ) external returns (uint256 amount) {
+        require(epochId < epochs.length, "Invalid epoch");
+        Epoch storage epoch = epochs[epochId];
+        require(epoch.start > block.timestamp, "Epoch already started");
+        amount = epoch.amount;
+        require(amount > 0, "Epoch already cancelled");
+
+        epoch.amount = 0;
+        IERC20(reward).safeTransfer(msg.sender, amount);
+    }
+
+    /**
+     * @dev The last epoch that has started, if it is still running
+     * @param next First epoch not rolled over yet
+     */
+    function current(
+        Epoch[] storage epochs,
+        uint256 next
+    )
+        external
+        view
+        returns (bool active, uint256 epochId, Epoch memory epoch)
+    {
+        for (epochId = firstUpcoming(epochs, next); epochId > 0; epochId--) {
+            epoch = epochs[epochId - 1];
+            if (epoch.amount > 0) {
+                active = block.timestamp < epoch.start + epoch.duration;
+                return (active, epochId - 1, epoch);
+            }
+        }
+    }
+
+    /**
+     * @dev The epochs that haven't started, from the first one not cancelled
+     * @param next First epoch not rolled over yet
+     */
+    function upcoming(
+        Epoch[] storage epochs,
+        uint256 next
+    )
+        external
+        view
+        returns (uint256 firstEpochId, Epoch[] memory upcomingEpochs)
+    {
+        firstEpochId = firstUpcoming(epochs, next);
+        upcomingEpochs = new Epoch[](epochs.length - firstEpochId);
+        for (uint256 i = 0; i < upcomingEpochs.length; i++) {
+            upcomingEpochs[i] = epochs[firstEpochId + i];
+        }
+    }
+
+    /**
+     * @dev First epoch that hasn't started and isn't cancelled, whether or not
+     * the reward state has rolled over to the ones that have started
+     */
+    function firstUpcoming(
+        Epoch[] storage epochs,
+        uint256 next
+    ) public view returns (uint256) {
+        while (
+            next < epochs.length &&
+            (epochs[next].start <= block.timestamp || epochs[next].amount == 0)
+        ) {
+            next++;
+        }
+        return next;
+    }
+}
@@ -0,0 +1,187 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./RewardEpochs.sol";
+import "./StakingTypes.sol";
+import "./TokenWhitelist.sol";
+
+/**
+ * @title RewardTokens
+ * @notice Reward tokens of MagicWorldStaking: adding them, their period
+ * duration, funding their reward periods and withdrawing what is not owed.
+ * @dev Deployed once and linked, its external functions run in the staking
+ * contract's context and emit the staking contract's events. Funding events
+ * differ for the main reward token, so they are left to the staking contract.
+ */
+library RewardTokens {
+    using SafeERC20 for IERC20;
+
+    // Same as MagicWorldStaking's
+    uint256 private constant MAX_REWARD_TOKENS = 8;
+
+    event RewardTokenAdded(address indexed rewardToken, uint256 rewardsDuration);
+    event RewardsDurationUpdated(
+        address indexed rewardToken,
+        uint256 newDuration
+    );
+
+    /**
+     * @dev Adds a reward token, after settling every pool so that it starts
+     * accruing from now. Expects the reward state to be up to date.
+     */
+    function add(
+        address[] storage rewardTokens,
+        mapping(address => RewardData) storage rewardData,
+        mapping(address => TokenInfo) storage tokens,
+        address[] storage tokenList,
+        mapping(address => mapping(address => PoolRewardInfo)) storage pools,
+        address reward,
+        uint256 rewardsDuration
+    ) external {
+        require(reward != address(0), "Invalid reward token");
+        require(
+            rewardData[reward].rewardsDuration == 0,
+            "Reward token already added"
+        );
+        require(
+            tokens[reward].mode != TokenMode.Rebasing,
+            "Rebasing reward token not supported"
+        );
+        require(
+            rewardTokens.length < MAX_REWARD_TOKENS,
+            "Too many reward tokens"
+        );
+        require(
+            rewardsDuration > 0,
+            "Reward duration must be greater than zero"
+        );
+
+        for (uint256 i = 0; i < tokenList.length; i++) {
+            TokenWhitelist.updatePool(
+                tokens,
+                rewardTokens,
+                rewardData,
+                pools,
+                tokenList[i]
+            );
+        }
+
+        rewardTokens.push(reward);
+        rewardData[reward].rewardsDuration = rewardsDuration;
+
+        emit RewardTokenAdded(reward, rewardsDuration);
+    }
+
+    /**
+     * @dev Sets the duration of a reward token's next periods, once the
+     * running one is complete
+     */
+    function setDuration(
+        RewardData storage data,
+        address reward,
+        uint256 rewardsDuration
+    ) external {
+        require(
+            block.timestamp > data.periodFinish,
+            "Previous rewards period must be complete"
+        );
+        require(
+            rewardsDuration > 0,
+            "Reward duration must be greater than zero"
+        );
+        data.rewardsDuration = rewardsDuration;
+
+        emit RewardsDurationUpdated(reward, rewardsDuration);
+    }
+
+    /**
+     * @dev Sends the caller the excess of every reward token. Rewards owed to
+     * stakers or still to be distributed, and staked principal of a reward
+     * token that is also whitelisted, are never excess.
+     */
+    function withdrawExcess(
+        address[] storage rewardTokens,
+        mapping(address => RewardData) storage rewardData,
+        mapping(address => TokenInfo) storage tokens
+    ) external {
+        for (uint256 i = 0; i < rewardTokens.length; i++) {
+            address reward = rewardTokens[i];
+            TokenInfo storage info = tokens[reward];
+            uint256 allocated = rewardData[reward].totalAllocatedRewards;
+            if (info.totalStaked > 0) {
+                // A reward token can't rebase, its stakes are plain normalized amounts
+                allocated +=
+                    info.totalStaked /
+                    (10 ** (18 - IERC20Metadata(reward).decimals()));
+            }
+            uint256 balance = IERC20(reward).balanceOf(address(this));
+
+            if (balance > allocated) {
+                IERC20(reward).safeTransfer(msg.sender, balance - allocated);
+            }
+        }
+    }
+
+    /**
+     * @dev Starts or extends a reward period with tokens from the caller. The
+     * period streams a whole number of tokens per second, what is left over
+     * stays excess. Expects the reward state to be up to date.
+     * @param epochs The reward's scheduled epochs
+     * @param next First of them that hasn't started
+     * @return received Reward tokens actually received
+     */
+    function fund(
+        RewardData storage data,
+        RewardEpochs.Epoch[] storage epochs,
+        uint256 next,
+        address reward,
+        uint256 amount
+    ) external returns (uint256 received) {
+        require(amount > 0, "Cannot fund with 0 tokens");
+
+        uint256 oldBalance = IERC20(reward).balanceOf(address(this));
+        IERC20(reward).safeTransferFrom(msg.sender, address(this), amount);
+        uint256 newBalance = IERC20(reward).balanceOf(address(this));
+
+        received = newBalance - oldBalance;
+
+        // Scheduled epochs keep their own amounts and times. Cancelled ones
+        // don't, as in RewardEpochs.schedule.
+        for (uint256 i = next; i < epochs.length; i++) {
+            if (epochs[i].amount > 0) {
+                require(
+                    block.timestamp + data.rewardsDuration <= epochs[i].start,
+                    "Overlaps a scheduled epoch"
+                );
+                break;
+            }
+        }
+
+        // What a running period still had to stream rolls over into the new one
+        uint256 leftover;
+        if (block.timestamp < data.periodFinish) {
+            leftover = (data.periodFinish - block.timestamp) * data.rewardRate;
+        }
+        data.rewardRate = (leftover + received) / data.rewardsDuration;
+        require(data.rewardRate > 0, "Reward rate is zero");
+
+        data.lastUpdateTime = block.timestamp;
+        data.periodFinish = block.timestamp + data.rewardsDuration;
+        // Only what the new period streams is allocated, the leftover already
+        // was. The remainder of the rate's rounding is left as excess.
+        data.totalAllocatedRewards =
+            data.totalAllocatedRewards -
+            leftover +
+            data.rewardRate *
+            data.rewardsDuration;
+
+        // Sanity check to prevent absurdly high reward rates
+        require(
+            data.rewardRate <= newBalance / data.rewardsDuration,
+            "Reward rate too high"
+        );
+    }
+}
@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// State of MagicWorldStaking shared with its linked libraries
+
+// How a staked token behaves on transfer and over time
+enum TokenMode {
+    Standard, // Transfers move the exact amount, balances only change on transfer
+    FeeOnTransfer, // Transfers may deliver less than the amount sent
+    Rebasing // Balances change without transfers, stakes are shares of the balance
+}
+
+struct TokenInfo {
+    bool isWhitelisted;
+    uint256 minStakeDuration;
+    uint256 totalStaked; // Normalized amount (18 decimals)
+    uint256 weight; // Reward multiplier, WEIGHT_PRECISION = 1x
+    uint256 totalBoosted; // Sum of the stakers' boostedAmount
+    TokenMode mode;
+}
+
+struct RewardData {
+    uint256 rewardRate;
+    uint256 rewardsDuration;
+    uint256 periodFinish;
+    uint256 lastUpdateTime;
+    uint256 rewardPerTokenStored; // Rewards per weighted normalized unit
+    uint256 totalAllocatedRewards; // Owed to stakers or still to be distributed
+}
+
+struct LockTier {
+    uint256 duration; // Lock duration in seconds
+    uint256 boost; // Reward multiplier, WEIGHT_PRECISION = 1x
+    bool enabled; // Disabled tiers can't be used for new positions
+}
+
+struct PoolRewardInfo {
+    uint256 accRewardPerToken; // Rewards per normalized unit of the staked token
+    uint256 rewardPerTokenPaid; // Reward's rewardPerTokenStored at the last pool update
+}
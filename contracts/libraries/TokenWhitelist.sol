@@ -0,0 +1,298 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "./StakingTypes.sol";
+
+/**
+ * @title TokenWhitelist
+ * @notice Whitelist of the tokens MagicWorldStaking accepts: adding and removing
+ * tokens, their mode, minimum stake duration and reward weight, and each
+ * token's reward accumulators (pools).
+ * @dev Deployed once and linked, its external functions run in the staking
+ * contract's context and emit the staking contract's events. The internal pool
+ * functions are also used by the staking contract itself.
+ */
+library TokenWhitelist {
+    // Same as MagicWorldStaking's
+    uint256 private constant WEIGHT_PRECISION = 1e4;
+    uint256 private constant MAX_WEIGHT = 100 * WEIGHT_PRECISION;
+    // Virtual balance of a rebasing token, backed by as many virtual shares
+    uint256 private constant VIRTUAL_BALANCE = 1e3;
+
+    event TokenWhitelisted(address indexed token, uint256 minStakeDuration);
+    event TokenRemovedFromWhitelist(address indexed token);
+    event MinStakeDurationUpdated(address indexed token, uint256 newDuration);
+    event TokenModeUpdated(address indexed token, TokenMode mode);
+    event TokenWeightUpdated(
+        address indexed token,
+        uint256 oldWeight,
+        uint256 newWeight
+    );
+
+    /**
+     * @dev Whitelists a token with a 1x weight. Its pools start from the
+     * rewards' current rewardPerTokenStored, so expects the reward state to be
+     * up to date.
+     * @param list Whitelisted tokens, for iteration
+     * @param index Position of each token in `list`, plus one
+     */
+    function add(
+        mapping(address => TokenInfo) storage tokens,
+        address[] storage list,
+        mapping(address => uint256) storage index,
+        address[] storage rewardTokens,
+        mapping(address => RewardData) storage rewardData,
+        mapping(address => mapping(address => PoolRewardInfo)) storage pools,
+        address token,
+        uint256 minStakeDuration,
+        TokenMode mode
+    ) external {
+        require(token != address(0), "Invalid token address");
+        require(index[token] == 0, "Token already whitelisted");
+        require(minStakeDuration > 0, "Invalid stake duration");
+
+        // Check token decimals
+        uint8 decimals = IERC20Metadata(token).decimals();
+        require(decimals <= 18, "Token decimals exceed 18");
+
+        // Add to whitelist
+        tokens[token] = TokenInfo({
+            isWhitelisted: true,
+            minStakeDuration: minStakeDuration,
+            totalStaked: 0,
+            weight: WEIGHT_PRECISION,
+            totalBoosted: 0,
+            mode: TokenMode.Standard
+        });
+        _setMode(tokens, rewardData, token, mode);
+        for (uint256 i = 0; i < rewardTokens.length; i++) {
+            address reward = rewardTokens[i];
+            pools[token][reward] = PoolRewardInfo({
+                accRewardPerToken: 0,
+                rewardPerTokenPaid: rewardData[reward].rewardPerTokenStored
+            });
+        }
+
+        // Add to tracked array
+        list.push(token);
+        index[token] = list.length;
+
+        emit TokenWhitelisted(token, minStakeDuration);
+    }
+
+    /**
+     * @dev Removes a token that has no stakes left, with its pools
+     */
+    function remove(
+        mapping(address => TokenInfo) storage tokens,
+        address[] storage list,
+        mapping(address => uint256) storage index,
+        address[] storage rewardTokens,
+        mapping(address => mapping(address => PoolRewardInfo)) storage pools,
+        address token
+    ) external {
+        uint256 position = index[token];
+        require(position > 0, "Token not whitelisted");
+        require(tokens[token].totalStaked == 0, "Token still has stakes");
+
+        // Get the actual index (stored as index+1)
+        position--;
+
+        // Swap and pop to remove efficiently
+        uint256 lastIndex = list.length - 1;
+        if (position != lastIndex) {
+            address lastToken = list[lastIndex];
+            list[position] = lastToken;
+            index[lastToken] = position + 1;
+        }
+
+        list.pop();
+        delete index[token];
+        delete tokens[token];
+        for (uint256 i = 0; i < rewardTokens.length; i++) {
+            delete pools[token][rewardTokens[i]];
+        }
+        emit TokenRemovedFromWhitelist(token);
+    }
+
+    /**
+     * @dev Declares how a whitelisted token behaves on transfer
+     */
+    function setMode(
+        mapping(address => TokenInfo) storage tokens,
+        mapping(address => uint256) storage index,
+        mapping(address => RewardData) storage rewardData,
+        address token,
+        TokenMode mode
+    ) external {
+        require(index[token] > 0, "Token not whitelisted");
+        _setMode(tokens, rewardData, token, mode);
+    }
+
+    /**
+     * @dev Updates the minimum stake duration of a whitelisted token
+     */
+    function setMinStakeDuration(
+        mapping(address => TokenInfo) storage tokens,
+        mapping(address => uint256) storage index,
+        address token,
+        uint256 newDuration
+    ) external {
+        require(index[token] > 0, "Token not whitelisted");
+        require(newDuration > 0, "Invalid stake duration");
+
+        tokens[token].minStakeDuration = newDuration;
+
+        emit MinStakeDurationUpdated(token, newDuration);
+    }
+
+    /**
+     * @dev Sets the reward weight of a whitelisted token, after settling its
+     * pools at the old weight. Expects the reward state to be up to date.
+     * @return oldWeightedStake The token's weighted stake before the change
+     * @return newWeightedStake The token's weighted stake after the change
+     */
+    function setWeight(
+        mapping(address => TokenInfo) storage tokens,
+        mapping(address => uint256) storage index,
+        address[] storage rewardTokens,
+        mapping(address => RewardData) storage rewardData,
+        mapping(address => mapping(address => PoolRewardInfo)) storage pools,
+        address token,
+        uint256 weight
+    ) external returns (uint256 oldWeightedStake, uint256 newWeightedStake) {
+        require(index[token] > 0, "Token not whitelisted");
+        require(weight <= MAX_WEIGHT, "Weight too high");
+
+        updatePool(tokens, rewardTokens, rewardData, pools, token);
+
+        TokenInfo storage info = tokens[token];
+        uint256 oldWeight = info.weight;
+        oldWeightedStake = weightedStake(info);
+        info.weight = weight;
+        newWeightedStake = weightedStake(info);
+
+        emit TokenWeightUpdated(token, oldWeight, weight);
+    }
+
+    /**
+     * @dev Settles a token's pools up to each reward's rewardPerTokenStored,
+     * at its current weight
+     */
+    function updatePool(
+        mapping(address => TokenInfo) storage tokens,
+        address[] storage rewardTokens,
+        mapping(address => RewardData) storage rewardData,
+        mapping(address => mapping(address => PoolRewardInfo)) storage pools,
+        address token
+    ) internal {
+        for (uint256 i = 0; i < rewardTokens.length; i++) {
+            address reward = rewardTokens[i];
+            uint256 stored = rewardData[reward].rewardPerTokenStored;
+            PoolRewardInfo storage pool = pools[token][reward];
+            pool.accRewardPerToken = poolRewardPerToken(
+                pool,
+                tokens[token],
+                stored
+            );
+            pool.rewardPerTokenPaid = stored;
+        }
+    }
+
+    /**
+     * @dev Rewards per normalized unit of a token, given the reward's global
+     * reward per weighted unit
+     */
+    function poolRewardPerToken(
+        PoolRewardInfo storage pool,
+        TokenInfo storage info,
+        uint256 currentRewardPerToken
+    ) internal view returns (uint256) {
+        return
+            pool.accRewardPerToken +
+            ((currentRewardPerToken - pool.rewardPerTokenPaid) * info.weight) /
+            WEIGHT_PRECISION;
+    }
+
+    /**
+     * @dev Weighted stake of a token, its contribution to totalWeightedStaked.
+     * Rounded up so that the pools together never earn more than is distributed.
+     */
+    function weightedStake(
+        TokenInfo storage info
+    ) internal view returns (uint256) {
+        return
+            (info.totalBoosted * info.weight + WEIGHT_PRECISION - 1) /
+            WEIGHT_PRECISION;
+    }
+
+    /**
+     * @dev Normalized stake worth a token amount. Stakes of a rebasing token are
+     * shares of the contract's balance, which counts a virtual balance and as
+     * many virtual shares so that a donation can't inflate the share price.
+     * Rounded down for a deposit, whose tokens must already be received, and
+     * up for a withdrawal.
+     */
+    function toStake(
+        TokenInfo storage info,
+        address token,
+        uint256 amount,
+        bool deposit
+    ) external view returns (uint256) {
+        uint256 unit = 10 ** (18 - IERC20Metadata(token).decimals());
+        if (info.mode != TokenMode.Rebasing) {
+            return amount * unit;
+        }
+        uint256 balance = IERC20(token).balanceOf(address(this)) +
+            VIRTUAL_BALANCE;
+        uint256 shares = info.totalStaked + VIRTUAL_BALANCE * unit;
+        if (deposit) {
+            return (amount * shares) / (balance - amount);
+        }
+        return (amount * shares + balance - 1) / balance;
+    }
+
+    /**
+     * @dev Token amount a normalized stake is worth. Must be called before the
+     * stake is removed from the token's total.
+     */
+    function toTokenAmount(
+        TokenInfo storage info,
+        address token,
+        uint256 normalizedAmount
+    ) external view returns (uint256) {
+        uint256 unit = 10 ** (18 - IERC20Metadata(token).decimals());
+        if (info.mode == TokenMode.Rebasing) {
+            uint256 balance = IERC20(token).balanceOf(address(this));
+            uint256 amount = (normalizedAmount *
+                (balance + VIRTUAL_BALANCE)) /
+                (info.totalStaked + VIRTUAL_BALANCE * unit);
+            // After a negative rebase the virtual shares may be owed more
+            // than the rest of the balance
+            return amount < balance ? amount : balance;
+        }
+        return normalizedAmount / unit;
+    }
+
+    function _setMode(
+        mapping(address => TokenInfo) storage tokens,
+        mapping(address => RewardData) storage rewardData,
+        address token,
+        TokenMode mode
+    ) private {
+        TokenInfo storage info = tokens[token];
+        if (mode == TokenMode.Rebasing) {
+            // The balance of a reward token also holds rewards, so it can't back shares
+            require(
+                rewardData[token].rewardsDuration == 0,
+                "Rebasing reward token not supported"
+            );
+        } else if (info.mode == TokenMode.Rebasing) {
+            require(info.totalStaked == 0, "Token still has stakes");
+        }
+        info.mode = mode;
+
+        emit TokenModeUpdated(token, mode);
+    }
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "../MagicWorldGovernanceUpgradeable.sol";
+
+/**
+ * @dev Next version of the governor implementation, to test upgrades through
+ * a proposal. Doesn't override `version`, which is part of the EIP-712 domain.
+ * Upgrades don't initialize, it keeps the inherited initializer.
+ * @custom:oz-upgrades-unsafe-allow missing-initializer
+ */
+contract MagicWorldGovernanceV2Mock is MagicWorldGovernanceUpgradeable {
+    function implementationVersion() external pure returns (uint256) {
+        return 2;
+    }
+}
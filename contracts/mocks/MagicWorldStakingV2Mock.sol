@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../MagicWorldStakingUpgradeable.sol";
+
+/**
+ * @dev Next version of the staking implementation, to test upgrades of a
+ * running proxy. Upgrades don't initialize, it keeps the inherited initializer.
+ * @custom:oz-upgrades-unsafe-allow missing-initializer
+ */
+contract MagicWorldStakingV2Mock is MagicWorldStakingUpgradeable {
+    function implementationVersion() external pure returns (uint256) {
+        return 2;
+    }
+}
+
+/**
+ * @dev State that would come before the staking state if inherited first
+ */
+abstract contract StakingStateMock {
+    uint256 internal shiftedSlot;
+}
+
+/**
+ * @dev Staking implementation whose state is shifted by a slot, which the
+ * storage layout validation must reject as an upgrade
+ * @custom:oz-upgrades-unsafe-allow missing-initializer
+ */
+contract MagicWorldStakingBadLayoutMock is
+    StakingStateMock,
+    MagicWorldStakingUpgradeable
+{}
+
+/**
+ * @dev Staking implementation that fails the ERC-1822 check of
+ * `upgradeToAndCall`, so upgrading to it reverts for another reason than access
+ * @custom:oz-upgrades-unsafe-allow missing-initializer
+ */
+contract MagicWorldStakingBadUUIDMock is MagicWorldStakingUpgradeable {
+    function proxiableUUID() external pure override returns (bytes32) {
+        return bytes32(0);
+    }
+}
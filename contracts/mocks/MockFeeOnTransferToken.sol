@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @dev Token that burns a fee on every transfer, so the recipient receives less than the amount sent
+ */
+contract MockFeeOnTransferToken is ERC20, Ownable {
+    uint256 public feeBps = 100; // 1%
+
+    constructor() ERC20("Fee Token", "FEE") Ownable(msg.sender) {}
+
+    /**
+     * @dev Creates new tokens and assigns them to the specified address
+     * @param to Address to receive the newly minted tokens
+     * @param amount Amount of tokens to mint
+     */
+    function mint(address to, uint256 amount) public onlyOwner {
+        _mint(to, amount);
+    }
+
+    /**
+     * @dev Sets the transfer fee in basis points
+     */
+    function setFee(uint256 _feeBps) public onlyOwner {
+        require(_feeBps <= 10000, "Fee too high");
+        feeBps = _feeBps;
+    }
+
+    function _update(address from, address to, uint256 value) internal override {
+        if (from == address(0) || to == address(0) || feeBps == 0) {
+            super._update(from, to, value);
+            return;
+        }
+        uint256 fee = (value * feeBps) / 10000;
+        super._update(from, address(0), fee);
+        super._update(from, to, value - fee);
+    }
+}
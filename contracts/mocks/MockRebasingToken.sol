@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @dev Token whose balances are shares scaled by a global index, so a rebase
+ * changes every balance without any transfer
+ */
+contract MockRebasingToken is ERC20, Ownable {
+    uint256 public index = 1e18;
+
+    constructor() ERC20("Rebasing Token", "REB") Ownable(msg.sender) {}
+
+    /**
+     * @dev Creates new tokens and assigns them to the specified address
+     * @param to Address to receive the newly minted tokens
+     * @param amount Amount of tokens to mint
+     */
+    function mint(address to, uint256 amount) public onlyOwner {
+        _mint(to, amount);
+    }
+
+    /**
+     * @dev Scales every balance, 1e18 = no change since deployment
+     */
+    function rebase(uint256 newIndex) public onlyOwner {
+        require(newIndex > 0, "Invalid index");
+        index = newIndex;
+    }
+
+    function balanceOf(address account) public view override returns (uint256) {
+        return (super.balanceOf(account) * index) / 1e18;
+    }
+
+    function totalSupply() public view override returns (uint256) {
+        return (super.totalSupply() * index) / 1e18;
+    }
+
+    // Amounts are converted to shares, balances are stored in shares
+    function _update(address from, address to, uint256 value) internal override {
+        super._update(from, to, (value * 1e18) / index);
+    }
+}
@@ -0,0 +1,21 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+import { DeployFunction } from "hardhat-deploy/types"
+import { developmentChains, DEV_REWARD_FUNDING } from "../helper-hardhat-config"
+
+// Deploys the mock staking and reward tokens used on development chains
+const deployMocks: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+	const { deployments, getNamedAccounts } = hre
+	const { deploy, execute } = deployments
+	const { deployer } = await getNamedAccounts()
+
+	await deploy("MagicWorldToken", { from: deployer, log: true })
+	await deploy("MockRewardToken", { from: deployer, log: true })
+
+	// Seed the deployer with the reward tokens used for the initial funding
+	await execute("MockRewardToken", { from: deployer, log: true }, "mint", deployer, DEV_REWARD_FUNDING)
+}
+
+deployMocks.skip = async (hre: HardhatRuntimeEnvironment) => !developmentChains.includes(hre.network.name)
+deployMocks.tags = ["mocks"]
+
+export default deployMocks
@@ -0,0 +1,15 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+import { DeployFunction } from "hardhat-deploy/types"
+
+const deployGovernanceToken: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+	const { deployments, getNamedAccounts } = hre
+	const { deployer } = await getNamedAccounts()
+
+	await deployments.deploy("MagicWorldGovernanceToken", { from: deployer, log: true })
+	// stMAGIC, handed over to staking once it is deployed
+	await deployments.deploy("MagicWorldStakedToken", { from: deployer, log: true })
+}
+
+deployGovernanceToken.tags = ["token"]
+
+export default deployGovernanceToken
@@ -0,0 +1,78 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+import { DeployFunction } from "hardhat-deploy/types"
+import {
+	developmentChains,
+	DEV_GOVERNANCE_PARAMETERS,
+	GovernanceParameters,
+	readDeploymentParameters,
+} from "../helper-hardhat-config"
+import { deployUpgradeableProxy } from "../helper-upgrades"
+
+const deployGovernance: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+	const { deployments, getNamedAccounts, network, ethers } = hre
+	const { deployer } = await getNamedAccounts()
+
+	const params: GovernanceParameters = developmentChains.includes(network.name)
+		? { ...DEV_GOVERNANCE_PARAMETERS, timelockGuardian: deployer }
+		: readDeploymentParameters(network.name).MagicWorldGovernanceModule
+
+	const token = await deployments.get("MagicWorldGovernanceToken")
+	const stakedToken = await deployments.get("MagicWorldStakedToken")
+
+	// Anyone may execute once the delay has passed; proposer and canceller
+	// roles are granted below, once the governor address is known
+	const timelock = await deployments.deploy("MagicWorldTimelock", {
+		contract: "TimelockController",
+		from: deployer,
+		args: [params.timelockMinDelay, [], [ethers.ZeroAddress], deployer],
+		log: true,
+	})
+
+	// The governor runs behind a UUPS proxy that only a passed proposal can upgrade
+	const governance = await deployUpgradeableProxy(hre, "MagicWorldGovernance", {
+		contract: "MagicWorldGovernanceUpgradeable",
+		from: deployer,
+		args: [
+			token.address,
+			stakedToken.address,
+			timelock.address,
+			params.votingDelay,
+			params.votingPeriod,
+			params.proposalThreshold,
+			params.quorumNumerator,
+		],
+	})
+
+	// Role setup only runs once, the deployer gives up the admin role at the end
+	if (!timelock.newlyDeployed) {
+		return
+	}
+
+	const timelockController = await ethers.getContractAt(
+		"TimelockController",
+		timelock.address,
+		await ethers.getSigner(deployer)
+	)
+	const proposerRole = await timelockController.PROPOSER_ROLE()
+	const cancellerRole = await timelockController.CANCELLER_ROLE()
+	const adminRole = await timelockController.DEFAULT_ADMIN_ROLE()
+
+	await (await timelockController.grantRole(proposerRole, governance.address)).wait()
+	await (await timelockController.grantRole(cancellerRole, governance.address)).wait()
+	await (await timelockController.grantRole(cancellerRole, params.timelockGuardian)).wait()
+
+	// From here on, role changes must go through a proposal
+	await (await timelockController.renounceRole(adminRole, deployer)).wait()
+
+	// Governance also administers MAGIC roles. The deployer keeps MINTER_ROLE
+	// for the initial distribution, until governance revokes it.
+	const magic = await ethers.getContractAt("MagicWorldGovernanceToken", token.address, await ethers.getSigner(deployer))
+	const tokenAdminRole = await magic.DEFAULT_ADMIN_ROLE()
+	await (await magic.grantRole(tokenAdminRole, timelock.address)).wait()
+	await (await magic.renounceRole(tokenAdminRole, deployer)).wait()
+}
+
+deployGovernance.tags = ["governance"]
+deployGovernance.dependencies = ["token"]
+
+export default deployGovernance
@@ -0,0 +1,113 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+import { DeployFunction } from "hardhat-deploy/types"
+import {
+	developmentChains,
+	DEV_MIN_STAKE_DURATION,
+	DEV_REWARD_FUNDING,
+	readDeploymentParameters,
+	StakingParameters,
+} from "../helper-hardhat-config"
+import { deployUpgradeableProxy } from "../helper-upgrades"
+
+// Linked libraries of the staking implementation
+const STAKING_LIBRARIES = ["RewardEpochs", "TokenWhitelist", "RewardTokens", "LockTiers"]
+
+// Staking roles the timelock takes over from the deployer on live networks
+const STAKING_ROLES = ["PAUSER_ROLE", "REWARD_DISTRIBUTOR_ROLE", "TOKEN_MANAGER_ROLE", "DEFAULT_ADMIN_ROLE"]
+
+const deployStaking: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+	const { deployments, getNamedAccounts, network, ethers } = hre
+	const { deployer } = await getNamedAccounts()
+	const isDevelopmentChain = developmentChains.includes(network.name)
+
+	let params: StakingParameters
+	if (isDevelopmentChain) {
+		params = {
+			rewardToken: (await deployments.get("MockRewardToken")).address,
+			whitelistedTokens: [(await deployments.get("MagicWorldToken")).address],
+			minStakeDurations: [DEV_MIN_STAKE_DURATION],
+			rewardFunding: DEV_REWARD_FUNDING,
+		}
+	} else {
+		params = readDeploymentParameters(network.name).MagicWorldStakingModule
+	}
+
+	// Reward epochs, the whitelist, reward tokens and lock tiers live in linked
+	// libraries to keep staking below the code size limit
+	const libraries: Record<string, string> = {}
+	for (const library of STAKING_LIBRARIES) {
+		libraries[library] = (await deployments.deploy(library, { from: deployer, log: true })).address
+	}
+
+	// Staking runs behind a UUPS proxy. Later runs upgrade it once the new
+	// implementation passes the storage layout check, through a proposal when
+	// the timelock holds the admin role.
+	const staking = await deployUpgradeableProxy(hre, "MagicWorldStaking", {
+		contract: "MagicWorldStakingUpgradeable",
+		from: deployer,
+		args: [params.rewardToken],
+		libraries,
+	})
+
+	// Configuration only runs once, the deployer gives up its roles on live networks
+	if (!staking.newlyDeployed) {
+		return
+	}
+
+	await deployments.execute(
+		"MagicWorldStaking",
+		{ from: deployer, log: true },
+		"addTokens",
+		params.whitelistedTokens,
+		params.minStakeDurations
+	)
+
+	// Staked MAGIC is receipted in stMAGIC, which only staking can mint and burn.
+	// When staking is redeployed, e.g. to migrate from an earlier version, stMAGIC
+	// stays owned by the previous staking contract and MAGIC stakes aren't receipted.
+	const magic = await deployments.get("MagicWorldGovernanceToken")
+	const stakedToken = await deployments.get("MagicWorldStakedToken")
+	const stakedTokenOwner = await deployments.read("MagicWorldStakedToken", "owner")
+	if (stakedTokenOwner === deployer) {
+		await deployments.execute(
+			"MagicWorldStakedToken",
+			{ from: deployer, log: true },
+			"transferOwnership",
+			staking.address
+		)
+		await deployments.execute(
+			"MagicWorldStaking",
+			{ from: deployer, log: true },
+			"setReceiptToken",
+			magic.address,
+			stakedToken.address
+		)
+	} else {
+		console.log(`stMAGIC is owned by ${stakedTokenOwner}, MAGIC stakes are not receipted`)
+	}
+
+	const rewardToken = await ethers.getContractAt("IERC20", params.rewardToken, await ethers.getSigner(deployer))
+	await (await rewardToken.approve(staking.address, params.rewardFunding)).wait()
+	await deployments.execute("MagicWorldStaking", { from: deployer, log: true }, "fundRewards", params.rewardFunding)
+
+	// Development chains keep every role with the deployer so tests can exercise admin functions.
+	// Elsewhere the timelock holds them, so admin actions are delayed governance proposals.
+	// Governance can then grant the narrower roles, e.g. pauser to a security multisig.
+	if (!isDevelopmentChain) {
+		const timelock = await deployments.get("MagicWorldTimelock")
+		for (const role of STAKING_ROLES) {
+			const roleId = await deployments.read("MagicWorldStaking", role)
+			await deployments.execute("MagicWorldStaking", { from: deployer, log: true }, "grantRole", roleId, timelock.address)
+		}
+		// The deployer gives up its roles once the timelock holds them all
+		for (const role of STAKING_ROLES) {
+			const roleId = await deployments.read("MagicWorldStaking", role)
+			await deployments.execute("MagicWorldStaking", { from: deployer, log: true }, "renounceRole", roleId, deployer)
+		}
+	}
+}
+
+deployStaking.tags = ["staking"]
+deployStaking.dependencies = ["mocks", "governance"]
+
+export default deployStaking
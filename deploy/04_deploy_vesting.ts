@@ -0,0 +1,33 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+import { DeployFunction } from "hardhat-deploy/types"
+import { developmentChains } from "../helper-hardhat-config"
+
+const deployVesting: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+	const { deployments, getNamedAccounts, network } = hre
+	const { deployer } = await getNamedAccounts()
+
+	const token = await deployments.get("MagicWorldGovernanceToken")
+
+	const factory = await deployments.deploy("MagicWorldVestingFactory", {
+		from: deployer,
+		args: [token.address],
+		log: true,
+	})
+
+	// Development chains keep the deployer as owner so tests can revoke schedules.
+	// Elsewhere only a governance proposal can revoke, and refunds go to the timelock.
+	if (factory.newlyDeployed && !developmentChains.includes(network.name)) {
+		const timelock = await deployments.get("MagicWorldTimelock")
+		await deployments.execute(
+			"MagicWorldVestingFactory",
+			{ from: deployer, log: true },
+			"transferOwnership",
+			timelock.address
+		)
+	}
+}
+
+deployVesting.tags = ["vesting"]
+deployVesting.dependencies = ["governance"]
+
+export default deployVesting
@@ -0,0 +1,85 @@
+import fs from "fs"
+import path from "path"
+
+// Networks where mocks are deployed and the stack is configured for testing
+export const developmentChains = ["hardhat", "localhost"]
+
+export interface GovernanceParameters {
+	votingDelay: number
+	votingPeriod: number
+	proposalThreshold: bigint
+	/** Quorum as a percentage of the MAGIC supply at the proposal snapshot */
+	quorumNumerator: number
+	/** Seconds between queueing a passed proposal and its execution */
+	timelockMinDelay: number
+	/** Account that may cancel queued operations, e.g. a security multisig */
+	timelockGuardian: string
+}
+
+export interface StakingParameters {
+	rewardToken: string
+	whitelistedTokens: string[]
+	minStakeDurations: number[]
+	rewardFunding: bigint
+}
+
+export interface DeploymentParameters {
+	MagicWorldGovernanceModule: GovernanceParameters
+	MagicWorldStakingModule: StakingParameters
+}
+
+// Settings used on development chains, matching what the test suites expect.
+// The deployer acts as timelock guardian there.
+export const DEV_GOVERNANCE_PARAMETERS: Omit<GovernanceParameters, "timelockGuardian"> = {
+	votingDelay: 1, // 1 block
+	votingPeriod: 5, // 5 blocks
+	proposalThreshold: 0n,
+	quorumNumerator: 4, // 4% of the supply
+	timelockMinDelay: 3600, // 1 hour in seconds
+}
+export const DEV_MIN_STAKE_DURATION = 86400 // 1 day in seconds
+export const DEV_REWARD_FUNDING = 1000n * 10n ** 18n
+
+/**
+ * Reads the Ignition parameter file of a live network so that hardhat-deploy
+ * and Ignition deployments share a single source of configuration.
+ * Values written as "123n" are parsed as bigints, like Ignition does.
+ */
+export function readDeploymentParameters(network: string): DeploymentParameters {
+	const file = path.join(__dirname, "ignition", "parameters", `${network}.json`)
+	if (!fs.existsSync(file)) {
+		throw new Error(`No deployment parameters found for network "${network}" (expected ${file})`)
+	}
+
+	const parameters: DeploymentParameters = JSON.parse(fs.readFileSync(file, "utf8"), (_key, value) =>
+		typeof value === "string" && /^\d+n$/.test(value) ? BigInt(value.slice(0, -1)) : value
+	)
+	assertNoZeroPlaceholders(parameters, ["MagicWorldGovernanceModule", "MagicWorldStakingModule"], file)
+	return parameters
+}
+
+/**
+ * Throws when parameters of the given modules are still zero placeholders
+ * ("0x00...", like the zero addresses and Merkle roots the parameter files
+ * ship with). Deploying them would, for instance, give the timelock
+ * canceller role to the zero address.
+ */
+export function assertNoZeroPlaceholders(parameters: object, modules: string[], file: string): void {
+	const placeholders: string[] = []
+	const visit = (value: unknown, name: string) => {
+		if (Array.isArray(value)) {
+			value.forEach((item, i) => visit(item, `${name}[${i}]`))
+		} else if (typeof value === "string" && /^0x0+$/.test(value)) {
+			placeholders.push(name)
+		}
+	}
+	for (const module of modules) {
+		const values: object = (parameters as Record<string, object | undefined>)[module] ?? {}
+		for (const [name, value] of Object.entries(values)) {
+			visit(value, `${module}.${name}`)
+		}
+	}
+	if (placeholders.length > 0) {
+		throw new Error(`Replace the zero placeholders in ${file} before deploying: ${placeholders.join(", ")}`)
+	}
+}
@@ -0,0 +1,124 @@
+import fs from "fs"
+import path from "path"
+import yaml from "js-yaml"
+import { Interface } from "ethers"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+import type { ProposalSpec } from "./tasks/proposal-builder"
+
+export interface ProxyDeployOptions {
+	/** Implementation contract, e.g. "MagicWorldStakingUpgradeable" */
+	contract: string
+	from: string
+	/** Arguments of `initialize`, only used when the proxy is first deployed */
+	args: unknown[]
+	libraries?: Record<string, string>
+}
+
+export interface ProxyDeployResult {
+	address: string
+	implementation: string
+	newlyDeployed: boolean
+	/** Proposal spec written when the upgrade has to go through governance */
+	proposal?: string
+}
+
+// Reverts of `_authorizeUpgrade` when the caller may not upgrade: the staking
+// admin role check and the governor's own-proposal check
+const UNAUTHORIZED_UPGRADE_ERRORS = ["AccessControlUnauthorizedAccount", "GovernorOnlyExecutor"]
+
+// Ethers call exceptions and Hardhat network errors both carry the revert data
+function isUnauthorizedUpgrade(contract: Interface, error: unknown): boolean {
+	const data = (error as { data?: unknown } | undefined)?.data
+	if (typeof data !== "string") {
+		return false
+	}
+	const revert = contract.parseError(data)
+	return revert !== null && UNAUTHORIZED_UPGRADE_ERRORS.includes(revert.name)
+}
+
+/**
+ * Deploys `contract` behind a UUPS proxy saved under `name`, or upgrades the
+ * existing proxy to it. An upgrade is checked against the storage layout of
+ * the running implementation (kept by the upgrades plugin in `.openzeppelin/`)
+ * and only deploys a new implementation when the code changed. The deployer
+ * upgrades directly while it is allowed to, e.g. on development chains.
+ * When the upgrade reverts as unauthorized, a proposal spec is written to
+ * proposals/upgrades/<network>/<name>.yaml instead, to submit with
+ * gov:propose. Any other failure is thrown.
+ */
+export async function deployUpgradeableProxy(
+	hre: HardhatRuntimeEnvironment,
+	name: string,
+	options: ProxyDeployOptions
+): Promise<ProxyDeployResult> {
+	const { deployments, ethers, upgrades } = hre
+	const signer = await ethers.getSigner(options.from)
+	const factory = await ethers.getContractFactory(options.contract, { signer, libraries: options.libraries })
+	// The libraries are deployed once and linked, they have no state of their own
+	const upgradeOptions = { kind: "uups" as const, unsafeAllowLinkedLibraries: options.libraries !== undefined }
+	const abi = JSON.parse(factory.interface.formatJson())
+
+	const existing = await deployments.getOrNull(name)
+	if (!existing) {
+		const proxy = await upgrades.deployProxy(factory, options.args, upgradeOptions)
+		await proxy.waitForDeployment()
+		const address = await proxy.getAddress()
+		const implementation = await upgrades.erc1967.getImplementationAddress(address)
+		await deployments.save(name, {
+			address,
+			abi,
+			implementation,
+			transactionHash: proxy.deploymentTransaction()?.hash,
+		})
+		deployments.log(`deployed ${name} proxy at ${address} (implementation ${implementation})`)
+		return { address, implementation, newlyDeployed: true }
+	}
+
+	let current: string
+	try {
+		current = await upgrades.erc1967.getImplementationAddress(existing.address)
+	} catch {
+		throw new Error(
+			`${name} at ${existing.address} was deployed without a proxy and can't be upgraded. ` +
+				`Remove its deployment file to deploy a proxy, then migrate to it (see staking:migrate).`
+		)
+	}
+
+	const implementation = ethers.getAddress(
+		(await upgrades.prepareUpgrade(existing.address, factory, upgradeOptions)) as string
+	)
+	const result: ProxyDeployResult = { address: existing.address, implementation, newlyDeployed: false }
+	if (implementation === ethers.getAddress(current)) {
+		return result
+	}
+
+	const proxy = await ethers.getContractAt(options.contract, existing.address, signer)
+	try {
+		await proxy.upgradeToAndCall.staticCall(implementation, "0x")
+	} catch (error: unknown) {
+		if (!isUnauthorizedUpgrade(proxy.interface, error)) {
+			throw error
+		}
+		// Only governance may upgrade
+		const spec: ProposalSpec = {
+			description: `Upgrade ${name} to the ${options.contract} implementation at ${implementation}`,
+			actions: [
+				{
+					call: `${options.contract}.upgradeToAndCall`,
+					address: existing.address,
+					args: [implementation, "0x"],
+				},
+			],
+		}
+		result.proposal = path.join(hre.config.paths.root, "proposals", "upgrades", hre.network.name, `${name}.yaml`)
+		fs.mkdirSync(path.dirname(result.proposal), { recursive: true })
+		fs.writeFileSync(result.proposal, yaml.dump(spec))
+		console.log(`${name} needs a governance upgrade to ${implementation}, proposal written to ${result.proposal}`)
+		return result
+	}
+
+	await (await proxy.upgradeToAndCall(implementation, "0x")).wait()
+	await deployments.save(name, { ...existing, abi, implementation })
+	deployments.log(`upgraded ${name} at ${existing.address} to ${implementation}`)
+	return result
+}
@@ -0,0 +1,61 @@
+// Deploys the full Magic World stack: MAGIC and stMAGIC tokens, governor, timelock,
+// staking and the MAGIC vesting factory. Staking mints stMAGIC for staked MAGIC
+// so that it keeps its votes.
+// Once staking is configured and funded, its roles are handed over to the
+// governance timelock so that further admin actions go through proposals and
+// only take effect after the timelock delay.
+//
+// npx hardhat ignition deploy ignition/modules/MagicWorld.ts \
+//   --network rskTestnet --parameters ignition/parameters/rskTestnet.json
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+import MagicWorldGovernanceModule from "./MagicWorldGovernance";
+import MagicWorldStakingModule from "./MagicWorldStaking";
+import MagicWorldVestingModule from "./MagicWorldVesting";
+
+// Getters of the staking roles, by the name used in their future ids
+const STAKING_ROLES = {
+  Admin: "DEFAULT_ADMIN_ROLE",
+  Pauser: "PAUSER_ROLE",
+  RewardDistributor: "REWARD_DISTRIBUTOR_ROLE",
+  TokenManager: "TOKEN_MANAGER_ROLE",
+} as const;
+
+const MagicWorldModule = buildModule("MagicWorldModule", (m) => {
+  const { token, stakedToken, timelock, governance } = m.useModule(MagicWorldGovernanceModule);
+  const { staking } = m.useModule(MagicWorldStakingModule);
+  const { vestingFactory } = m.useModule(MagicWorldVestingModule);
+
+  // Only staking can mint and burn stMAGIC
+  const handOverStakedToken = m.call(stakedToken, "transferOwnership", [staking], {
+    id: "TransferStakedTokenToStaking",
+  });
+  const setReceiptToken = m.call(staking, "setReceiptToken", [token, stakedToken], {
+    after: [handOverStakedToken],
+  });
+
+  // Runs after every call in the staking module (whitelisting, funding).
+  // The deployer gives up its roles once the timelock holds them all.
+  const deployer = m.getAccount(0);
+  const roles = Object.entries(STAKING_ROLES).map(([name, getter]) => ({
+    name,
+    id: m.staticCall(staking, getter, [], 0, { id: `Staking${name}Role` }),
+  }));
+  const grants = roles.map(({ name, id }) =>
+    m.call(staking, "grantRole", [id, timelock], {
+      id: `GrantStaking${name}ToTimelock`,
+      after: [MagicWorldStakingModule, setReceiptToken],
+    })
+  );
+  for (const { name, id } of roles) {
+    m.call(staking, "renounceRole", [id, deployer], {
+      id: `RenounceStaking${name}`,
+      after: grants,
+    });
+  }
+
+  return { token, stakedToken, timelock, governance, staking, vestingFactory };
+});
+
+export default MagicWorldModule;
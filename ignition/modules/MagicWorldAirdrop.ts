@@ -0,0 +1,26 @@
+// Deploys a MAGIC Merkle airdrop on top of the governance stack and mints
+// `totalAmount` MAGIC to it. Build the root and the per-account proofs with
+// `npx hardhat airdrop:build`, which also prints the total. The deployer must
+// hold MINTER_ROLE on MAGIC. The timelock owns the distributor and can sweep
+// unclaimed MAGIC after `claimDeadline` (a unix timestamp).
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+import MagicWorldGovernanceModule from "./MagicWorldGovernance";
+
+const MagicWorldAirdropModule = buildModule("MagicWorldAirdropModule", (m) => {
+  const { token, timelock } = m.useModule(MagicWorldGovernanceModule);
+
+  const merkleRoot = m.getParameter<string>("merkleRoot");
+  const claimDeadline = m.getParameter<number>("claimDeadline");
+  const totalAmount = m.getParameter<bigint>("totalAmount");
+
+  const airdrop = m.contract("MagicWorldAirdrop", [token, merkleRoot, claimDeadline]);
+
+  m.call(token, "mint", [airdrop, totalAmount], { id: "MintAirdrop" });
+  m.call(airdrop, "transferOwnership", [timelock]);
+
+  return { airdrop };
+});
+
+export default MagicWorldAirdropModule;
@@ -0,0 +1,93 @@
+// Deploys the governor on top of the MAGIC governance token, together with
+// the TimelockController that queues and executes passed proposals.
+// Voting delay and voting period are expressed in blocks, the proposal
+// threshold in MAGIC wei, the quorum in percent of the MAGIC supply and the
+// timelock delay in seconds. The guardian may cancel queued operations; it
+// must be set, `ignition deploy` refuses the zero address placeholder (see
+// tasks/ignition.ts).
+// Voting settings can later be changed by proposal, within the bounds
+// enforced by the governor. The timelock also becomes admin of the MAGIC roles.
+// The governor runs behind a UUPS proxy, which only a passed proposal can
+// upgrade.
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+import MagicWorldGovernanceTokenModule from "./MagicWorldGovernanceToken";
+
+const MagicWorldGovernanceModule = buildModule(
+  "MagicWorldGovernanceModule",
+  (m) => {
+    const { token, stakedToken } = m.useModule(MagicWorldGovernanceTokenModule);
+
+    const votingDelay = m.getParameter("votingDelay", 1);
+    const votingPeriod = m.getParameter("votingPeriod", 50400);
+    const proposalThreshold = m.getParameter("proposalThreshold", 0n);
+    const quorumNumerator = m.getParameter("quorumNumerator", 4);
+    const timelockMinDelay = m.getParameter("timelockMinDelay", 172800);
+    const timelockGuardian = m.getParameter("timelockGuardian");
+
+    const deployer = m.getAccount(0);
+
+    // Anyone may execute once the delay has passed; the deployer is admin
+    // only until the governor roles are granted
+    const timelock = m.contract(
+      "TimelockController",
+      [timelockMinDelay, [], ["0x0000000000000000000000000000000000000000"], deployer],
+      { id: "MagicWorldTimelock" }
+    );
+
+    const implementation = m.contract("MagicWorldGovernanceUpgradeable");
+    const initialize = m.encodeFunctionCall(implementation, "initialize", [
+      token,
+      stakedToken,
+      timelock,
+      votingDelay,
+      votingPeriod,
+      proposalThreshold,
+      quorumNumerator,
+    ]);
+    const proxy = m.contract("ERC1967Proxy", [implementation, initialize], {
+      id: "MagicWorldGovernanceProxy",
+    });
+    const governance = m.contractAt("MagicWorldGovernanceUpgradeable", proxy, {
+      id: "MagicWorldGovernance",
+    });
+
+    const proposerRole = m.staticCall(timelock, "PROPOSER_ROLE");
+    const cancellerRole = m.staticCall(timelock, "CANCELLER_ROLE");
+    const adminRole = m.staticCall(timelock, "DEFAULT_ADMIN_ROLE");
+
+    const grantProposer = m.call(timelock, "grantRole", [proposerRole, governance], {
+      id: "GrantProposerToGovernance",
+    });
+    const grantCanceller = m.call(timelock, "grantRole", [cancellerRole, governance], {
+      id: "GrantCancellerToGovernance",
+    });
+    const grantGuardian = m.call(timelock, "grantRole", [cancellerRole, timelockGuardian], {
+      id: "GrantCancellerToGuardian",
+    });
+
+    // From here on, role changes must go through a proposal
+    m.call(timelock, "renounceRole", [adminRole, deployer], {
+      id: "RenounceTimelockAdmin",
+      after: [grantProposer, grantCanceller, grantGuardian],
+    });
+
+    // Governance also administers MAGIC roles. The deployer keeps MINTER_ROLE
+    // for the initial distribution, until governance revokes it.
+    const tokenAdminRole = m.staticCall(token, "DEFAULT_ADMIN_ROLE", [], 0, {
+      id: "TokenAdminRole",
+    });
+    const grantTokenAdmin = m.call(token, "grantRole", [tokenAdminRole, timelock], {
+      id: "GrantTokenAdminToTimelock",
+    });
+    m.call(token, "renounceRole", [tokenAdminRole, deployer], {
+      id: "RenounceTokenAdmin",
+      after: [grantTokenAdmin],
+    });
+
+    return { token, stakedToken, timelock, governance };
+  }
+);
+
+export default MagicWorldGovernanceModule;
@@ -0,0 +1,17 @@
+// Deploys the MAGIC governance token and stMAGIC, the non-transferable receipt
+// of staked MAGIC that keeps its voting power.
+// Learn more about Hardhat Ignition at https://hardhat.org/ignition
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+const MagicWorldGovernanceTokenModule = buildModule(
+  "MagicWorldGovernanceTokenModule",
+  (m) => {
+    const token = m.contract("MagicWorldGovernanceToken");
+    const stakedToken = m.contract("MagicWorldStakedToken");
+
+    return { token, stakedToken };
+  }
+);
+
+export default MagicWorldGovernanceTokenModule;
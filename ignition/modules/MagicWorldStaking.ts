@@ -0,0 +1,53 @@
+// Deploys the staking contract, whitelists the initial tokens and funds the
+// first reward period. The deployer must hold `rewardFunding` reward tokens.
+// Staking runs behind a UUPS proxy, which the admin role (the timelock, once
+// MagicWorld.ts hands it over) can upgrade.
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+const MagicWorldStakingModule = buildModule("MagicWorldStakingModule", (m) => {
+  const rewardTokenAddress = m.getParameter<string>("rewardToken");
+  // Parallel arrays: whitelistedTokens[i] is staked with minStakeDurations[i]
+  const whitelistedTokens = m.getParameter<string[]>("whitelistedTokens", []);
+  const minStakeDurations = m.getParameter<number[]>("minStakeDurations", []);
+  const rewardFunding = m.getParameter<bigint>("rewardFunding");
+
+  // Reward epochs, the whitelist, reward tokens and lock tiers are linked
+  // libraries, keeping staking below the code size limit
+  const libraries = {
+    RewardEpochs: m.library("RewardEpochs"),
+    TokenWhitelist: m.library("TokenWhitelist"),
+    RewardTokens: m.library("RewardTokens"),
+    LockTiers: m.library("LockTiers"),
+  };
+  const implementation = m.contract("MagicWorldStakingUpgradeable", [], {
+    libraries,
+  });
+  const initialize = m.encodeFunctionCall(implementation, "initialize", [
+    rewardTokenAddress,
+  ]);
+  const proxy = m.contract("ERC1967Proxy", [implementation, initialize], {
+    id: "MagicWorldStakingProxy",
+  });
+  const staking = m.contractAt("MagicWorldStakingUpgradeable", proxy, {
+    id: "MagicWorldStaking",
+  });
+
+  const addTokens = m.call(staking, "addTokens", [
+    whitelistedTokens,
+    minStakeDurations,
+  ]);
+
+  const rewardToken = m.contractAt("IERC20", rewardTokenAddress);
+  const approveRewards = m.call(rewardToken, "approve", [
+    staking,
+    rewardFunding,
+  ]);
+  m.call(staking, "fundRewards", [rewardFunding], {
+    after: [approveRewards, addTokens],
+  });
+
+  return { staking, rewardToken };
+});
+
+export default MagicWorldStakingModule;
@@ -0,0 +1,20 @@
+// Deploys the MAGIC vesting factory. Schedules are created afterwards, e.g.
+// with the `vesting:create` task. The factory is owned by the governance
+// timelock, so only a proposal can revoke a schedule and unvested tokens are
+// refunded to the timelock.
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+import MagicWorldGovernanceModule from "./MagicWorldGovernance";
+
+const MagicWorldVestingModule = buildModule("MagicWorldVestingModule", (m) => {
+  const { token, timelock } = m.useModule(MagicWorldGovernanceModule);
+
+  const vestingFactory = m.contract("MagicWorldVestingFactory", [token]);
+
+  m.call(vestingFactory, "transferOwnership", [timelock]);
+
+  return { vestingFactory };
+});
+
+export default MagicWorldVestingModule;
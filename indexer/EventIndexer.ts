@@ -0,0 +1,230 @@
+import { Interface, Log, Provider, getAddress } from "ethers";
+import { MagicWorldGovernance__factory, MagicWorldStaking__factory } from "../typechain-types";
+import { BlockCheckpoint, IndexedContract, IndexedEvent, IndexState, JsonIndexStore } from "./store";
+
+export const STAKING_EVENTS = [
+    "Staked",
+    "StakedLocked",
+    "Unstaked",
+    "LockedWithdrawn",
+    "EmergencyWithdrawn",
+    "RewardClaimed",
+    "RewardTokenClaimed",
+    "Compounded",
+    "RewardsFunded",
+    "RewardTokenFunded",
+    "RewardEpochScheduled",
+    "RewardEpochCancelled",
+    "TokenWhitelisted",
+    "TokenRemovedFromWhitelist",
+];
+export const GOVERNANCE_EVENTS = ["ProposalCreated", "VoteCast", "ProposalExecuted"];
+
+// Attempts at a batch whose blocks change while it is read
+const MAX_BATCH_ATTEMPTS = 3;
+
+export interface EventIndexerOptions {
+    staking: string;
+    governance?: string;
+    /** Block the first sync starts from, e.g. the staking deployment block */
+    startBlock?: number;
+    /** Blocks per eth_getLogs request */
+    batchSize?: number;
+    /** Blocks to stay behind the head */
+    confirmations?: number;
+    /** Recent blocks remembered to find where a reorg forked */
+    reorgDepth?: number;
+}
+
+export interface SyncResult {
+    fromBlock: number;
+    toBlock: number;
+    added: number;
+    /** Events dropped because their blocks were reorged out */
+    removed: number;
+    /** Block the index was rolled back to, when a reorg was found */
+    reorgedTo?: number;
+}
+
+export class IndexerError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * Indexes the staking and governance events into a local store, from any
+ * JSON-RPC node. Each sync resumes after the last indexed block. It first
+ * compares the recent blocks it indexed with the node's, and when they were
+ * reorged out rolls the index back to the last block still on the chain.
+ */
+export class EventIndexer {
+    private readonly interfaces: Record<IndexedContract, Interface> = {
+        staking: MagicWorldStaking__factory.createInterface(),
+        governance: MagicWorldGovernance__factory.createInterface(),
+    };
+    private readonly staking: string;
+    private readonly governance?: string;
+
+    constructor(
+        public readonly provider: Provider,
+        public readonly store: JsonIndexStore,
+        private readonly options: EventIndexerOptions
+    ) {
+        this.staking = getAddress(options.staking);
+        this.governance = options.governance ? getAddress(options.governance) : undefined;
+    }
+
+    /**
+     * Indexes the blocks after the last indexed one, up to the head minus the confirmations
+     * @param onBatch Called after each batch has been saved
+     */
+    async sync(onBatch?: (toBlock: number, state: IndexState) => void): Promise<SyncResult> {
+        const state = await this.loadState();
+        const { removed, reorgedTo } = await this.rollBackReorg(state);
+        const batchSize = this.options.batchSize ?? 2000;
+        const head = (await this.provider.getBlockNumber()) - (this.options.confirmations ?? 0);
+
+        const result: SyncResult = {
+            fromBlock: state.lastBlock + 1,
+            toBlock: state.lastBlock,
+            added: 0,
+            removed,
+            reorgedTo,
+        };
+        for (let fromBlock = state.lastBlock + 1; fromBlock <= head; fromBlock += batchSize) {
+            const toBlock = Math.min(fromBlock + batchSize - 1, head);
+            const { events, checkpoint } = await this.readBatch(fromBlock, toBlock);
+
+            state.events.push(...events);
+            state.lastBlock = toBlock;
+            state.checkpoints.push(checkpoint);
+            state.checkpoints = state.checkpoints.slice(-(this.options.reorgDepth ?? 64));
+            this.store.save(state);
+
+            result.toBlock = toBlock;
+            result.added += events.length;
+            onBatch?.(toBlock, state);
+        }
+        return result;
+    }
+
+    private async loadState(): Promise<IndexState> {
+        const chainId = (await this.provider.getNetwork()).chainId.toString();
+        const stored = this.store.load();
+        if (stored) {
+            if (stored.chainId !== chainId || stored.staking !== this.staking || stored.governance !== this.governance) {
+                throw new IndexerError(
+                    `${this.store.file} indexes staking ${stored.staking} on chain ${stored.chainId}, ` +
+                        `not ${this.staking} on chain ${chainId}. Use another store file.`
+                );
+            }
+            return stored;
+        }
+
+        const startBlock = this.options.startBlock ?? 0;
+        return {
+            chainId,
+            staking: this.staking,
+            governance: this.governance,
+            rewardToken: await MagicWorldStaking__factory.connect(this.staking, this.provider).rewardToken(),
+            startBlock,
+            lastBlock: startBlock - 1,
+            checkpoints: [],
+            events: [],
+        };
+    }
+
+    /**
+     * Finds the newest checkpoint still on the chain and drops what was indexed
+     * after it. When none is left, the index starts over from its first block.
+     */
+    private async rollBackReorg(state: IndexState): Promise<{ removed: number; reorgedTo?: number }> {
+        let ancestor = state.startBlock - 1;
+        for (let i = state.checkpoints.length - 1; i >= 0; i--) {
+            const checkpoint = state.checkpoints[i];
+            const block = await this.provider.getBlock(checkpoint.number);
+            if (block?.hash === checkpoint.hash) {
+                ancestor = checkpoint.number;
+                break;
+            }
+        }
+        if (ancestor === state.lastBlock) {
+            return { removed: 0 };
+        }
+
+        const kept = state.events.filter((event) => event.blockNumber <= ancestor);
+        const removed = state.events.length - kept.length;
+        state.events = kept;
+        state.checkpoints = state.checkpoints.filter((checkpoint) => checkpoint.number <= ancestor);
+        state.lastBlock = ancestor;
+        this.store.save(state);
+        return { removed, reorgedTo: ancestor };
+    }
+
+    /**
+     * Reads and decodes the events of a block range. The range is read again
+     * when its blocks changed in the meantime, so a batch never mixes forks.
+     */
+    private async readBatch(
+        fromBlock: number,
+        toBlock: number
+    ): Promise<{ events: IndexedEvent[]; checkpoint: BlockCheckpoint }> {
+        for (let attempt = 0; attempt < MAX_BATCH_ATTEMPTS; attempt++) {
+            const last = await this.provider.getBlock(toBlock);
+            if (!last?.hash) throw new IndexerError(`Block ${toBlock} not found`);
+
+            const logs = await this.provider.getLogs({
+                address: this.governance ? [this.staking, this.governance] : this.staking,
+                topics: [this.topics()],
+                fromBlock,
+                toBlock,
+            });
+
+            const blocks = new Map<number, { hash: string; timestamp: number }>();
+            for (const blockNumber of new Set(logs.map((log) => log.blockNumber))) {
+                const block = await this.provider.getBlock(blockNumber);
+                if (block?.hash) blocks.set(blockNumber, { hash: block.hash, timestamp: block.timestamp });
+            }
+            const unchanged =
+                (await this.provider.getBlock(toBlock))?.hash === last.hash &&
+                logs.every((log) => blocks.get(log.blockNumber)?.hash === log.blockHash);
+            if (unchanged) {
+                return {
+                    events: logs.map((log) => this.decode(log, blocks.get(log.blockNumber)!.timestamp)),
+                    checkpoint: { number: toBlock, hash: last.hash },
+                };
+            }
+        }
+        throw new IndexerError(`Blocks ${fromBlock} to ${toBlock} kept changing while they were read`);
+    }
+
+    private topics(): string[] {
+        return [
+            ...STAKING_EVENTS.map((name) => this.interfaces.staking.getEvent(name)!.topicHash),
+            ...GOVERNANCE_EVENTS.map((name) => this.interfaces.governance.getEvent(name)!.topicHash),
+        ];
+    }
+
+    private decode(log: Log, timestamp: number): IndexedEvent {
+        const contract: IndexedContract = getAddress(log.address) === this.staking ? "staking" : "governance";
+        const parsed = this.interfaces[contract].parseLog(log)!;
+
+        const args: IndexedEvent["args"] = {};
+        parsed.fragment.inputs.forEach((input, i) => {
+            const value = parsed.args[i];
+            args[input.name] = Array.isArray(value) ? value.map(String) : String(value);
+        });
+        return {
+            contract,
+            event: parsed.name,
+            blockNumber: log.blockNumber,
+            blockHash: log.blockHash,
+            timestamp,
+            transactionHash: log.transactionHash,
+            logIndex: log.index,
+            args,
+        };
+    }
+}
@@ -0,0 +1,6 @@
+export { EventIndexer, GOVERNANCE_EVENTS, IndexerError, STAKING_EVENTS } from "./EventIndexer";
+export type { EventIndexerOptions, SyncResult } from "./EventIndexer";
+export { buildLedger, LEDGER_COLUMNS, ledgerToCsv } from "./ledger";
+export type { LedgerEntry } from "./ledger";
+export { JsonIndexStore } from "./store";
+export type { BlockCheckpoint, IndexedContract, IndexedEvent, IndexState } from "./store";
@@ -0,0 +1,162 @@
+import { getAddress } from "ethers";
+import { IndexedEvent, IndexState } from "./store";
+
+/**
+ * One line of a user's ledger. Amounts are in token units of `token`, vote
+ * weights in MAGIC wei. Reward fundings and epochs are on the ledger of the
+ * staking contract itself.
+ */
+export interface LedgerEntry {
+    account: string;
+    /** ISO 8601 time of the block */
+    date: string;
+    timestamp: number;
+    blockNumber: number;
+    transactionHash: string;
+    logIndex: number;
+    event: string;
+    token?: string;
+    amount?: string;
+    /** Locked position, with the tier and unlock time it was locked for */
+    positionId?: string;
+    tierId?: string;
+    unlockTime?: string;
+    /** Reward epoch, with the time it starts and how long it streams */
+    epochId?: string;
+    epochStart?: string;
+    epochDuration?: string;
+    proposalId?: string;
+    /** 0 against, 1 for, 2 abstain */
+    support?: string;
+    weight?: string;
+}
+
+export const LEDGER_COLUMNS: (keyof LedgerEntry)[] = [
+    "account",
+    "date",
+    "timestamp",
+    "blockNumber",
+    "transactionHash",
+    "logIndex",
+    "event",
+    "token",
+    "amount",
+    "positionId",
+    "tierId",
+    "unlockTime",
+    "epochId",
+    "epochStart",
+    "epochDuration",
+    "proposalId",
+    "support",
+    "weight",
+];
+
+// What a ledger entry takes from the event itself, the rest comes from its block and log
+type LedgerFields = Omit<LedgerEntry, "date" | "timestamp" | "blockNumber" | "transactionHash" | "logIndex">;
+
+/**
+ * The user-facing part of an indexed event: who it concerns and what changed
+ * for them. Reward fundings and epochs concern the staking contract. Other
+ * events that don't concern a single user, like whitelisting, aren't part of
+ * any ledger.
+ */
+function toEntry(event: IndexedEvent, state: IndexState): LedgerFields | undefined {
+    const args = event.args as Record<string, string>;
+    const { rewardToken, staking } = state;
+    switch (event.event) {
+        case "Staked":
+        case "Unstaked":
+        case "EmergencyWithdrawn":
+            return { account: args.user, event: event.event, token: args.token, amount: args.amount };
+        case "StakedLocked":
+            return {
+                account: args.user,
+                event: event.event,
+                token: args.token,
+                amount: args.amount,
+                positionId: args.positionId,
+                tierId: args.tierId,
+                unlockTime: args.unlockTime,
+            };
+        case "LockedWithdrawn":
+            return {
+                account: args.user,
+                event: event.event,
+                token: args.token,
+                amount: args.amount,
+                positionId: args.positionId,
+            };
+        case "RewardClaimed":
+        // Compounding restakes the main reward token
+        case "Compounded":
+            return { account: args.user, event: event.event, token: rewardToken, amount: args.amount };
+        case "RewardTokenClaimed":
+            return { account: args.user, event: event.event, token: args.rewardToken, amount: args.amount };
+        case "RewardsFunded":
+            return { account: staking, event: event.event, token: rewardToken, amount: args.amount };
+        case "RewardTokenFunded":
+            return { account: staking, event: event.event, token: args.rewardToken, amount: args.amount };
+        case "RewardEpochScheduled":
+            return {
+                account: staking,
+                event: event.event,
+                token: args.rewardToken,
+                amount: args.amount,
+                epochId: args.epochId,
+                epochStart: args.start,
+                epochDuration: args.duration,
+            };
+        // The amount is what the cancellation released from the allocation
+        case "RewardEpochCancelled":
+            return {
+                account: staking,
+                event: event.event,
+                token: args.rewardToken,
+                amount: args.amount,
+                epochId: args.epochId,
+            };
+        case "ProposalCreated":
+            return { account: args.proposer, event: event.event, proposalId: args.proposalId };
+        case "VoteCast":
+            return {
+                account: args.voter,
+                event: event.event,
+                proposalId: args.proposalId,
+                support: args.support,
+                weight: args.weight,
+            };
+    }
+    return undefined;
+}
+
+/**
+ * Builds the ledger of one account, or of every account, in chain order
+ * @param account Only keep this account's entries
+ */
+export function buildLedger(state: IndexState, account?: string): LedgerEntry[] {
+    const only = account ? getAddress(account) : undefined;
+    const entries: LedgerEntry[] = [];
+    for (const event of state.events) {
+        const entry = toEntry(event, state);
+        if (!entry || (only && getAddress(entry.account) !== only)) continue;
+        entries.push({
+            ...entry,
+            date: new Date(event.timestamp * 1000).toISOString(),
+            timestamp: event.timestamp,
+            blockNumber: event.blockNumber,
+            transactionHash: event.transactionHash,
+            logIndex: event.logIndex,
+        });
+    }
+    return entries;
+}
+
+/**
+ * Formats ledger entries as CSV with a header row. Every value is an address,
+ * a hash, a number or an event name, so none needs quoting.
+ */
+export function ledgerToCsv(entries: LedgerEntry[]): string {
+    const rows = entries.map((entry) => LEDGER_COLUMNS.map((column) => entry[column] ?? "").join(","));
+    return [LEDGER_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
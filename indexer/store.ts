@@ -0,0 +1,63 @@
+import fs from "fs";
+import path from "path";
+
+/** Contract an indexed event was emitted by */
+export type IndexedContract = "staking" | "governance";
+
+/**
+ * A decoded event. Integers are kept as decimal strings so the store
+ * round-trips through JSON without losing precision.
+ */
+export interface IndexedEvent {
+    contract: IndexedContract;
+    event: string;
+    blockNumber: number;
+    blockHash: string;
+    /** Unix timestamp (seconds) of the block */
+    timestamp: number;
+    transactionHash: string;
+    logIndex: number;
+    args: Record<string, string | string[]>;
+}
+
+/** A block the indexer has seen, used to detect reorgs */
+export interface BlockCheckpoint {
+    number: number;
+    hash: string;
+}
+
+export interface IndexState {
+    chainId: string;
+    staking: string;
+    governance?: string;
+    /** Main reward token of staking, the token RewardClaimed pays out */
+    rewardToken: string;
+    /** First block indexed */
+    startBlock: number;
+    /** Last block indexed, startBlock - 1 before the first sync */
+    lastBlock: number;
+    /** Recent indexed blocks, oldest first, the last one is lastBlock */
+    checkpoints: BlockCheckpoint[];
+    /** Events in chain order */
+    events: IndexedEvent[];
+}
+
+/**
+ * Index kept in a single JSON file. Each save rewrites the file through a
+ * temporary one, so an interrupted sync leaves the previous state in place.
+ */
+export class JsonIndexStore {
+    constructor(public readonly file: string) {}
+
+    load(): IndexState | undefined {
+        if (!fs.existsSync(this.file)) return undefined;
+        return JSON.parse(fs.readFileSync(this.file, "utf8"));
+    }
+
+    save(state: IndexState): void {
+        fs.mkdirSync(path.dirname(this.file), { recursive: true });
+        const temporary = `${this.file}.tmp`;
+        fs.writeFileSync(temporary, JSON.stringify(state, null, 2) + "\n");
+        fs.renameSync(temporary, this.file);
+    }
+}
@@ -0,0 +1,413 @@
+import {
+    ContractRunner,
+    ContractTransactionReceipt,
+    ContractTransactionResponse,
+    formatUnits,
+    parseUnits,
+} from "ethers";
+import {
+    IERC20Metadata,
+    IERC20Metadata__factory,
+    MagicWorldStaking,
+    MagicWorldStaking__factory,
+} from "../typechain-types";
+import {
+    EmergencyModeError,
+    InsufficientAllowanceError,
+    InsufficientStakeError,
+    InvalidLockTierError,
+    MinStakeDurationNotMetError,
+    NoLockedPositionError,
+    NoStakeFoundError,
+    PositionLockedError,
+    TokenNotWhitelistedError,
+    ZeroAmountError,
+    toStakingError,
+} from "./errors";
+
+// MagicWorldStaking stores every amount normalized to 18 decimals
+const NORMALIZED_DECIMALS = 18;
+// Virtual balance MagicWorldStaking counts for a rebasing token, backed by as many virtual shares
+const VIRTUAL_BALANCE = 1000n;
+
+/**
+ * Transfer behaviour of a whitelisted token, as stored in `whitelistedTokens(token).mode`
+ */
+export const TokenMode = {
+    Standard: 0n,
+    FeeOnTransfer: 1n,
+    Rebasing: 2n,
+} as const;
+
+export interface StakeOptions {
+    /** Approve the staking contract for the missing allowance before staking */
+    autoApprove?: boolean;
+}
+
+export interface UnstakeableInfo {
+    /** Staked amount in token units */
+    amount: bigint;
+    /** Staked amount normalized to 18 decimals, as stored by the contract */
+    normalizedAmount: bigint;
+    /** Part of the stake past the minimum stake duration, in token units */
+    unlockedAmount: bigint;
+    /** Unix timestamp (seconds) from which the whole stake can be withdrawn */
+    unlockTime: bigint;
+    /** Whether the whole stake has passed the minimum stake duration at the latest block */
+    unlocked: boolean;
+    /** Open deposits, oldest first, each unlocking on its own */
+    lots: StakeLotInfo[];
+}
+
+export interface StakeLotInfo {
+    /** Amount left in the deposit, in token units */
+    amount: bigint;
+    /** Unix timestamp (seconds) of the deposit */
+    timestamp: bigint;
+    /** Unix timestamp (seconds) from which the deposit can be unstaked */
+    unlockTime: bigint;
+}
+
+export interface LockedPositionInfo {
+    /** Index of the position, as passed to withdrawLocked */
+    positionId: number;
+    token: string;
+    /** Locked amount in token units */
+    amount: bigint;
+    /** Lock tier the position was created with */
+    tierId: bigint;
+    /** Unix timestamp (seconds) from which the position can be withdrawn */
+    unlockTime: bigint;
+    /** Whether the unlock time has passed at the latest block */
+    unlocked: boolean;
+}
+
+/**
+ * Typed client around the MagicWorldStaking contract.
+ * Takes human-readable amounts, converts them with the token decimals and
+ * runs the contract's checks before sending, so that failures surface as
+ * StakingError subclasses instead of raw reverts.
+ */
+export class StakingClient {
+    private readonly decimalsCache = new Map<string, Promise<number>>();
+
+    constructor(public readonly staking: MagicWorldStaking) {}
+
+    /**
+     * Creates a client for a deployed staking contract
+     * @param address Address of MagicWorldStaking
+     * @param runner Signer for transactions, or a provider for read-only use
+     */
+    static connect(address: string, runner: ContractRunner): StakingClient {
+        return new StakingClient(MagicWorldStaking__factory.connect(address, runner));
+    }
+
+    /**
+     * Returns the ERC20 decimals of a token, cached per client
+     */
+    async decimals(token: string): Promise<number> {
+        const key = token.toLowerCase();
+        if (!this.decimalsCache.has(key)) {
+            this.decimalsCache.set(key, this.erc20(token).decimals().then(Number));
+        }
+        return this.decimalsCache.get(key)!;
+    }
+
+    /**
+     * Converts a human-readable amount ("1.5") to token units
+     */
+    async parseAmount(token: string, humanAmount: string): Promise<bigint> {
+        return parseUnits(humanAmount, await this.decimals(token));
+    }
+
+    /**
+     * Converts token units to a human-readable amount
+     */
+    async formatAmount(token: string, amount: bigint): Promise<string> {
+        return formatUnits(amount, await this.decimals(token));
+    }
+
+    /**
+     * Converts token units to the 18-decimal amount used by the contract
+     */
+    async toNormalized(token: string, amount: bigint): Promise<bigint> {
+        return amount * 10n ** BigInt(NORMALIZED_DECIMALS - (await this.decimals(token)));
+    }
+
+    /**
+     * Converts an 18-decimal contract amount back to token units
+     */
+    async fromNormalized(token: string, normalizedAmount: bigint): Promise<bigint> {
+        return normalizedAmount / 10n ** BigInt(NORMALIZED_DECIMALS - (await this.decimals(token)));
+    }
+
+    /**
+     * Stakes a human-readable amount of a whitelisted token
+     * @param token Token to stake
+     * @param humanAmount Amount in whole tokens, e.g. "100.5"
+     * @param options Set autoApprove to approve the missing allowance first
+     */
+    async stake(
+        token: string,
+        humanAmount: string,
+        options: StakeOptions = {}
+    ): Promise<ContractTransactionReceipt | null> {
+        const amount = await this.parseAmount(token, humanAmount);
+        if (amount === 0n) throw new ZeroAmountError("Cannot stake 0");
+        await this.assertWhitelisted(token);
+        await this.ensureAllowance(token, amount, options);
+
+        return this.send(() => this.staking.stake(token, amount));
+    }
+
+    /**
+     * Stakes a human-readable amount in a new locked position with a lock tier's boost
+     * @param token Token to stake
+     * @param humanAmount Amount in whole tokens, e.g. "100.5"
+     * @param tierId Lock tier, see `staking.lockTiers`
+     * @param options Set autoApprove to approve the missing allowance first
+     */
+    async stakeLocked(
+        token: string,
+        humanAmount: string,
+        tierId: number,
+        options: StakeOptions = {}
+    ): Promise<ContractTransactionReceipt | null> {
+        const amount = await this.parseAmount(token, humanAmount);
+        if (amount === 0n) throw new ZeroAmountError("Cannot stake 0");
+        await this.assertWhitelisted(token);
+        if (BigInt(tierId) >= (await this.staking.getLockTiersCount())) {
+            throw new InvalidLockTierError("Invalid lock tier");
+        }
+        if (!(await this.staking.lockTiers(tierId)).enabled) {
+            throw new InvalidLockTierError("Lock tier disabled");
+        }
+        await this.ensureAllowance(token, amount, options);
+
+        return this.send(() => this.staking.stakeLocked(token, amount, tierId));
+    }
+
+    /**
+     * Withdraws a locked position of the connected signer once it has unlocked
+     * @param positionId Index of the position, see lockedPositions
+     */
+    async withdrawLocked(positionId: number): Promise<ContractTransactionReceipt | null> {
+        const positions = await this.lockedPositions(await this.signerAddress());
+        const position = positions.find((p) => p.positionId === positionId);
+        if (!position) throw new NoLockedPositionError("No locked position");
+        if (!position.unlocked) {
+            throw new PositionLockedError("Position still locked", { unlockTime: position.unlockTime });
+        }
+
+        return this.send(() => this.staking.withdrawLocked(positionId));
+    }
+
+    /**
+     * Withdraws the connected signer's whole stake of a token while emergency mode is
+     * active, including locked positions. Unclaimed rewards of the stake are forfeited.
+     * @param token Staked token
+     */
+    async emergencyWithdraw(token: string): Promise<ContractTransactionReceipt | null> {
+        if (!(await this.staking.emergencyMode())) {
+            throw new EmergencyModeError("Emergency mode not active");
+        }
+        return this.send(() => this.staking.emergencyWithdraw(token));
+    }
+
+    /**
+     * Returns a user's open locked positions and when each can be withdrawn
+     * @param user Staker address
+     */
+    async lockedPositions(user: string): Promise<LockedPositionInfo[]> {
+        const [locks, now] = await Promise.all([this.staking.getUserLocks(user), this.latestTimestamp()]);
+
+        const positions: LockedPositionInfo[] = [];
+        for (const [positionId, lock] of locks.entries()) {
+            // Withdrawn positions are zeroed in place
+            if (lock.amount === 0n) continue;
+            positions.push({
+                positionId,
+                token: lock.token,
+                amount: await this.stakeValue(lock.token, lock.amount),
+                tierId: lock.tierId,
+                unlockTime: lock.unlockTime,
+                unlocked: now >= lock.unlockTime,
+            });
+        }
+        return positions;
+    }
+
+    /**
+     * Unstakes a human-readable amount once the minimum stake duration has passed
+     * @param token Token to unstake
+     * @param humanAmount Amount in whole tokens
+     */
+    async unstake(token: string, humanAmount: string): Promise<ContractTransactionReceipt | null> {
+        const amount = await this.parseAmount(token, humanAmount);
+        if (amount === 0n) throw new ZeroAmountError("Cannot unstake 0");
+
+        const info = await this.unstakeable(await this.signerAddress(), token);
+        if (info.normalizedAmount === 0n) throw new NoStakeFoundError("No stake found");
+        if (info.unlockedAmount === 0n) {
+            throw new MinStakeDurationNotMetError("Minimum stake duration not met", {
+                unlockTime: info.lots[0].unlockTime,
+            });
+        }
+        if (info.amount < amount) {
+            throw new InsufficientStakeError("Insufficient stake");
+        }
+        if (info.unlockedAmount < amount) {
+            // Deposits are withdrawn oldest first, report when enough of them have unlocked
+            let covered = 0n;
+            const lot = info.lots.find((lot) => (covered += lot.amount) >= amount);
+            throw new MinStakeDurationNotMetError("Minimum stake duration not met", {
+                unlockTime: lot?.unlockTime ?? info.unlockTime,
+            });
+        }
+
+        return this.send(() => this.staking.unstake(token, amount));
+    }
+
+    /**
+     * Returns a user's stake in a token, its deposits and when they can be withdrawn.
+     * Amounts of rebasing tokens are the current value of the user's share.
+     * @param user Staker address
+     * @param token Staked token
+     */
+    async unstakeable(user: string, token: string): Promise<UnstakeableInfo> {
+        const [userStake, [rawLots, unlockTimes], now] = await Promise.all([
+            this.staking.userStakes(user, token),
+            this.staking.getStakeLots(user, token),
+            this.latestTimestamp(),
+        ]);
+
+        const lots: StakeLotInfo[] = [];
+        let unlockedAmount = 0n;
+        for (const [i, lot] of rawLots.entries()) {
+            const amount = await this.stakeValue(token, lot.amount);
+            lots.push({ amount, timestamp: lot.timestamp, unlockTime: unlockTimes[i] });
+            if (now >= unlockTimes[i]) unlockedAmount += amount;
+        }
+
+        const unlockTime = lots.length > 0 ? lots[lots.length - 1].unlockTime : 0n;
+        return {
+            amount: await this.stakeValue(token, userStake.amount),
+            normalizedAmount: userStake.amount,
+            unlockedAmount,
+            unlockTime,
+            unlocked: now >= unlockTime,
+            lots,
+        };
+    }
+
+    /**
+     * Returns the rewards a user can claim, in main reward token units
+     */
+    async pendingRewards(user: string): Promise<bigint> {
+        return this.staking.getPendingRewards(user);
+    }
+
+    /**
+     * Returns the rewards a user can claim for every reward token, keyed by reward token address
+     */
+    async allPendingRewards(user: string): Promise<Map<string, bigint>> {
+        const [tokens, amounts] = await this.staking.getAllPendingRewards(user);
+        return new Map(tokens.map((token, i) => [token, amounts[i]]));
+    }
+
+    /**
+     * Claims every pending reward of the connected signer, in every reward token
+     */
+    async claimRewards(): Promise<ContractTransactionReceipt | null> {
+        return this.send(() => this.staking.claimRewards());
+    }
+
+    /**
+     * Claims the pending rewards of the connected signer in a single reward token
+     */
+    async claimReward(rewardToken: string): Promise<ContractTransactionReceipt | null> {
+        return this.send(() => this.staking.claimReward(rewardToken));
+    }
+
+    /**
+     * Stakes the pending main rewards of the connected signer into their stake of the
+     * reward token, when the reward token is whitelisted
+     */
+    async compound(): Promise<ContractTransactionReceipt | null> {
+        return this.send(() => this.staking.compound());
+    }
+
+    /**
+     * Opts the connected signer in or out of auto-compounding by keepers
+     */
+    async setAutoCompound(enabled: boolean): Promise<ContractTransactionReceipt | null> {
+        return this.send(() => this.staking.setAutoCompound(enabled));
+    }
+
+    /**
+     * Token amount a normalized stake is worth; stakes of rebasing tokens are
+     * shares of the contract's balance plus its virtual balance
+     */
+    private async stakeValue(token: string, normalizedAmount: bigint): Promise<bigint> {
+        const tokenInfo = await this.staking.whitelistedTokens(token);
+        if (tokenInfo.mode === TokenMode.Rebasing) {
+            const balance = await this.erc20(token).balanceOf(await this.staking.getAddress());
+            const virtualShares = await this.toNormalized(token, VIRTUAL_BALANCE);
+            const value = (normalizedAmount * (balance + VIRTUAL_BALANCE)) / (tokenInfo.totalStaked + virtualShares);
+            return value < balance ? value : balance;
+        }
+        return this.fromNormalized(token, normalizedAmount);
+    }
+
+    private async ensureAllowance(token: string, amount: bigint, options: StakeOptions): Promise<void> {
+        const user = await this.signerAddress();
+        const stakingAddress = await this.staking.getAddress();
+        const erc20 = this.erc20(token);
+        const allowance = await erc20.allowance(user, stakingAddress);
+        if (allowance < amount) {
+            if (!options.autoApprove) {
+                throw new InsufficientAllowanceError(
+                    `Allowance ${allowance} is below the staked amount ${amount}`,
+                    { allowance, required: amount }
+                );
+            }
+            await this.send(() => erc20.approve(stakingAddress, amount));
+        }
+    }
+
+    private async assertWhitelisted(token: string): Promise<void> {
+        const tokenInfo = await this.staking.whitelistedTokens(token);
+        if (!tokenInfo.isWhitelisted) {
+            throw new TokenNotWhitelistedError("Token not whitelisted");
+        }
+    }
+
+    private async send(
+        sendTransaction: () => Promise<ContractTransactionResponse>
+    ): Promise<ContractTransactionReceipt | null> {
+        try {
+            const tx = await sendTransaction();
+            return await tx.wait();
+        } catch (error) {
+            throw toStakingError(error);
+        }
+    }
+
+    private async signerAddress(): Promise<string> {
+        const runner = this.staking.runner;
+        if (!runner || !("getAddress" in runner) || typeof runner.getAddress !== "function") {
+            throw new Error("StakingClient needs a signer to send transactions");
+        }
+        return runner.getAddress();
+    }
+
+    private async latestTimestamp(): Promise<bigint> {
+        const block = await this.staking.runner?.provider?.getBlock("latest");
+        if (!block) throw new Error("StakingClient needs a provider to read the latest block");
+        return BigInt(block.timestamp);
+    }
+
+    private erc20(token: string): IERC20Metadata {
+        return IERC20Metadata__factory.connect(token, this.staking.runner);
+    }
+}
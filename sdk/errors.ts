@@ -0,0 +1,156 @@
+import { Interface, isCallException } from "ethers";
+
+export interface StakingErrorOptions {
+    /** Underlying error thrown by ethers, when there is one */
+    cause?: unknown;
+}
+
+/**
+ * Base class for every error raised by the staking SDK
+ */
+export class StakingError extends Error {
+    public readonly cause?: unknown;
+
+    constructor(message: string, options: StakingErrorOptions = {}) {
+        super(message);
+        this.name = new.target.name;
+        this.cause = options.cause;
+    }
+}
+
+export class ZeroAmountError extends StakingError {}
+export class TokenNotWhitelistedError extends StakingError {}
+export class TokenDecimalsTooHighError extends StakingError {}
+export class NoStakeFoundError extends StakingError {}
+export class InsufficientStakeError extends StakingError {}
+export class NoRewardsToClaimError extends StakingError {}
+export class ContractPausedError extends StakingError {}
+export class InsufficientBalanceError extends StakingError {}
+export class InvalidLockTierError extends StakingError {}
+export class NoLockedPositionError extends StakingError {}
+export class EmergencyModeError extends StakingError {}
+export class UnsupportedTokenError extends StakingError {}
+
+export class MinStakeDurationNotMetError extends StakingError {
+    /** Unix timestamp (seconds) from which the stake can be withdrawn, when known */
+    public readonly unlockTime?: bigint;
+
+    constructor(message: string, options: StakingErrorOptions & { unlockTime?: bigint } = {}) {
+        super(message, options);
+        this.unlockTime = options.unlockTime;
+    }
+}
+
+/**
+ * A locked position was withdrawn before its own unlock time
+ */
+export class PositionLockedError extends MinStakeDurationNotMetError {}
+
+export class InsufficientAllowanceError extends StakingError {
+    public readonly allowance?: bigint;
+    public readonly required?: bigint;
+
+    constructor(
+        message: string,
+        options: StakingErrorOptions & { allowance?: bigint; required?: bigint } = {}
+    ) {
+        super(message, options);
+        this.allowance = options.allowance;
+        this.required = options.required;
+    }
+}
+
+type StakingErrorClass = new (message: string, options?: StakingErrorOptions) => StakingError;
+
+/**
+ * Maps the `require` messages of MagicWorldStaking to SDK error classes
+ */
+export const REVERT_REASON_ERRORS: Record<string, StakingErrorClass> = {
+    "Cannot stake 0": ZeroAmountError,
+    "Cannot unstake 0": ZeroAmountError,
+    "Token not whitelisted": TokenNotWhitelistedError,
+    "Token decimals too high": TokenDecimalsTooHighError,
+    "No stake found": NoStakeFoundError,
+    "Minimum stake duration not met": MinStakeDurationNotMetError,
+    "Insufficient stake": InsufficientStakeError,
+    "No rewards to claim": NoRewardsToClaimError,
+    "No rewards to compound": NoRewardsToClaimError,
+    "Reward token not whitelisted": TokenNotWhitelistedError,
+    "Invalid lock tier": InvalidLockTierError,
+    "Lock tier disabled": InvalidLockTierError,
+    "Position still locked": PositionLockedError,
+    "No locked position": NoLockedPositionError,
+    "Emergency mode active": EmergencyModeError,
+    "Emergency mode not active": EmergencyModeError,
+    "Undeclared transfer fee": UnsupportedTokenError,
+};
+
+/**
+ * Maps custom errors raised by the contract or by the staked token to SDK error classes
+ */
+export const CUSTOM_ERRORS: Record<string, StakingErrorClass> = {
+    EnforcedPause: ContractPausedError,
+    ERC20InsufficientAllowance: InsufficientAllowanceError,
+    ERC20InsufficientBalance: InsufficientBalanceError,
+};
+
+
+// Standard Error(string) revert plus the custom errors the staking flow can raise,
+// including those bubbled up from the staked token
+const REVERT_INTERFACE = new Interface([
+    "error Error(string reason)",
+    "error EnforcedPause()",
+    "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+    "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+]);
+
+/**
+ * Translates a failed call or transaction into a typed StakingError.
+ * Works with ethers CALL_EXCEPTION errors from JSON-RPC nodes as well as the
+ * errors raised by the in-process Hardhat network, which only carry revert data.
+ * Returns undefined when the error is not a recognised contract revert.
+ * @param error Error thrown by ethers or Hardhat
+ */
+export function parseStakingError(error: unknown): StakingError | undefined {
+    if (error instanceof StakingError) return error;
+
+    const revert = decodeRevert(error);
+    if (!revert) return undefined;
+
+    if (revert.name === "Error") {
+        const reason = revert.args[0] as string;
+        const ErrorClass = REVERT_REASON_ERRORS[reason];
+        return ErrorClass ? new ErrorClass(reason, { cause: error }) : undefined;
+    }
+
+    const ErrorClass = CUSTOM_ERRORS[revert.name];
+    if (!ErrorClass) return undefined;
+    if (ErrorClass === InsufficientAllowanceError) {
+        const [, allowance, needed] = revert.args as unknown as [string, bigint, bigint];
+        return new InsufficientAllowanceError(revert.name, { cause: error, allowance, required: needed });
+    }
+    return new ErrorClass(revert.name, { cause: error });
+}
+
+/**
+ * Returns a StakingError when the error can be translated, the original error otherwise
+ */
+export function toStakingError(error: unknown): unknown {
+    return parseStakingError(error) ?? error;
+}
+
+function decodeRevert(error: unknown): { name: string; args: readonly unknown[] } | undefined {
+    if (isCallException(error)) {
+        if (error.reason) return { name: "Error", args: [error.reason] };
+        if (error.revert) return { name: error.revert.name, args: error.revert.args };
+    }
+
+    const data = (error as { data?: unknown } | null)?.data;
+    if (typeof data !== "string" || !data.startsWith("0x")) return undefined;
+    try {
+        const parsed = REVERT_INTERFACE.parseError(data);
+        return parsed ? { name: parsed.name, args: parsed.args.toArray() } : undefined;
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,3 @@
+export { StakingClient, TokenMode } from "./StakingClient";
+export type { LockedPositionInfo, StakeLotInfo, StakeOptions, UnstakeableInfo } from "./StakingClient";
+export * from "./errors";
@@ -0,0 +1,149 @@
+import fs from "fs"
+import path from "path"
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree"
+import { task } from "hardhat/config"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+import type { MagicWorldAirdrop } from "../typechain-types"
+import { PreflightError, readCsv, resolveAddress } from "./helpers"
+
+const CSV_COLUMNS = ["account", "amount"]
+
+// Matches the leaf encoding of MagicWorldAirdrop.verify
+const LEAF_ENCODING = ["address", "uint256"]
+
+/**
+ * What `airdrop:build` writes: the root to deploy the distributor with and,
+ * per account, the amount in MAGIC wei and the proof to claim it with
+ */
+interface AirdropProofs {
+	merkleRoot: string
+	totalAmount: string
+	claims: Record<string, { amount: string; proof: string[] }>
+}
+
+async function getAirdrop(hre: HardhatRuntimeEnvironment, address?: string): Promise<MagicWorldAirdrop> {
+	const airdropAddress = await resolveAddress(hre, "MagicWorldAirdrop", "MagicWorldAirdropModule#MagicWorldAirdrop", address)
+	return hre.ethers.getContractAt("MagicWorldAirdrop", airdropAddress)
+}
+
+/**
+ * Reads a CSV with the columns account,amount. Amounts are in MAGIC, e.g.
+ * 150.5. An account may only appear once, since it can only claim once.
+ */
+function loadAllocationsCsv(hre: HardhatRuntimeEnvironment, file: string): [string, bigint][] {
+	const seen = new Set<string>()
+	return readCsv(file, CSV_COLUMNS).map(({ line, cells }) => {
+		const fail = (message: string) => new PreflightError(`${file}:${line}: ${message}`)
+		const [account, amount] = cells
+
+		if (!hre.ethers.isAddress(account) || account === hre.ethers.ZeroAddress) {
+			throw fail(`invalid account ${account}`)
+		}
+		const checksummed = hre.ethers.getAddress(account)
+		if (seen.has(checksummed)) throw fail(`duplicate account ${checksummed}`)
+		seen.add(checksummed)
+
+		let parsedAmount: bigint
+		try {
+			parsedAmount = hre.ethers.parseEther(amount)
+		} catch {
+			throw fail(`invalid amount ${amount}`)
+		}
+		if (parsedAmount === 0n) throw fail("amount must be greater than 0")
+		return [checksummed, parsedAmount]
+	})
+}
+
+function readProofs(file: string): AirdropProofs {
+	if (!fs.existsSync(file)) {
+		throw new PreflightError(`Proofs file not found: ${file}`)
+	}
+	return JSON.parse(fs.readFileSync(file, "utf8"))
+}
+
+task("airdrop:build", "Builds the MAGIC airdrop Merkle tree from a CSV and writes per-account proofs to JSON")
+	.addParam("csv", "CSV file with account,amount rows, amounts in MAGIC")
+	.addOptionalParam("out", "Where to write the proofs (default: the CSV path with a .json extension)")
+	.setAction(async (args: { csv: string; out?: string }, hre) => {
+		const allocations = loadAllocationsCsv(hre, args.csv)
+		if (allocations.length === 0) throw new PreflightError(`No allocations in ${args.csv}`)
+
+		const tree = StandardMerkleTree.of(
+			allocations.map(([account, amount]) => [account, amount.toString()]),
+			LEAF_ENCODING
+		)
+		const proofs: AirdropProofs = { merkleRoot: tree.root, totalAmount: "0", claims: {} }
+		let total = 0n
+		for (const [i, [account, amount]] of tree.entries()) {
+			proofs.claims[account] = { amount, proof: tree.getProof(i) }
+			total += BigInt(amount)
+		}
+		proofs.totalAmount = total.toString()
+
+		const out = args.out ?? path.join(path.dirname(args.csv), `${path.basename(args.csv, path.extname(args.csv))}.json`)
+		fs.mkdirSync(path.dirname(out), { recursive: true })
+		fs.writeFileSync(out, JSON.stringify(proofs, null, 2) + "\n")
+
+		console.log(`Airdrop of ${hre.ethers.formatEther(total)} MAGIC to ${allocations.length} accounts`)
+		console.log(`  merkle root: ${tree.root}`)
+		console.log(`  proofs:      ${out}`)
+	})
+
+task("airdrop:verify", "Checks a proofs file against the deployed airdrop distributor")
+	.addParam("proofs", "Proofs JSON written by airdrop:build")
+	.addOptionalParam("address", "MagicWorldAirdrop address (defaults to the network deployment)")
+	.addFlag("claims", "Also report which accounts have claimed, one call per account")
+	.setAction(async (args: { proofs: string; address?: string; claims: boolean }, hre) => {
+		const { ethers } = hre
+		const proofs = readProofs(args.proofs)
+		const accounts = Object.entries(proofs.claims)
+
+		// The file must be consistent on its own: every proof proves its leaf under the root
+		const tree = StandardMerkleTree.of(
+			accounts.map(([account, { amount }]) => [account, amount]),
+			LEAF_ENCODING
+		)
+		if (tree.root !== proofs.merkleRoot) {
+			throw new PreflightError(`The claims in ${args.proofs} build root ${tree.root}, not ${proofs.merkleRoot}`)
+		}
+		for (const [account, { amount, proof }] of accounts) {
+			if (!StandardMerkleTree.verify(proofs.merkleRoot, LEAF_ENCODING, [account, amount], proof)) {
+				throw new PreflightError(`Invalid proof for ${account} in ${args.proofs}`)
+			}
+		}
+
+		const airdrop = await getAirdrop(hre, args.address)
+		const deployedRoot = await airdrop.merkleRoot()
+		console.log(`MagicWorldAirdrop ${await airdrop.getAddress()} on ${hre.network.name}`)
+		console.log(`  merkle root: ${deployedRoot}`)
+		if (deployedRoot !== proofs.merkleRoot) {
+			throw new PreflightError(`Root mismatch: ${args.proofs} has ${proofs.merkleRoot}`)
+		}
+		console.log(`  ${accounts.length} proofs in ${args.proofs} match the deployed root`)
+
+		const deadline = await airdrop.claimDeadline()
+		const magic = await ethers.getContractAt("MagicWorldGovernanceToken", await airdrop.token())
+		const balance = await magic.balanceOf(await airdrop.getAddress())
+		console.log(`  deadline:    ${new Date(Number(deadline) * 1000).toISOString()}`)
+		console.log(`  balance:     ${ethers.formatEther(balance)} of ${ethers.formatEther(proofs.totalAmount)} MAGIC`)
+
+		if (!args.claims) {
+			if (balance < BigInt(proofs.totalAmount)) {
+				console.log("  Note: the balance is below the total, unless some accounts have claimed already.")
+			}
+			return
+		}
+		let claimedCount = 0
+		let unclaimed = 0n
+		for (const [account, { amount }] of accounts) {
+			if (await airdrop.hasClaimed(account)) {
+				claimedCount++
+			} else {
+				unclaimed += BigInt(amount)
+			}
+		}
+		console.log(`  claimed:     ${claimedCount} of ${accounts.length} accounts, ${ethers.formatEther(unclaimed)} MAGIC unclaimed`)
+		if (balance < unclaimed) {
+			throw new PreflightError(`Underfunded: ${ethers.formatEther(unclaimed - balance)} MAGIC missing for unclaimed allocations`)
+		}
+	})
@@ -0,0 +1,238 @@
+import { task } from "hardhat/config"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+import type { MagicWorldGovernance } from "../typechain-types"
+import { getTaskSigner, latestTimestamp, PreflightError, resolveAddress, sendOrPrint } from "./helpers"
+import {
+	defaultManifestPath,
+	encodeProposal,
+	loadProposalSpec,
+	ProposalManifest,
+	readManifest,
+	writeManifest,
+} from "./proposal-builder"
+
+// Order of IGovernor.ProposalState
+const PROPOSAL_STATES = ["Pending", "Active", "Canceled", "Defeated", "Succeeded", "Queued", "Expired", "Executed"]
+
+// GovernorCountingSimple vote types
+const VOTE_TYPES: Record<string, number> = { against: 0, for: 1, abstain: 2 }
+
+async function getGovernance(hre: HardhatRuntimeEnvironment, address?: string): Promise<MagicWorldGovernance> {
+	const governanceAddress = await resolveAddress(
+		hre,
+		"MagicWorldGovernance",
+		"MagicWorldGovernanceModule#MagicWorldGovernance",
+		address
+	)
+	return hre.ethers.getContractAt("MagicWorldGovernance", governanceAddress)
+}
+
+async function getProposalState(governance: MagicWorldGovernance, proposalId: string): Promise<string> {
+	if ((await governance.proposalSnapshot(proposalId)) === 0n) {
+		throw new PreflightError(`Proposal ${proposalId} does not exist on this governor`)
+	}
+	return PROPOSAL_STATES[Number(await governance.state(proposalId))]
+}
+
+function manifestArgs(manifest: ProposalManifest) {
+	return [manifest.targets, manifest.values.map(BigInt), manifest.calldatas, manifest.descriptionHash] as const
+}
+
+task("gov:propose", "Encodes a JSON/YAML proposal spec, submits it and saves a proposal manifest")
+	.addParam("spec", "Path to the proposal spec (.json, .yaml or .yml)")
+	.addOptionalParam("out", "Where to write the manifest (default: proposals/manifests/<network>/<spec>.json)")
+	.addOptionalParam("address", "MagicWorldGovernance address (defaults to the network deployment)")
+	.addFlag("dryRun", "Print the encoded proposal instead of submitting it")
+	.setAction(async (args: { spec: string; out?: string; address?: string; dryRun: boolean }, hre) => {
+		const governance = await getGovernance(hre, args.address)
+		const proposal = await encodeProposal(hre, loadProposalSpec(args.spec))
+		const proposalId = await governance.hashProposal(
+			proposal.targets,
+			proposal.values,
+			proposal.calldatas,
+			proposal.descriptionHash
+		)
+
+		console.log(`Proposal ${proposalId}`)
+		console.log(`  description: ${proposal.description}`)
+		proposal.actions.forEach((action, i) => console.log(`  [${i}] ${action}`))
+
+		if ((await governance.proposalSnapshot(proposalId)) !== 0n) {
+			throw new PreflightError("Proposal already exists (same actions and description)")
+		}
+
+		const proposer = await (await getTaskSigner(hre)).getAddress()
+		const threshold = await governance.proposalThreshold()
+		const votes = await governance.getVotes(proposer, (await governance.clock()) - 1n)
+		if (votes < threshold) {
+			const message = `Proposer ${proposer} has ${votes} votes, below the proposal threshold of ${threshold}`
+			if (!args.dryRun) throw new PreflightError(message)
+			console.log(`Note: ${message}`)
+		}
+
+		const receipt = await sendOrPrint(
+			hre,
+			governance,
+			"propose",
+			[proposal.targets, proposal.values, proposal.calldatas, proposal.description],
+			args.dryRun
+		)
+		if (!receipt) return
+
+		const { chainId } = await hre.ethers.provider.getNetwork()
+		const manifestFile = args.out ?? defaultManifestPath(hre, args.spec)
+		writeManifest(manifestFile, {
+			network: hre.network.name,
+			chainId: chainId.toString(),
+			governor: await governance.getAddress(),
+			proposalId: proposalId.toString(),
+			description: proposal.description,
+			descriptionHash: proposal.descriptionHash,
+			targets: proposal.targets,
+			values: proposal.values.map(String),
+			calldatas: proposal.calldatas,
+			actions: proposal.actions,
+			proposer,
+			proposeTransaction: receipt.hash,
+			createdAt: new Date().toISOString(),
+		})
+		console.log(`Manifest written to ${manifestFile}`)
+	})
+
+task("gov:status", "Prints the state and votes of a proposal from its manifest")
+	.addParam("manifest", "Path to the proposal manifest")
+	.setAction(async ({ manifest: manifestFile }: { manifest: string }, hre) => {
+		const { ethers } = hre
+		const manifest = await readManifest(hre, manifestFile)
+		const governance = await getGovernance(hre, manifest.governor)
+		const state = await getProposalState(governance, manifest.proposalId)
+		const snapshot = await governance.proposalSnapshot(manifest.proposalId)
+		const [againstVotes, forVotes, abstainVotes] = await governance.proposalVotes(manifest.proposalId)
+		const clock = await governance.clock()
+
+		console.log(`Proposal ${manifest.proposalId} on ${manifest.network}`)
+		console.log(`  description: ${manifest.description}`)
+		manifest.actions.forEach((action, i) => console.log(`  [${i}] ${action}`))
+		console.log(`  state:       ${state}`)
+		console.log(`  clock:       ${clock} (snapshot ${snapshot}, deadline ${await governance.proposalDeadline(manifest.proposalId)})`)
+		console.log(`  for:         ${ethers.formatEther(forVotes)}`)
+		console.log(`  against:     ${ethers.formatEther(againstVotes)}`)
+		console.log(`  abstain:     ${ethers.formatEther(abstainVotes)}`)
+		if (snapshot < clock) {
+			console.log(`  quorum:      ${ethers.formatEther(await governance.quorum(snapshot))}`)
+		}
+		const eta = await governance.proposalEta(manifest.proposalId)
+		if (eta > 0n) {
+			const now = await latestTimestamp(hre)
+			console.log(
+				`  eta:         ${new Date(Number(eta) * 1000).toISOString()}` +
+					(eta > now ? ` (${eta - now}s left)` : " (ready)")
+			)
+		}
+	})
+
+task("gov:token-roles", "Lists the accounts allowed to administer roles and mint MAGIC")
+	.addOptionalParam("address", "MagicWorldGovernanceToken address (defaults to the network deployment)")
+	.setAction(async ({ address }: { address?: string }, hre) => {
+		const { ethers } = hre
+		const tokenAddress = await resolveAddress(
+			hre,
+			"MagicWorldGovernanceToken",
+			"MagicWorldGovernanceTokenModule#MagicWorldGovernanceToken",
+			address
+		)
+		const token = await ethers.getContractAt("MagicWorldGovernanceToken", tokenAddress)
+
+		console.log(`MagicWorldGovernanceToken ${tokenAddress} on ${hre.network.name}`)
+		console.log(`  supply:     ${ethers.formatEther(await token.totalSupply())} of ${ethers.formatEther(await token.MAX_SUPPLY())}`)
+		const roles: [string, string][] = [
+			["admins", await token.DEFAULT_ADMIN_ROLE()],
+			["minters", await token.MINTER_ROLE()],
+		]
+		for (const [name, role] of roles) {
+			const members = await token.getRoleMembers(role)
+			console.log(`  ${`${name}:`.padEnd(11)} ${members.length === 0 ? "none" : members.join(", ")}`)
+		}
+	})
+
+task("gov:vote", "Casts a vote on the proposal described by a manifest")
+	.addParam("manifest", "Path to the proposal manifest")
+	.addParam("support", "for, against or abstain")
+	.addOptionalParam("reason", "Reason published with the vote")
+	.addFlag("dryRun", "Print the calldata instead of sending the transaction")
+	.setAction(
+		async (args: { manifest: string; support: string; reason?: string; dryRun: boolean }, hre) => {
+			const manifest = await readManifest(hre, args.manifest)
+			const governance = await getGovernance(hre, manifest.governor)
+
+			const support = VOTE_TYPES[args.support.toLowerCase()]
+			if (support === undefined) {
+				throw new PreflightError(`Invalid support "${args.support}", use for, against or abstain`)
+			}
+
+			const state = await getProposalState(governance, manifest.proposalId)
+			if (state !== "Active") throw new PreflightError(`Proposal is ${state}, votes are only accepted while Active`)
+
+			const voter = await (await getTaskSigner(hre)).getAddress()
+			if (await governance.hasVoted(manifest.proposalId, voter)) {
+				throw new PreflightError(`${voter} has already voted on this proposal`)
+			}
+			const weight = await governance.getVotes(voter, await governance.proposalSnapshot(manifest.proposalId))
+			console.log(`Voting ${args.support} with ${hre.ethers.formatEther(weight)} votes`)
+
+			if (args.reason) {
+				await sendOrPrint(hre, governance, "castVoteWithReason", [manifest.proposalId, support, args.reason], args.dryRun)
+			} else {
+				await sendOrPrint(hre, governance, "castVote", [manifest.proposalId, support], args.dryRun)
+			}
+		}
+	)
+
+task("gov:queue", "Queues a succeeded proposal in the timelock from its manifest")
+	.addParam("manifest", "Path to the proposal manifest")
+	.addFlag("dryRun", "Print the calldata instead of sending the transaction")
+	.setAction(async (args: { manifest: string; dryRun: boolean }, hre) => {
+		const manifest = await readManifest(hre, args.manifest)
+		const governance = await getGovernance(hre, manifest.governor)
+
+		const state = await getProposalState(governance, manifest.proposalId)
+		if (state !== "Succeeded") throw new PreflightError(`Proposal is ${state}, only Succeeded proposals can be queued`)
+
+		const receipt = await sendOrPrint(hre, governance, "queue", [...manifestArgs(manifest)], args.dryRun)
+		if (!receipt) return
+
+		const eta = await governance.proposalEta(manifest.proposalId)
+		console.log(`Executable from ${new Date(Number(eta) * 1000).toISOString()}`)
+		manifest.queueTransaction = receipt.hash
+		writeManifest(args.manifest, manifest)
+	})
+
+task("gov:execute", "Executes a queued proposal from its manifest once the timelock delay has passed")
+	.addParam("manifest", "Path to the proposal manifest")
+	.addFlag("dryRun", "Print the calldata instead of sending the transaction")
+	.setAction(async (args: { manifest: string; dryRun: boolean }, hre) => {
+		const manifest = await readManifest(hre, args.manifest)
+		const governance = await getGovernance(hre, manifest.governor)
+
+		const state = await getProposalState(governance, manifest.proposalId)
+		if (state === "Succeeded" && (await governance.proposalNeedsQueuing(manifest.proposalId))) {
+			throw new PreflightError("Proposal must be queued first, run gov:queue")
+		}
+		if (state !== "Queued" && state !== "Succeeded") {
+			throw new PreflightError(`Proposal is ${state}, only Queued proposals can be executed`)
+		}
+		if (state === "Queued") {
+			// The next block is mined at least one second after the latest one
+			const eta = await governance.proposalEta(manifest.proposalId)
+			const now = (await latestTimestamp(hre)) + 1n
+			if (now < eta) {
+				throw new PreflightError(`Timelock delay has not passed, executable in ${eta - now}s`)
+			}
+		}
+
+		const receipt = await sendOrPrint(hre, governance, "execute", [...manifestArgs(manifest)], args.dryRun)
+		if (!receipt) return
+
+		manifest.executeTransaction = receipt.hash
+		writeManifest(args.manifest, manifest)
+	})
@@ -0,0 +1,182 @@
+import fs from "fs"
+import path from "path"
+import { BaseContract, Provider, Signer, TransactionReceipt } from "ethers"
+import { HardhatPluginError } from "hardhat/plugins"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+export const PLUGIN_NAME = "magic-world-tasks"
+
+/**
+ * Thrown when a task's preflight check fails, before anything is sent
+ */
+export class PreflightError extends HardhatPluginError {
+	constructor(message: string) {
+		super(PLUGIN_NAME, message)
+	}
+}
+
+/**
+ * Resolves the address of a deployed contract on the selected network.
+ * An explicit address wins, then hardhat-deploy's `deployments/`, then the
+ * Ignition deployment of that chain.
+ * @param deploymentName hardhat-deploy deployment name, e.g. "MagicWorldStaking"
+ * @param ignitionFutureId Ignition future id, e.g. "MagicWorldStakingModule#MagicWorldStaking"
+ * @param address Optional address passed on the command line
+ */
+export async function resolveAddress(
+	hre: HardhatRuntimeEnvironment,
+	deploymentName: string,
+	ignitionFutureId: string,
+	address?: string
+): Promise<string> {
+	if (address) {
+		if (!hre.ethers.isAddress(address)) {
+			throw new PreflightError(`Invalid address: ${address}`)
+		}
+		return hre.ethers.getAddress(address)
+	}
+
+	const deployment = await hre.deployments.getOrNull(deploymentName)
+	if (deployment) {
+		return deployment.address
+	}
+
+	const { chainId } = await hre.ethers.provider.getNetwork()
+	const ignitionFile = path.join(
+		hre.config.paths.root,
+		"ignition",
+		"deployments",
+		`chain-${chainId}`,
+		"deployed_addresses.json"
+	)
+	if (fs.existsSync(ignitionFile)) {
+		const addresses: Record<string, string> = JSON.parse(fs.readFileSync(ignitionFile, "utf8"))
+		if (addresses[ignitionFutureId]) {
+			return addresses[ignitionFutureId]
+		}
+	}
+
+	throw new PreflightError(
+		`No ${deploymentName} deployment found on network "${hre.network.name}". Pass its address with --address.`
+	)
+}
+
+/**
+ * Block a contract was deployed in, from its hardhat-deploy deployment, so
+ * event scans don't start from genesis. 0 when it isn't known, or when
+ * `address` is another contract than the deployment.
+ * @param deploymentName hardhat-deploy deployment name, e.g. "MagicWorldStaking"
+ * @param address Address the scan is for, if not the deployment's
+ */
+export async function getDeploymentBlock(
+	hre: HardhatRuntimeEnvironment,
+	deploymentName: string,
+	address?: string,
+	provider: Provider = hre.ethers.provider
+): Promise<number> {
+	const deployment = await hre.deployments.getOrNull(deploymentName)
+	if (!deployment) return 0
+	if (address && hre.ethers.getAddress(address) !== hre.ethers.getAddress(deployment.address)) return 0
+	if (deployment.receipt) return deployment.receipt.blockNumber
+	if (deployment.transactionHash) {
+		const receipt = await provider.getTransactionReceipt(deployment.transactionHash)
+		if (receipt) return receipt.blockNumber
+	}
+	return 0
+}
+
+/**
+ * Returns the account tasks send transactions from (the `deployer` named account)
+ */
+export async function getTaskSigner(hre: HardhatRuntimeEnvironment): Promise<Signer> {
+	const { deployer } = await hre.getNamedAccounts()
+	return hre.ethers.getSigner(deployer)
+}
+
+/**
+ * Returns the timestamp of the latest block
+ */
+export async function latestTimestamp(hre: HardhatRuntimeEnvironment): Promise<bigint> {
+	const block = await hre.ethers.provider.getBlock("latest")
+	return BigInt(block!.timestamp)
+}
+
+/**
+ * Parses a unix timestamp in seconds, or a date in any format `Date` accepts
+ * (e.g. 2026-01-01 or 2026-01-01T12:00:00Z)
+ * @returns The timestamp in seconds, or undefined if the value isn't a date
+ */
+export function parseTimestamp(value: string): bigint | undefined {
+	if (/^\d+$/.test(value)) return BigInt(value)
+	const time = Date.parse(value)
+	return Number.isNaN(time) ? undefined : BigInt(Math.floor(time / 1000))
+}
+
+/**
+ * Encodes a contract call and either sends it or, on a dry run, prints the
+ * calldata so it can be submitted elsewhere (e.g. as a governance proposal)
+ * @param contract Contract to call
+ * @param method Function name
+ * @param args Function arguments
+ * @param dryRun Print instead of sending
+ * @returns The transaction receipt, or undefined on a dry run
+ */
+export async function sendOrPrint(
+	hre: HardhatRuntimeEnvironment,
+	contract: BaseContract,
+	method: string,
+	args: unknown[],
+	dryRun: boolean
+): Promise<TransactionReceipt | undefined> {
+	const to = await contract.getAddress()
+	const data = contract.interface.encodeFunctionData(method, args)
+	const signature = contract.interface.getFunction(method)!.format()
+
+	if (dryRun) {
+		console.log(`[dry-run] ${signature}`)
+		console.log(`  to:    ${to}`)
+		console.log(`  value: 0`)
+		console.log(`  data:  ${data}`)
+		return undefined
+	}
+
+	const signer = await getTaskSigner(hre)
+	console.log(`Sending ${signature} to ${to} from ${await signer.getAddress()}`)
+	const tx = await signer.sendTransaction({ to, data })
+	const receipt = await tx.wait()
+	console.log(`  tx: ${tx.hash} (block ${receipt!.blockNumber}, gas used ${receipt!.gasUsed})`)
+	return receipt!
+}
+
+export interface CsvRow {
+	/** 1-based line number in the file, for error messages */
+	line: number
+	cells: string[]
+}
+
+/**
+ * Reads a CSV file that must start with the given header. Blank lines and
+ * lines starting with # are skipped, cells are trimmed. Quoting is not
+ * supported.
+ */
+export function readCsv(file: string, columns: string[]): CsvRow[] {
+	if (!fs.existsSync(file)) {
+		throw new PreflightError(`CSV file not found: ${file}`)
+	}
+	const rows = fs
+		.readFileSync(file, "utf8")
+		.split(/\r?\n/)
+		.map((line, i) => ({ line: i + 1, text: line.trim() }))
+		.filter(({ text }) => text !== "" && !text.startsWith("#"))
+		.map(({ line, text }) => ({ line, cells: text.split(",").map((cell) => cell.trim()) }))
+
+	if (rows.shift()?.cells.join(",") !== columns.join(",")) {
+		throw new PreflightError(`${file} must start with the header ${columns.join(",")}`)
+	}
+	for (const { line, cells } of rows) {
+		if (cells.length !== columns.length) {
+			throw new PreflightError(`${file}:${line}: expected ${columns.length} columns, got ${cells.length}`)
+		}
+	}
+	return rows
+}
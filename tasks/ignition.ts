@@ -0,0 +1,39 @@
+import fs from "fs"
+import path from "path"
+import { scope } from "hardhat/config"
+import { assertNoZeroPlaceholders } from "../helper-hardhat-config"
+import { PreflightError } from "./helpers"
+
+// What is read of an Ignition module: its id and the modules it uses
+interface ModuleTree {
+	id: string
+	submodules: Set<ModuleTree>
+}
+
+function moduleIds(module: ModuleTree, ids = new Set<string>()): Set<string> {
+	ids.add(module.id)
+	for (const submodule of module.submodules) {
+		moduleIds(submodule, ids)
+	}
+	return ids
+}
+
+// Refuses to deploy while the parameters of the deployed modules are still
+// zero placeholders. Ignition modules can't check parameter values, so the
+// check runs before Ignition does. Sections of modules that aren't deployed,
+// e.g. the airdrop with MagicWorld.ts, may keep their placeholders.
+scope("ignition")
+	.task("deploy")
+	.setAction(async (args: { modulePath: string; parameters?: string }, hre, runSuper) => {
+		if (args.parameters) {
+			const file = path.resolve(args.parameters)
+			const { default: module }: { default: ModuleTree } = await import(path.resolve(args.modulePath))
+			const parameters = JSON.parse(fs.readFileSync(file, "utf8"))
+			try {
+				assertNoZeroPlaceholders(parameters, ["$global", ...moduleIds(module)], file)
+			} catch (error) {
+				throw new PreflightError(error instanceof Error ? error.message : String(error))
+			}
+		}
+		return runSuper(args)
+	})
@@ -0,0 +1,6 @@
+import "./staking"
+import "./governance"
+import "./vesting"
+import "./airdrop"
+import "./indexer"
+import "./ignition"
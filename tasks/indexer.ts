@@ -0,0 +1,108 @@
+import fs from "fs"
+import path from "path"
+import { Provider } from "ethers"
+import { task, types } from "hardhat/config"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+import { buildLedger, EventIndexer, JsonIndexStore, ledgerToCsv } from "../indexer"
+import { getDeploymentBlock, PreflightError, resolveAddress } from "./helpers"
+
+interface StoreArgs {
+	store?: string
+	rpc?: string
+}
+
+function getProvider(hre: HardhatRuntimeEnvironment, rpc?: string): Provider {
+	return rpc ? new hre.ethers.JsonRpcProvider(rpc) : hre.ethers.provider
+}
+
+// Default store: indexer/data/chain-<chainId>.json, like Ignition's deployment folders
+async function getStore(hre: HardhatRuntimeEnvironment, provider: Provider, file?: string): Promise<JsonIndexStore> {
+	if (file) return new JsonIndexStore(file)
+	const { chainId } = await provider.getNetwork()
+	return new JsonIndexStore(path.join(hre.config.paths.root, "indexer", "data", `chain-${chainId}.json`))
+}
+
+task("indexer:sync", "Indexes staking and governance events into a local JSON store, resuming from the last indexed block")
+	.addOptionalParam("address", "MagicWorldStaking address (defaults to the network deployment)")
+	.addOptionalParam("governance", "MagicWorldGovernance address (defaults to the network deployment)")
+	.addOptionalParam("rpc", "JSON-RPC URL to read from instead of the network's")
+	.addOptionalParam("store", "Index file (default: indexer/data/chain-<chainId>.json)")
+	.addOptionalParam("fromBlock", "Block the first sync starts from (default: the staking deployment block)", undefined, types.int)
+	.addOptionalParam("batchSize", "Blocks per eth_getLogs request", 2000, types.int)
+	.addOptionalParam("confirmations", "Blocks to stay behind the head", 0, types.int)
+	.addOptionalParam("poll", "Keep syncing every this many seconds, until interrupted", undefined, types.int)
+	.setAction(
+		async (
+			args: StoreArgs & {
+				address?: string
+				governance?: string
+				fromBlock?: number
+				batchSize: number
+				confirmations: number
+				poll?: number
+			},
+			hre
+		) => {
+			const provider = getProvider(hre, args.rpc)
+			const store = await getStore(hre, provider, args.store)
+			const indexer = new EventIndexer(provider, store, {
+				staking: await resolveAddress(hre, "MagicWorldStaking", "MagicWorldStakingModule#MagicWorldStaking", args.address),
+				governance: await resolveAddress(
+					hre,
+					"MagicWorldGovernance",
+					"MagicWorldGovernanceModule#MagicWorldGovernance",
+					args.governance
+				),
+				startBlock: args.fromBlock ?? (await getDeploymentBlock(hre, "MagicWorldStaking", args.address, provider)),
+				batchSize: args.batchSize,
+				confirmations: args.confirmations,
+			})
+
+			for (;;) {
+				const result = await indexer.sync((toBlock, state) => {
+					console.log(`  indexed up to block ${toBlock}, ${state.events.length} events`)
+				})
+				if (result.reorgedTo !== undefined) {
+					console.log(`Reorg: rolled back to block ${result.reorgedTo}, dropping ${result.removed} events`)
+				}
+				if (result.toBlock >= result.fromBlock) {
+					console.log(`Blocks ${result.fromBlock} to ${result.toBlock}: ${result.added} new events in ${store.file}`)
+				} else if (args.poll === undefined) {
+					console.log(`Index is up to date at block ${result.toBlock}`)
+				}
+				if (args.poll === undefined) break
+				await new Promise((resolve) => setTimeout(resolve, args.poll! * 1000))
+			}
+		}
+	)
+
+task("indexer:export", "Exports the per-user ledger of an index as CSV or JSON")
+	.addOptionalParam("account", "Only export this account's ledger (default: every account)")
+	.addOptionalParam("format", "csv or json (default: from the --out extension, else csv)")
+	.addOptionalParam("out", "Where to write the ledger (default: print it)")
+	.addOptionalParam("rpc", "JSON-RPC URL of the indexed chain, to find the default store")
+	.addOptionalParam("store", "Index file (default: indexer/data/chain-<chainId>.json)")
+	.setAction(async (args: StoreArgs & { account?: string; format?: string; out?: string }, hre) => {
+		const store = await getStore(hre, getProvider(hre, args.rpc), args.store)
+		const state = store.load()
+		if (!state) {
+			throw new PreflightError(`No index at ${store.file}, run indexer:sync first`)
+		}
+		if (args.account && !hre.ethers.isAddress(args.account)) {
+			throw new PreflightError(`Invalid account: ${args.account}`)
+		}
+		const format = args.format ?? (args.out && path.extname(args.out) === ".json" ? "json" : "csv")
+		if (format !== "csv" && format !== "json") {
+			throw new PreflightError(`Invalid format: ${format}, expected csv or json`)
+		}
+
+		const entries = buildLedger(state, args.account)
+		const output = format === "csv" ? ledgerToCsv(entries) : JSON.stringify(entries, null, 2) + "\n"
+		if (!args.out) {
+			process.stdout.write(output)
+			return
+		}
+		fs.mkdirSync(path.dirname(args.out), { recursive: true })
+		fs.writeFileSync(args.out, output)
+		console.log(`Wrote ${entries.length} ledger entries up to block ${state.lastBlock} to ${args.out}`)
+	})
@@ -0,0 +1,187 @@
+import fs from "fs"
+import path from "path"
+import yaml from "js-yaml"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+import { PreflightError, resolveAddress } from "./helpers"
+
+/**
+ * One action of a proposal spec. Either a named contract call:
+ *
+ *   - call: MagicWorldStaking.addToken
+ *     args: ["0x...", 86400]
+ *
+ * or a raw call with pre-encoded calldata:
+ *
+ *   - target: "0x..."
+ *     calldata: "0x..."
+ */
+export interface ProposalActionSpec {
+	/** "<ContractName>.<function>", the function may include its signature for overloads */
+	call?: string
+	args?: unknown[]
+	/** Address of the contract; defaults to the network deployment of ContractName */
+	address?: string
+	/** Raw target, used together with `calldata` */
+	target?: string
+	calldata?: string
+	/** Native value in wei, as a number or decimal string */
+	value?: string | number
+}
+
+export interface ProposalSpec {
+	description: string
+	actions: ProposalActionSpec[]
+}
+
+/**
+ * Everything needed to follow a proposal through its lifecycle without
+ * reconstructing the arrays that were proposed
+ */
+export interface ProposalManifest {
+	network: string
+	chainId: string
+	governor: string
+	proposalId: string
+	description: string
+	descriptionHash: string
+	targets: string[]
+	values: string[]
+	calldatas: string[]
+	/** Human-readable form of each action, for reviewers */
+	actions: string[]
+	proposer?: string
+	proposeTransaction?: string
+	queueTransaction?: string
+	executeTransaction?: string
+	createdAt: string
+}
+
+export interface EncodedProposal {
+	targets: string[]
+	values: bigint[]
+	calldatas: string[]
+	description: string
+	descriptionHash: string
+	actions: string[]
+}
+
+/**
+ * Reads a proposal spec from a .json, .yaml or .yml file
+ */
+export function loadProposalSpec(file: string): ProposalSpec {
+	if (!fs.existsSync(file)) {
+		throw new PreflightError(`Proposal spec not found: ${file}`)
+	}
+	const raw = fs.readFileSync(file, "utf8")
+	const spec = (/\.ya?ml$/i.test(file) ? yaml.load(raw) : JSON.parse(raw)) as ProposalSpec
+
+	if (!spec || typeof spec.description !== "string" || spec.description.trim() === "") {
+		throw new PreflightError(`Proposal spec ${file} needs a non-empty "description"`)
+	}
+	if (!Array.isArray(spec.actions) || spec.actions.length === 0) {
+		throw new PreflightError(`Proposal spec ${file} needs at least one action`)
+	}
+	return spec
+}
+
+/**
+ * ABI-encodes the actions of a spec into the arrays expected by `propose`
+ */
+export async function encodeProposal(hre: HardhatRuntimeEnvironment, spec: ProposalSpec): Promise<EncodedProposal> {
+	const { ethers } = hre
+	const proposal: EncodedProposal = {
+		targets: [],
+		values: [],
+		calldatas: [],
+		description: spec.description,
+		descriptionHash: ethers.id(spec.description),
+		actions: [],
+	}
+
+	for (const [index, action] of spec.actions.entries()) {
+		const value = BigInt(action.value ?? 0)
+
+		if (action.call) {
+			const separator = action.call.indexOf(".")
+			if (separator <= 0) {
+				throw new PreflightError(`Action ${index}: "call" must look like ContractName.function`)
+			}
+			const contractName = action.call.slice(0, separator)
+			const functionName = action.call.slice(separator + 1)
+			const target = await resolveAddress(hre, contractName, `${contractName}Module#${contractName}`, action.address)
+			const contractInterface = new ethers.Interface((await hre.artifacts.readArtifact(contractName)).abi)
+			const fragment = contractInterface.getFunction(functionName)
+			if (!fragment) {
+				throw new PreflightError(`Action ${index}: ${contractName} has no function ${functionName}`)
+			}
+			const args = action.args ?? []
+
+			let calldata: string
+			try {
+				calldata = contractInterface.encodeFunctionData(fragment, args)
+			} catch (error: unknown) {
+				// ethers errors carry a short message without the full argument dump
+				const reason =
+					error instanceof Error
+						? ((error as Error & { shortMessage?: string }).shortMessage ?? error.message)
+						: String(error)
+				throw new PreflightError(`Action ${index}: cannot encode ${fragment.format()}: ${reason}`)
+			}
+
+			proposal.targets.push(target)
+			proposal.calldatas.push(calldata)
+			proposal.actions.push(`${contractName}(${target}).${fragment.name}(${args.map(String).join(", ")})`)
+		} else if (action.target) {
+			if (!ethers.isAddress(action.target)) {
+				throw new PreflightError(`Action ${index}: invalid target ${action.target}`)
+			}
+			const calldata = action.calldata ?? "0x"
+			if (!ethers.isHexString(calldata)) {
+				throw new PreflightError(`Action ${index}: calldata must be a hex string`)
+			}
+			proposal.targets.push(ethers.getAddress(action.target))
+			proposal.calldatas.push(calldata)
+			proposal.actions.push(`${action.target} <- ${calldata}`)
+		} else {
+			throw new PreflightError(`Action ${index}: needs either "call" or "target"`)
+		}
+
+		proposal.values.push(value)
+		if (value > 0n) {
+			proposal.actions[proposal.actions.length - 1] += ` {value: ${value}}`
+		}
+	}
+
+	return proposal
+}
+
+/**
+ * Default manifest location: proposals/manifests/<network>/<spec name>.json
+ */
+export function defaultManifestPath(hre: HardhatRuntimeEnvironment, specFile: string): string {
+	const name = path.basename(specFile).replace(/\.(json|ya?ml)$/i, "")
+	return path.join(hre.config.paths.root, "proposals", "manifests", hre.network.name, `${name}.json`)
+}
+
+export function writeManifest(file: string, manifest: ProposalManifest): void {
+	fs.mkdirSync(path.dirname(file), { recursive: true })
+	fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n")
+}
+
+/**
+ * Reads a manifest and checks that it belongs to the selected network
+ */
+export async function readManifest(hre: HardhatRuntimeEnvironment, file: string): Promise<ProposalManifest> {
+	if (!fs.existsSync(file)) {
+		throw new PreflightError(`Proposal manifest not found: ${file}`)
+	}
+	const manifest: ProposalManifest = JSON.parse(fs.readFileSync(file, "utf8"))
+	const { chainId } = await hre.ethers.provider.getNetwork()
+	if (manifest.chainId !== chainId.toString()) {
+		throw new PreflightError(
+			`Manifest ${file} was created on chain ${manifest.chainId} (${manifest.network}), ` +
+				`but network "${hre.network.name}" is chain ${chainId}`
+		)
+	}
+	return manifest
+}
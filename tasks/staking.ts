@@ -0,0 +1,803 @@
+import fs from "fs"
+import path from "path"
+import yaml from "js-yaml"
+import { task, types } from "hardhat/config"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+import type { IERC20Metadata, MagicWorldStaking } from "../typechain-types"
+import {
+	getDeploymentBlock,
+	getTaskSigner,
+	latestTimestamp,
+	parseTimestamp,
+	PreflightError,
+	resolveAddress,
+	sendOrPrint,
+} from "./helpers"
+import type { ProposalActionSpec, ProposalSpec } from "./proposal-builder"
+
+interface StakingTaskArgs {
+	address?: string
+	dryRun: boolean
+}
+
+async function getStaking(hre: HardhatRuntimeEnvironment, address?: string): Promise<MagicWorldStaking> {
+	const stakingAddress = await resolveAddress(
+		hre,
+		"MagicWorldStaking",
+		"MagicWorldStakingModule#MagicWorldStaking",
+		address
+	)
+	return hre.ethers.getContractAt("MagicWorldStaking", stakingAddress)
+}
+
+async function getToken(hre: HardhatRuntimeEnvironment, token: string): Promise<IERC20Metadata> {
+	if (!hre.ethers.isAddress(token)) {
+		throw new PreflightError(`Invalid token address: ${token}`)
+	}
+	return hre.ethers.getContractAt("IERC20Metadata", token)
+}
+
+// Roles of the contract, by the name used on the command line
+const STAKING_ROLES = {
+	admin: "DEFAULT_ADMIN_ROLE",
+	pauser: "PAUSER_ROLE",
+	"reward-distributor": "REWARD_DISTRIBUTOR_ROLE",
+	"token-manager": "TOKEN_MANAGER_ROLE",
+} as const
+
+type StakingRole = keyof typeof STAKING_ROLES
+
+function parseRole(role: string): StakingRole {
+	if (!(role in STAKING_ROLES)) {
+		throw new PreflightError(`Invalid role: ${role}, expected one of ${Object.keys(STAKING_ROLES).join(", ")}`)
+	}
+	return role as StakingRole
+}
+
+async function getRoleId(staking: MagicWorldStaking, role: StakingRole): Promise<string> {
+	return staking[STAKING_ROLES[role]]()
+}
+
+/**
+ * Mirrors `onlyRole`. On a dry run the role is typically held by the
+ * governance timelock, so the calldata is printed anyway for use in a proposal.
+ */
+async function assertRole(hre: HardhatRuntimeEnvironment, staking: MagicWorldStaking, role: StakingRole, dryRun: boolean) {
+	const signer = await (await getTaskSigner(hre)).getAddress()
+	if (!(await staking.hasRole(await getRoleId(staking, role), signer))) {
+		if (dryRun) {
+			console.log(`Note: ${signer} doesn't have the ${role} role; submit the calldata from an account that does.`)
+			return
+		}
+		throw new PreflightError(
+			`Signer ${signer} doesn't have the staking ${role} role. Use --dry-run to get the calldata, e.g. for a governance proposal.`
+		)
+	}
+}
+
+/**
+ * Current members of a role: the accounts of its RoleGranted events that still
+ * have it. The events are read `batchSize` blocks per request, as RPC nodes
+ * cap the range of eth_getLogs.
+ */
+async function getRoleMembers(
+	hre: HardhatRuntimeEnvironment,
+	staking: MagicWorldStaking,
+	roleId: string,
+	fromBlock: number,
+	batchSize: number
+): Promise<string[]> {
+	const head = await hre.ethers.provider.getBlockNumber()
+	const candidates = new Set<string>()
+	for (let from = fromBlock; from <= head; from += batchSize) {
+		const to = Math.min(from + batchSize - 1, head)
+		const granted = await staking.queryFilter(staking.filters.RoleGranted(roleId), from, to)
+		for (const event of granted) candidates.add(event.args.account)
+	}
+	const members: string[] = []
+	for (const account of candidates) {
+		if (await staking.hasRole(roleId, account)) members.push(account)
+	}
+	return members
+}
+
+async function assertWhitelisted(staking: MagicWorldStaking, token: string) {
+	if (!(await staking.whitelistedTokens(token)).isWhitelisted) {
+		throw new PreflightError(`Token not whitelisted: ${token}`)
+	}
+}
+
+/**
+ * Resolves the reward token a task acts on, the main reward token unless
+ * `reward` is given. Mirrors `onlyRewardToken`.
+ */
+async function getRewardToken(
+	hre: HardhatRuntimeEnvironment,
+	staking: MagicWorldStaking,
+	reward?: string
+): Promise<{ rewardToken: IERC20Metadata; isMain: boolean }> {
+	const mainReward = await staking.rewardToken()
+	const rewardToken = await getToken(hre, reward ?? mainReward)
+	if (reward !== undefined && (await staking.rewardData(reward)).rewardsDuration === 0n) {
+		throw new PreflightError(`Not a reward token: ${reward}`)
+	}
+	return { rewardToken, isMain: hre.ethers.getAddress(reward ?? mainReward) === mainReward }
+}
+
+/**
+ * A reward's data as a transaction at `time` sees it once its reward state is
+ * updated: epochs that are due but not rolled over yet are started and the
+ * stream is distributed up to `time`. Mirrors `_currentRewardData`, apart from
+ * the reward per token.
+ */
+async function currentRewardData(staking: MagicWorldStaking, reward: string, time: bigint) {
+	const stored = await staking.rewardData(reward)
+	const data = {
+		rewardRate: stored.rewardRate,
+		rewardsDuration: stored.rewardsDuration,
+		periodFinish: stored.periodFinish,
+		lastUpdateTime: stored.lastUpdateTime,
+		totalAllocatedRewards: stored.totalAllocatedRewards,
+	}
+	// What is distributed while nothing weighted is staked is released from the allocation
+	const totalWeightedStaked = await staking.totalWeightedStaked()
+	const accrue = (until: bigint) => {
+		const lastTime = until < data.periodFinish ? until : data.periodFinish
+		if (lastTime <= data.lastUpdateTime) return
+		if (totalWeightedStaked === 0n) data.totalAllocatedRewards -= (lastTime - data.lastUpdateTime) * data.rewardRate
+		data.lastUpdateTime = lastTime
+	}
+
+	const epochCount = await staking.getRewardEpochsCount(reward)
+	for (let i = await staking.nextEpoch(reward); i < epochCount; i++) {
+		const epoch = await staking.rewardEpochs(reward, i)
+		if (epoch.amount === 0n) continue // Cancelled
+		if (epoch.start > time) break
+		accrue(epoch.start)
+		data.rewardRate = epoch.amount / epoch.duration
+		data.lastUpdateTime = epoch.start
+		data.periodFinish = epoch.start + epoch.duration
+	}
+	accrue(time)
+	return data
+}
+
+// Getters of the Ownable MagicWorldStaking deployed before access roles, which
+// staking:migrate reads. It had no token modes, weights, extra reward tokens,
+// lock tiers or keepers.
+const OWNABLE_STAKING_ABI = [
+	"function owner() view returns (address)",
+	"function rewardToken() view returns (address)",
+	"function rewardsDuration() view returns (uint256)",
+	"function getWhitelistedTokensCount() view returns (uint256)",
+	"function getWhitelistedTokenAtIndex(uint256 index) view returns (address)",
+	"function whitelistedTokens(address token) view returns (bool isWhitelisted, uint256 minStakeDuration, uint256 totalStaked)",
+]
+
+// Values of the contract's TokenMode enum
+const TOKEN_MODES = ["standard", "fee-on-transfer", "rebasing"]
+
+function parseTokenMode(mode: string): number {
+	const index = TOKEN_MODES.indexOf(mode)
+	if (index < 0) throw new PreflightError(`Invalid token mode: ${mode}, expected one of ${TOKEN_MODES.join(", ")}`)
+	return index
+}
+
+/**
+ * Mirrors the checks on switching a token's mode
+ */
+async function assertTokenModeAllowed(staking: MagicWorldStaking, token: string, mode: number) {
+	if (TOKEN_MODES[mode] === "rebasing" && (await staking.rewardData(token)).rewardsDuration > 0n) {
+		throw new PreflightError("Rebasing reward token not supported")
+	}
+}
+
+// Weights are fixed point numbers with WEIGHT_PRECISION (1e4) = 1x
+const WEIGHT_DECIMALS = 4
+
+function formatWeight(weight: bigint, weightPrecision: bigint): string {
+	return (Number(weight) / Number(weightPrecision)).toString()
+}
+
+function formatTimestamp(timestamp: bigint): string {
+	return new Date(Number(timestamp) * 1000).toISOString()
+}
+
+function withStakingParams(name: string, description: string) {
+	return task(name, description)
+		.addOptionalParam("address", "MagicWorldStaking address (defaults to the network deployment)")
+		.addFlag("dryRun", "Print the calldata instead of sending the transaction")
+}
+
+task("staking:status", "Prints the state of the staking contract")
+	.addOptionalParam("address", "MagicWorldStaking address (defaults to the network deployment)")
+	.addOptionalParam("fromBlock", "Block to start scanning role events from (default: the staking deployment block)", undefined, types.int)
+	.addOptionalParam("batchSize", "Blocks per eth_getLogs request", 2000, types.int)
+	.setAction(async (args: { address?: string; fromBlock?: number; batchSize: number }, hre) => {
+		const { ethers } = hre
+		if (args.batchSize <= 0) throw new PreflightError("Invalid batch size")
+		const staking = await getStaking(hre, args.address)
+		const fromBlock = args.fromBlock ?? (await getDeploymentBlock(hre, "MagicWorldStaking", await staking.getAddress()))
+		const now = await latestTimestamp(hre)
+
+		console.log(`MagicWorldStaking ${await staking.getAddress()} on ${hre.network.name}`)
+		for (const role of Object.keys(STAKING_ROLES) as StakingRole[]) {
+			const members = await getRoleMembers(hre, staking, await getRoleId(staking, role), fromBlock, args.batchSize)
+			console.log(`  ${`${role}:`.padEnd(24)} ${members.length === 0 ? "none" : members.join(", ")}`)
+		}
+		console.log(`  paused:                  ${await staking.paused()}`)
+		console.log(`  emergency mode:          ${await staking.emergencyMode()}`)
+		const votesToken = await staking.votesToken()
+		if (votesToken !== ethers.ZeroAddress) {
+			console.log(`  receipt token:           ${await staking.receiptToken()} for stakes of ${votesToken}`)
+		}
+
+		const rewardCount = await staking.getRewardTokensCount()
+		console.log(`  reward tokens:           ${rewardCount}`)
+		for (let i = 0n; i < rewardCount; i++) {
+			const rewardToken = await getToken(hre, await staking.rewardTokens(i))
+			const rewardSymbol = await rewardToken.symbol()
+			const rewardDecimals = await rewardToken.decimals()
+			const data = await staking.rewardData(await rewardToken.getAddress())
+			console.log(`    ${rewardSymbol} ${await rewardToken.getAddress()}${i === 0n ? " (main)" : ""}`)
+			console.log(`      balance:             ${ethers.formatUnits(await rewardToken.balanceOf(await staking.getAddress()), rewardDecimals)}`)
+			console.log(`      allocated rewards:   ${ethers.formatUnits(data.totalAllocatedRewards, rewardDecimals)}`)
+			console.log(`      reward rate:         ${ethers.formatUnits(data.rewardRate, rewardDecimals)} ${rewardSymbol}/s`)
+			console.log(`      rewards duration:    ${data.rewardsDuration}s`)
+			console.log(
+				`      period finish:       ${new Date(Number(data.periodFinish) * 1000).toISOString()}` +
+					(data.periodFinish > now ? ` (${data.periodFinish - now}s left)` : " (complete)")
+			)
+			const current = await staking.getCurrentEpoch(await rewardToken.getAddress())
+			if (current.active) {
+				console.log(
+					`      current epoch:       #${current.epochId}, ${ethers.formatUnits(current.epoch.amount, rewardDecimals)} ${rewardSymbol} ` +
+						`until ${formatTimestamp(current.epoch.start + current.epoch.duration)}`
+				)
+			}
+			const [firstEpochId, upcoming] = await staking.getUpcomingEpochs(await rewardToken.getAddress())
+			upcoming.forEach((epoch, i) => {
+				const amount = epoch.amount === 0n ? "cancelled" : `${ethers.formatUnits(epoch.amount, rewardDecimals)} ${rewardSymbol}`
+				console.log(
+					`      upcoming epoch:      #${firstEpochId + BigInt(i)}, ${amount} ` +
+						`from ${formatTimestamp(epoch.start)} for ${epoch.duration}s`
+				)
+			})
+		}
+		console.log(`  total normalized staked: ${ethers.formatEther(await staking.totalNormalizedStaked())}`)
+		console.log(`  total weighted staked:   ${ethers.formatEther(await staking.totalWeightedStaked())}`)
+
+		const weightPrecision = await staking.WEIGHT_PRECISION()
+		const count = await staking.getWhitelistedTokensCount()
+		console.log(`  whitelisted tokens:      ${count}`)
+		for (let i = 0n; i < count; i++) {
+			const tokenAddress = await staking.getWhitelistedTokenAtIndex(i)
+			const token = await getToken(hre, tokenAddress)
+			const info = await staking.whitelistedTokens(tokenAddress)
+			console.log(
+				`    ${await token.symbol()} ${tokenAddress}: min stake ${info.minStakeDuration}s, ` +
+					`weight ${formatWeight(info.weight, weightPrecision)}x, ${TOKEN_MODES[Number(info.mode)]}, ` +
+					`total staked ${ethers.formatEther(info.totalStaked)} (normalized)`
+			)
+		}
+
+		const tierCount = await staking.getLockTiersCount()
+		console.log(`  lock tiers:              ${tierCount}`)
+		for (let i = 0n; i < tierCount; i++) {
+			const tier = await staking.lockTiers(i)
+			console.log(
+				`    #${i}: ${tier.duration}s, boost ${formatWeight(tier.boost, weightPrecision)}x` +
+					(tier.enabled ? "" : " (disabled)")
+			)
+		}
+	})
+
+withStakingParams("staking:add-token", "Whitelists a token for staking")
+	.addParam("token", "Token address")
+	.addParam("minDuration", "Minimum stake duration in seconds", undefined, types.int)
+	.addOptionalParam("mode", `Token behaviour: ${TOKEN_MODES.join(", ")}`, "standard")
+	.setAction(async (args: StakingTaskArgs & { token: string; minDuration: number; mode: string }, hre) => {
+		const staking = await getStaking(hre, args.address)
+		await assertRole(hre, staking, "token-manager", args.dryRun)
+
+		const token = await getToken(hre, args.token)
+		if (args.token === hre.ethers.ZeroAddress) throw new PreflightError("Invalid token address")
+		if ((await staking.whitelistedTokens(args.token)).isWhitelisted) {
+			throw new PreflightError("Token already whitelisted")
+		}
+		if (args.minDuration <= 0) throw new PreflightError("Invalid stake duration")
+		if ((await token.decimals()) > 18n) throw new PreflightError("Token decimals exceed 18")
+
+		const mode = parseTokenMode(args.mode)
+		await assertTokenModeAllowed(staking, args.token, mode)
+
+		if (mode === 0) {
+			await sendOrPrint(hre, staking, "addToken", [args.token, args.minDuration], args.dryRun)
+		} else {
+			await sendOrPrint(hre, staking, "addTokenWithMode", [args.token, args.minDuration, mode], args.dryRun)
+		}
+	})
+
+withStakingParams("staking:set-token-mode", "Declares whether a token charges transfer fees or rebases")
+	.addParam("token", "Token address")
+	.addParam("mode", `Token behaviour: ${TOKEN_MODES.join(", ")}`)
+	.setAction(async (args: StakingTaskArgs & { token: string; mode: string }, hre) => {
+		const staking = await getStaking(hre, args.address)
+		await assertRole(hre, staking, "token-manager", args.dryRun)
+
+		await assertWhitelisted(staking, args.token)
+		const mode = parseTokenMode(args.mode)
+		await assertTokenModeAllowed(staking, args.token, mode)
+		const info = await staking.whitelistedTokens(args.token)
+		if (TOKEN_MODES[Number(info.mode)] === "rebasing" && mode !== Number(info.mode) && info.totalStaked > 0n) {
+			throw new PreflightError("Token still has stakes")
+		}
+
+		await sendOrPrint(hre, staking, "setTokenMode", [args.token, mode], args.dryRun)
+	})
+
+withStakingParams("staking:remove-token", "Removes a token from the whitelist")
+	.addParam("token", "Token address")
+	.setAction(async (args: StakingTaskArgs & { token: string }, hre) => {
+		const staking = await getStaking(hre, args.address)
+		await assertRole(hre, staking, "token-manager", args.dryRun)
+
+		await assertWhitelisted(staking, args.token)
+		if ((await staking.whitelistedTokens(args.token)).totalStaked > 0n) {
+			throw new PreflightError("Token still has stakes")
+		}
+
+		await sendOrPrint(hre, staking, "removeToken", [args.token], args.dryRun)
+	})
+
+withStakingParams("staking:update-min-duration", "Updates the minimum stake duration of a token")
+	.addParam("token", "Token address")
+	.addParam("duration", "New minimum stake duration in seconds", undefined, types.int)
+	.setAction(async (args: StakingTaskArgs & { token: string; duration: number }, hre) => {
+		const staking = await getStaking(hre, args.address)
+		await assertRole(hre, staking, "token-manager", args.dryRun)
+
+		await assertWhitelisted(staking, args.token)
+		if (args.duration <= 0) throw new PreflightError("Invalid stake duration")
+
+		await sendOrPrint(hre, staking, "updateMinStakeDuration", [args.token, args.duration], args.dryRun)
+	})
+
+withStakingParams("staking:set-weight", "Sets the reward weight of one or more tokens")
+	.addParam("token", "Token address, or a comma-separated list")
+	.addParam("weight", "Reward multiplier, e.g. 1.5, or a comma-separated list matching --token")
+	.setAction(async (args: StakingTaskArgs & { token: string; weight: string }, hre) => {
+		const staking = await getStaking(hre, args.address)
+		await assertRole(hre, staking, "token-manager", args.dryRun)
+
+		const tokens = args.token.split(",").map((token) => token.trim())
+		const weightInputs = args.weight.split(",").map((weight) => weight.trim())
+		if (tokens.length !== weightInputs.length) throw new PreflightError("Array length mismatch")
+
+		const maxWeight = await staking.MAX_WEIGHT()
+		const weightPrecision = await staking.WEIGHT_PRECISION()
+		const weights: bigint[] = []
+		for (const [i, token] of tokens.entries()) {
+			await assertWhitelisted(staking, token)
+			let weight: bigint
+			try {
+				weight = hre.ethers.parseUnits(weightInputs[i], WEIGHT_DECIMALS)
+			} catch {
+				throw new PreflightError(`Invalid weight: ${weightInputs[i]}`)
+			}
+			if (weight > maxWeight) throw new PreflightError("Weight too high")
+
+			const current = (await staking.whitelistedTokens(token)).weight
+			console.log(`${token}: ${formatWeight(current, weightPrecision)}x -> ${formatWeight(weight, weightPrecision)}x`)
+			weights.push(weight)
+		}
+
+		if (tokens.length === 1) {
+			await sendOrPrint(hre, staking, "setTokenWeight", [tokens[0], weights[0]], args.dryRun)
+		} else {
+			await sendOrPrint(hre, staking, "setTokenWeights", [tokens, weights], args.dryRun)
+		}
+	})
+
+withStakingParams("staking:add-lock-tier", "Adds a lock tier for locked stake positions")
+	.addParam("duration", "Lock duration in seconds", undefined, types.int)
+	.addParam("boost", "Reward multiplier, e.g. 1.5")
+	.setAction(async (args: StakingTaskArgs & { duration: number; boost: string }, hre) => {
+		const staking = await getStaking(hre, args.address)
+		await assertRole(hre, staking, "admin", args.dryRun)
+
+		if (args.duration <= 0 || BigInt(args.duration) > (await staking.MAX_LOCK_DURATION())) {
+			throw new PreflightError("Invalid lock duration")
+		}
+		let boost: bigint
+		try {
+			boost = hre.ethers.parseUnits(args.boost, WEIGHT_DECIMALS)
+		} catch {
+			throw new PreflightError(`Invalid boost: ${args.boost}`)
+		}
+		if (boost < (await staking.WEIGHT_PRECISION()) || boost > (await staking.MAX_BOOST())) {
+			throw new PreflightError("Invalid boost")
+		}
+
+		await sendOrPrint(hre, staking, "addLockTier", [args.duration, boost], args.dryRun)
+	})
+
+withStakingParams("staking:set-lock-tier-enabled", "Enables or disables a lock tier for new positions")
+	.addParam("tier", "Lock tier id", undefined, types.int)
+	.addParam("enabled", "Whether new positions may use the tier", undefined, types.boolean)
+	.setAction(async (args: StakingTaskArgs & { tier: number; enabled: boolean }, hre) => {
+		const staking = await getStaking(hre, args.address)
+		await assertRole(hre, staking, "admin", args.dryRun)
+
+		if (args.tier < 0 || BigInt(args.tier) >= (await staking.getLockTiersCount())) {
+			throw new PreflightError("Invalid lock tier")
+		}
+
+		await sendOrPrint(hre, staking, "setLockTierEnabled", [args.tier, args.enabled], args.dryRun)
+	})
+
+withStakingParams("staking:fund", "Funds rewards, approving the reward token if needed")
+	.addParam("amount", "Amount of reward tokens, e.g. 1000.5")
+	.addOptionalParam("reward", "Reward token to fund (defaults to the main reward token)")
+	.setAction(async (args: StakingTaskArgs & { amount: string; reward?: string }, hre) => {
+		const staking = await getStaking(hre, args.address)
+		await assertRole(hre, staking, "reward-distributor", args.dryRun)
+
+		const stakingAddress = await staking.getAddress()
+		const { rewardToken, isMain } = await getRewardToken(hre, staking, args.reward)
+		const amount = hre.ethers.parseUnits(args.amount, await rewardToken.decimals())
+		if (amount === 0n) throw new PreflightError("Cannot fund with 0 tokens")
+
+		const signer = await (await getTaskSigner(hre)).getAddress()
+		if (!args.dryRun && (await rewardToken.balanceOf(signer)) < amount) {
+			throw new PreflightError(`Signer ${signer} holds less than ${args.amount} reward tokens`)
+		}
+
+		// Mirrors the "Reward rate too high" check, assuming the full amount is received,
+		// against the period of any epoch that starts before the funding
+		const now = (await latestTimestamp(hre)) + 1n
+		const { periodFinish, rewardRate, rewardsDuration } = await currentRewardData(
+			staking,
+			await rewardToken.getAddress(),
+			now
+		)
+		const leftover = now < periodFinish ? (periodFinish - now) * rewardRate : 0n
+		const newRate = (leftover + amount) / rewardsDuration
+		if (newRate === 0n) throw new PreflightError("Reward rate is zero")
+		const balanceAfter = (await rewardToken.balanceOf(stakingAddress)) + amount
+		if (newRate > balanceAfter / rewardsDuration) {
+			throw new PreflightError("Reward rate too high")
+		}
+
+		// Mirrors the "Overlaps a scheduled epoch" check, which passes over cancelled epochs
+		const [firstEpochId, upcoming] = await staking.getUpcomingEpochs(await rewardToken.getAddress())
+		const nextEpoch = upcoming.findIndex((epoch) => epoch.amount > 0n)
+		if (nextEpoch >= 0 && now + rewardsDuration > upcoming[nextEpoch].start) {
+			throw new PreflightError(
+				`Overlaps scheduled epoch #${firstEpochId + BigInt(nextEpoch)}, which starts at ` +
+					formatTimestamp(upcoming[nextEpoch].start)
+			)
+		}
+
+		if ((await rewardToken.allowance(signer, stakingAddress)) < amount) {
+			await sendOrPrint(hre, rewardToken, "approve", [stakingAddress, amount], args.dryRun)
+		}
+		if (isMain) {
+			await sendOrPrint(hre, staking, "fundRewards", [amount], args.dryRun)
+		} else {
+			await sendOrPrint(hre, staking, "fundRewardToken", [await rewardToken.getAddress(), amount], args.dryRun)
+		}
+	})
+
+withStakingParams("staking:set-rewards-duration", "Sets the duration of the next reward period")
+	.addParam("duration", "Rewards duration in seconds", undefined, types.int)
+	.addOptionalParam("reward", "Reward token to update (defaults to the main reward token)")
+	.setAction(async (args: StakingTaskArgs & { duration: number; reward?: string }, hre) => {
+		const staking = await getStaking(hre, args.address)
+		await assertRole(hre, staking, "admin", args.dryRun)
+
+		const { rewardToken, isMain } = await getRewardToken(hre, staking, args.reward)
+		const rewardAddress = await rewardToken.getAddress()
+		if ((await latestTimestamp(hre)) + 1n <= (await staking.rewardData(rewardAddress)).periodFinish) {
+			throw new PreflightError("Previous rewards period must be complete")
+		}
+		if (args.duration <= 0) throw new PreflightError("Reward duration must be greater than zero")
+
+		if (isMain) {
+			await sendOrPrint(hre, staking, "setRewardsDuration", [args.duration], args.dryRun)
+		} else {
+			await sendOrPrint(hre, staking, "setRewardTokenDuration", [rewardAddress, args.duration], args.dryRun)
+		}
+	})
+
+withStakingParams("staking:schedule-epoch", "Schedules and funds a reward epoch starting at a given time")
+	.addParam("start", "Start of the epoch, a unix timestamp or a date such as 2026-03-01T00:00:00Z")
+	.addParam("duration", "Epoch duration in seconds", undefined, types.int)
+	.addParam("amount", "Amount of reward tokens distributed over the epoch, e.g. 1000.5")
+	.addOptionalParam("reward", "Reward token to distribute (defaults to the main reward token)")
+	.setAction(async (args: StakingTaskArgs & { start: string; duration: number; amount: string; reward?: string }, hre) => {
+		const staking = await getStaking(hre, args.address)
+		await assertRole(hre, staking, "reward-distributor", args.dryRun)
+
+		const { rewardToken } = await getRewardToken(hre, staking, args.reward)
+		const rewardAddress = await rewardToken.getAddress()
+		const stakingAddress = await staking.getAddress()
+		const start = parseTimestamp(args.start)
+		if (start === undefined) throw new PreflightError(`Invalid start: ${args.start}`)
+		const amount = hre.ethers.parseUnits(args.amount, await rewardToken.decimals())
+
+		// Mirrors RewardEpochs.schedule
+		if (start < (await latestTimestamp(hre)) + 1n) throw new PreflightError("Epoch must start in the future")
+		if (args.duration <= 0) throw new PreflightError("Epoch duration must be greater than zero")
+		if (amount === 0n) throw new PreflightError("Cannot fund with 0 tokens")
+		if (amount / BigInt(args.duration) === 0n) throw new PreflightError("Epoch reward rate is zero")
+		const periodFinish = (await staking.rewardData(rewardAddress)).periodFinish
+		if (start < periodFinish) {
+			throw new PreflightError(`Overlaps the current period, which ends at ${formatTimestamp(periodFinish)}`)
+		}
+		for (let i = await staking.getRewardEpochsCount(rewardAddress); i > 0n; i--) {
+			const last = await staking.rewardEpochs(rewardAddress, i - 1n)
+			if (last.amount === 0n) continue
+			if (start < last.start + last.duration) {
+				throw new PreflightError(
+					`Overlaps scheduled epoch #${i - 1n}, which ends at ${formatTimestamp(last.start + last.duration)}`
+				)
+			}
+			break
+		}
+
+		const signer = await (await getTaskSigner(hre)).getAddress()
+		if (!args.dryRun && (await rewardToken.balanceOf(signer)) < amount) {
+			throw new PreflightError(`Signer ${signer} holds less than ${args.amount} reward tokens`)
+		}
+		if ((await rewardToken.allowance(signer, stakingAddress)) < amount) {
+			await sendOrPrint(hre, rewardToken, "approve", [stakingAddress, amount], args.dryRun)
+		}
+		await sendOrPrint(hre, staking, "scheduleRewardEpoch", [rewardAddress, start, args.duration, amount], args.dryRun)
+	})
+
+withStakingParams("staking:cancel-epoch", "Cancels a reward epoch that hasn't started and refunds it to the signer")
+	.addParam("epoch", "Epoch id, as listed by staking:status", undefined, types.int)
+	.addOptionalParam("reward", "Reward token of the epoch (defaults to the main reward token)")
+	.setAction(async (args: StakingTaskArgs & { epoch: number; reward?: string }, hre) => {
+		const staking = await getStaking(hre, args.address)
+		await assertRole(hre, staking, "reward-distributor", args.dryRun)
+
+		const { rewardToken } = await getRewardToken(hre, staking, args.reward)
+		const rewardAddress = await rewardToken.getAddress()
+		if (args.epoch < 0 || BigInt(args.epoch) >= (await staking.getRewardEpochsCount(rewardAddress))) {
+			throw new PreflightError("Invalid epoch")
+		}
+		const epoch = await staking.rewardEpochs(rewardAddress, args.epoch)
+		if (epoch.start <= (await latestTimestamp(hre)) + 1n) throw new PreflightError("Epoch already started")
+		if (epoch.amount === 0n) throw new PreflightError("Epoch already cancelled")
+
+		await sendOrPrint(hre, staking, "cancelRewardEpoch", [rewardAddress, args.epoch], args.dryRun)
+	})
+
+withStakingParams("staking:add-reward-token", "Adds a reward token paid alongside the main rewards")
+	.addParam("token", "Reward token address")
+	.addParam("duration", "Rewards duration of the token in seconds", undefined, types.int)
+	.setAction(async (args: StakingTaskArgs & { token: string; duration: number }, hre) => {
+		const staking = await getStaking(hre, args.address)
+		await assertRole(hre, staking, "admin", args.dryRun)
+
+		await getToken(hre, args.token)
+		if (args.token === hre.ethers.ZeroAddress) throw new PreflightError("Invalid reward token")
+		if ((await staking.rewardData(args.token)).rewardsDuration > 0n) {
+			throw new PreflightError("Reward token already added")
+		}
+		if ((await staking.getRewardTokensCount()) >= (await staking.MAX_REWARD_TOKENS())) {
+			throw new PreflightError("Too many reward tokens")
+		}
+		if (args.duration <= 0) throw new PreflightError("Reward duration must be greater than zero")
+
+		await sendOrPrint(hre, staking, "addRewardToken", [args.token, args.duration], args.dryRun)
+	})
+
+withStakingParams("staking:set-keeper", "Allows or disallows an account to auto-compound for stakers")
+	.addParam("keeper", "Keeper address")
+	.addParam("enabled", "Whether the account is a keeper", undefined, types.boolean)
+	.setAction(async (args: StakingTaskArgs & { keeper: string; enabled: boolean }, hre) => {
+		const staking = await getStaking(hre, args.address)
+		await assertRole(hre, staking, "admin", args.dryRun)
+
+		if (!hre.ethers.isAddress(args.keeper) || args.keeper === hre.ethers.ZeroAddress) {
+			throw new PreflightError("Invalid keeper")
+		}
+
+		await sendOrPrint(hre, staking, "setKeeper", [args.keeper, args.enabled], args.dryRun)
+	})
+
+withStakingParams("staking:grant-role", "Grants a staking role to an account")
+	.addParam("role", `Role to grant: ${Object.keys(STAKING_ROLES).join(", ")}`)
+	.addParam("account", "Account to grant the role to")
+	.setAction(async (args: StakingTaskArgs & { role: string; account: string }, hre) => {
+		const staking = await getStaking(hre, args.address)
+		const role = parseRole(args.role)
+		// The admin role administers every role, itself included
+		await assertRole(hre, staking, "admin", args.dryRun)
+		if (!hre.ethers.isAddress(args.account)) throw new PreflightError(`Invalid account: ${args.account}`)
+		const roleId = await getRoleId(staking, role)
+		if (await staking.hasRole(roleId, args.account)) {
+			throw new PreflightError(`${args.account} already has the ${role} role`)
+		}
+
+		await sendOrPrint(hre, staking, "grantRole", [roleId, args.account], args.dryRun)
+	})
+
+withStakingParams("staking:revoke-role", "Revokes a staking role from an account")
+	.addParam("role", `Role to revoke: ${Object.keys(STAKING_ROLES).join(", ")}`)
+	.addParam("account", "Account to revoke the role from")
+	.setAction(async (args: StakingTaskArgs & { role: string; account: string }, hre) => {
+		const staking = await getStaking(hre, args.address)
+		const role = parseRole(args.role)
+		await assertRole(hre, staking, "admin", args.dryRun)
+		if (!hre.ethers.isAddress(args.account)) throw new PreflightError(`Invalid account: ${args.account}`)
+		const roleId = await getRoleId(staking, role)
+		if (!(await staking.hasRole(roleId, args.account))) {
+			throw new PreflightError(`${args.account} doesn't have the ${role} role`)
+		}
+
+		await sendOrPrint(hre, staking, "revokeRole", [roleId, args.account], args.dryRun)
+	})
+
+task("staking:migrate", "Writes a proposal spec copying the settings of an Ownable staking deployment to this one")
+	.addParam("from", "Address of the previous, Ownable, MagicWorldStaking")
+	.addOptionalParam("address", "MagicWorldStaking address to migrate to (defaults to the network deployment)")
+	.addOptionalParam("out", "Where to write the proposal spec", "proposals/migrate-staking.yaml")
+	.setAction(async (args: { from: string; address?: string; out: string }, hre) => {
+		const { ethers } = hre
+		const staking = await getStaking(hre, args.address)
+		const stakingAddress = await staking.getAddress()
+		if (!ethers.isAddress(args.from)) throw new PreflightError(`Invalid address: ${args.from}`)
+		if (ethers.getAddress(args.from) === stakingAddress) {
+			throw new PreflightError("The previous deployment must differ from the one to migrate to")
+		}
+		const previous = new ethers.Contract(args.from, OWNABLE_STAKING_ABI, ethers.provider)
+		let owner: string
+		try {
+			owner = await previous.owner()
+			await previous.getWhitelistedTokensCount()
+		} catch {
+			throw new PreflightError(`${args.from} is not an Ownable MagicWorldStaking`)
+		}
+		console.log(`Migrating the settings of ${args.from} (owned by ${owner}) to ${stakingAddress}`)
+
+		const actions: ProposalActionSpec[] = []
+		const call = (fn: string, fnArgs: unknown[], comment: string) => {
+			console.log(`  ${comment}`)
+			actions.push({ call: `MagicWorldStaking.${fn}`, address: stakingAddress, args: fnArgs })
+		}
+
+		// Whitelisted tokens and their minimum durations. The previous contract
+		// had no token modes or weights, so new tokens keep the standard mode and a 1x weight.
+		const tokenCount: bigint = await previous.getWhitelistedTokensCount()
+		for (let i = 0n; i < tokenCount; i++) {
+			const token: string = await previous.getWhitelistedTokenAtIndex(i)
+			const { minStakeDuration }: { minStakeDuration: bigint } = await previous.whitelistedTokens(token)
+			const current = await staking.whitelistedTokens(token)
+			if (!current.isWhitelisted) {
+				call("addToken", [token, minStakeDuration.toString()], `whitelist ${token}`)
+			} else if (current.minStakeDuration !== minStakeDuration) {
+				call("updateMinStakeDuration", [token, minStakeDuration.toString()], `set the min stake of ${token} to ${minStakeDuration}s`)
+			}
+		}
+
+		// The reward token is set at deployment and durations only change between periods, so differences are reported
+		const mainReward: string = await previous.rewardToken()
+		if (mainReward !== (await staking.rewardToken())) {
+			console.log(`  Note: the main reward token differs, ${mainReward} before`)
+		}
+		const duration: bigint = await previous.rewardsDuration()
+		const currentDuration = await staking.rewardsDuration()
+		if (duration !== currentDuration) {
+			console.log(`  Note: the rewards duration was ${duration}s, it is ${currentDuration}s now`)
+		}
+
+		if (actions.length === 0) {
+			console.log("Nothing to migrate, the settings already match")
+			return
+		}
+		const spec: ProposalSpec = {
+			description: `Copy the staking settings of ${args.from} to ${stakingAddress}`,
+			actions,
+		}
+		fs.mkdirSync(path.dirname(args.out), { recursive: true })
+		fs.writeFileSync(args.out, yaml.dump(spec))
+		console.log(`Wrote ${actions.length} actions to ${args.out}`)
+		console.log(`  Submit with: npx hardhat gov:propose --spec ${args.out} --network ${hre.network.name}`)
+		console.log("  Stakes, rewards and stMAGIC receipts stay with the previous deployment, stakers move them by unstaking and staking again.")
+	})
+
+withStakingParams("staking:auto-compound", "Compounds the rewards of every opted-in staker, in batches (keepers only)")
+	.addOptionalParam("batchSize", "Accounts per transaction", 50, types.int)
+	.addOptionalParam("fromBlock", "Block to start scanning AutoCompoundSet events from", 0, types.int)
+	.setAction(async (args: StakingTaskArgs & { batchSize: number; fromBlock: number }, hre) => {
+		const staking = await getStaking(hre, args.address)
+
+		const keeper = await (await getTaskSigner(hre)).getAddress()
+		if (!(await staking.keepers(keeper)) && !args.dryRun) {
+			throw new PreflightError(`Signer ${keeper} is not a keeper`)
+		}
+		if (await staking.paused()) throw new PreflightError("Staking is paused")
+		if (!(await staking.whitelistedTokens(await staking.rewardToken())).isWhitelisted) {
+			throw new PreflightError("Reward token not whitelisted")
+		}
+		if (args.batchSize <= 0) throw new PreflightError("Invalid batch size")
+
+		// Opt-ins are only visible through events; the current flag decides
+		const events = await staking.queryFilter(staking.filters.AutoCompoundSet(), args.fromBlock)
+		const candidates = [...new Set(events.map((event) => event.args.user))]
+		const accounts: string[] = []
+		for (const account of candidates) {
+			if ((await staking.autoCompound(account)) && (await staking.getPendingRewards(account)) > 0n) {
+				accounts.push(account)
+			}
+		}
+		console.log(`${accounts.length} of ${candidates.length} opted-in stakers have rewards to compound`)
+
+		for (let i = 0; i < accounts.length; i += args.batchSize) {
+			await sendOrPrint(hre, staking, "compoundFor", [accounts.slice(i, i + args.batchSize)], args.dryRun)
+		}
+	})
+
+withStakingParams("staking:set-emergency-mode", "Turns emergency exits on or off")
+	.addParam("enabled", "Whether emergency mode is active", undefined, types.boolean)
+	.setAction(async (args: StakingTaskArgs & { enabled: boolean }, hre) => {
+		const staking = await getStaking(hre, args.address)
+		await assertRole(hre, staking, "admin", args.dryRun)
+		if ((await staking.emergencyMode()) === args.enabled) throw new PreflightError("Emergency mode unchanged")
+
+		await sendOrPrint(hre, staking, "setEmergencyMode", [args.enabled], args.dryRun)
+	})
+
+withStakingParams("staking:pause", "Pauses staking and reward claims").setAction(
+	async (args: StakingTaskArgs, hre) => {
+		const staking = await getStaking(hre, args.address)
+		await assertRole(hre, staking, "pauser", args.dryRun)
+		if (await staking.paused()) throw new PreflightError("Staking is already paused")
+
+		await sendOrPrint(hre, staking, "pause", [], args.dryRun)
+	}
+)
+
+withStakingParams("staking:unpause", "Unpauses staking and reward claims").setAction(
+	async (args: StakingTaskArgs, hre) => {
+		const staking = await getStaking(hre, args.address)
+		await assertRole(hre, staking, "admin", args.dryRun)
+		if (!(await staking.paused())) throw new PreflightError("Staking is not paused")
+
+		await sendOrPrint(hre, staking, "unpause", [], args.dryRun)
+	}
+)
+
+withStakingParams("staking:emergency-withdraw", "Withdraws reward tokens not allocated to stakers").setAction(
+	async (args: StakingTaskArgs, hre) => {
+		const staking = await getStaking(hre, args.address)
+		await assertRole(hre, staking, "admin", args.dryRun)
+
+		let hasExcess = false
+		const now = (await latestTimestamp(hre)) + 1n
+		const rewardCount = await staking.getRewardTokensCount()
+		for (let i = 0n; i < rewardCount; i++) {
+			const rewardToken = await getToken(hre, await staking.rewardTokens(i))
+			const balance = await rewardToken.balanceOf(await staking.getAddress())
+			const rewardAddress = await rewardToken.getAddress()
+			// Staked principal of a whitelisted reward token is never excess
+			const decimals = await rewardToken.decimals()
+			const principal = (await staking.whitelistedTokens(rewardAddress)).totalStaked / 10n ** (18n - decimals)
+			// The allocation as of the withdrawal, once due epochs have started
+			const { totalAllocatedRewards } = await currentRewardData(staking, rewardAddress, now)
+			const allocated = totalAllocatedRewards + principal
+			const excess = balance > allocated ? balance - allocated : 0n
+			if (excess > 0n) {
+				hasExcess = true
+				console.log(`Excess ${await rewardToken.symbol()}: ${hre.ethers.formatUnits(excess, decimals)}`)
+			}
+		}
+		if (!hasExcess) throw new PreflightError("No excess rewards to withdraw")
+
+		await sendOrPrint(hre, staking, "emergencyWithdrawRewards", [], args.dryRun)
+	}
+)
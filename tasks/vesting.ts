@@ -0,0 +1,235 @@
+import { task, types } from "hardhat/config"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+import type { MagicWorldVestingFactory } from "../typechain-types"
+import {
+	getTaskSigner,
+	latestTimestamp,
+	parseTimestamp,
+	PreflightError,
+	readCsv,
+	resolveAddress,
+	sendOrPrint,
+} from "./helpers"
+
+const DAY = 86400n
+const CSV_COLUMNS = ["beneficiary", "amount", "start", "cliffDays", "durationDays", "revocable"]
+
+interface VestingSchedule {
+	beneficiary: string
+	amount: bigint
+	start: bigint
+	cliffDuration: bigint
+	duration: bigint
+	revocable: boolean
+}
+
+async function getVestingFactory(hre: HardhatRuntimeEnvironment, address?: string): Promise<MagicWorldVestingFactory> {
+	const factoryAddress = await resolveAddress(
+		hre,
+		"MagicWorldVestingFactory",
+		"MagicWorldVestingModule#MagicWorldVestingFactory",
+		address
+	)
+	return hre.ethers.getContractAt("MagicWorldVestingFactory", factoryAddress)
+}
+
+function parseDays(value: string): bigint | undefined {
+	if (!/^\d+(\.\d+)?$/.test(value)) return undefined
+	return BigInt(Math.round(Number(value) * Number(DAY)))
+}
+
+/**
+ * Reads vesting schedules from a CSV file with the columns
+ * beneficiary,amount,start,cliffDays,durationDays,revocable. Amounts are in
+ * MAGIC, e.g. 1000.5. Blank lines and lines starting with # are skipped.
+ */
+function loadSchedulesCsv(hre: HardhatRuntimeEnvironment, file: string): VestingSchedule[] {
+	return readCsv(file, CSV_COLUMNS).map(({ line, cells }) => {
+		const fail = (message: string) => new PreflightError(`${file}:${line}: ${message}`)
+		const [beneficiary, amount, start, cliffDays, durationDays, revocable] = cells
+
+		if (!hre.ethers.isAddress(beneficiary) || beneficiary === hre.ethers.ZeroAddress) {
+			throw fail(`invalid beneficiary ${beneficiary}`)
+		}
+		let parsedAmount: bigint
+		try {
+			parsedAmount = hre.ethers.parseEther(amount)
+		} catch {
+			throw fail(`invalid amount ${amount}`)
+		}
+		if (parsedAmount === 0n) throw fail("amount must be greater than 0")
+
+		const parsedStart = parseTimestamp(start)
+		if (parsedStart === undefined) throw fail(`invalid start ${start}`)
+		const cliffDuration = parseDays(cliffDays)
+		if (cliffDuration === undefined) throw fail(`invalid cliffDays ${cliffDays}`)
+		const duration = parseDays(durationDays)
+		if (duration === undefined || duration === 0n) throw fail(`invalid durationDays ${durationDays}`)
+		// Mirrors VestingInvalidSchedule
+		if (cliffDuration > duration) throw fail("the cliff can't be longer than the vesting duration")
+		if (!["true", "false"].includes(revocable.toLowerCase())) {
+			throw fail(`revocable must be true or false, got ${revocable}`)
+		}
+
+		return {
+			beneficiary: hre.ethers.getAddress(beneficiary),
+			amount: parsedAmount,
+			start: parsedStart,
+			cliffDuration,
+			duration,
+			revocable: revocable.toLowerCase() === "true",
+		}
+	})
+}
+
+function formatDate(timestamp: bigint): string {
+	return new Date(Number(timestamp) * 1000).toISOString().replace(".000Z", "Z")
+}
+
+// Whole days as such, anything else with its exact number of seconds
+function formatDays(seconds: bigint): string {
+	if (seconds % DAY === 0n) return `${seconds / DAY}d`
+	return `${Number((Number(seconds) / Number(DAY)).toFixed(4))}d (${seconds}s)`
+}
+
+/**
+ * Prints every vesting wallet of the factory with what has vested so far,
+ * grouped by beneficiary
+ * @param beneficiaries Only report these beneficiaries
+ */
+async function printVestingReport(
+	hre: HardhatRuntimeEnvironment,
+	factory: MagicWorldVestingFactory,
+	beneficiaries?: string[]
+) {
+	const { ethers } = hre
+	const magic = await ethers.getContractAt("MagicWorldGovernanceToken", await factory.token())
+	const now = await latestTimestamp(hre)
+
+	const wallets = new Map<string, string[]>()
+	if (beneficiaries) {
+		for (const beneficiary of beneficiaries) {
+			wallets.set(beneficiary, [...(await factory.getBeneficiaryWallets(beneficiary))])
+		}
+	} else {
+		for (const walletAddress of await factory.getVestingWallets()) {
+			const beneficiary = await (await ethers.getContractAt("MagicWorldVestingWallet", walletAddress)).beneficiary()
+			wallets.set(beneficiary, [...(wallets.get(beneficiary) ?? []), walletAddress])
+		}
+	}
+
+	console.log(`Vesting on ${hre.network.name} at ${formatDate(now)} (factory ${await factory.getAddress()})`)
+	if (wallets.size === 0) {
+		console.log("  no vesting schedules")
+		return
+	}
+
+	for (const [beneficiary, walletAddresses] of wallets) {
+		let allocated = 0n
+		let vested = 0n
+		let released = 0n
+		console.log(`${beneficiary}`)
+		for (const walletAddress of walletAddresses) {
+			const wallet = await ethers.getContractAt("MagicWorldVestingWallet", walletAddress)
+			const walletReleased = await wallet.released()
+			const walletAllocated = (await magic.balanceOf(walletAddress)) + walletReleased
+			const walletVested = await wallet.vestedAmount(now)
+			allocated += walletAllocated
+			vested += walletVested
+			released += walletReleased
+
+			const flags = [(await wallet.revocable()) ? "revocable" : "", (await wallet.revoked()) ? "revoked" : ""]
+			const flagList = flags.filter(Boolean).join(", ")
+			console.log(`  wallet ${walletAddress}${flagList ? ` (${flagList})` : ""}`)
+			console.log(
+				`    schedule:  ${formatDate(await wallet.start())}, cliff ${formatDate(await wallet.cliff())}, end ${formatDate(await wallet.end())}`
+			)
+			console.log(
+				`    vested:    ${ethers.formatEther(walletVested)} of ${ethers.formatEther(walletAllocated)} MAGIC (${ethers.formatEther(walletReleased)} released)`
+			)
+			console.log(`    delegate:  ${await magic.delegates(walletAddress)}`)
+		}
+		console.log(
+			`  total: ${ethers.formatEther(vested)} of ${ethers.formatEther(allocated)} MAGIC vested, ${ethers.formatEther(vested - released)} releasable`
+		)
+	}
+}
+
+task("vesting:create", "Creates and funds the MAGIC vesting schedules listed in a CSV file")
+	.addParam("csv", "CSV file with beneficiary,amount,start,cliffDays,durationDays,revocable rows")
+	.addOptionalParam("batchSize", "Schedules created per transaction", 20, types.int)
+	.addOptionalParam("address", "MagicWorldVestingFactory address (defaults to the network deployment)")
+	.addFlag("dryRun", "Print the calldata instead of sending the transactions")
+	.setAction(async (args: { csv: string; batchSize: number; address?: string; dryRun: boolean }, hre) => {
+		const { ethers } = hre
+		const schedules = loadSchedulesCsv(hre, args.csv)
+		if (schedules.length === 0) throw new PreflightError(`No vesting schedules in ${args.csv}`)
+		if (args.batchSize < 1) throw new PreflightError("--batch-size must be at least 1")
+
+		const factory = await getVestingFactory(hre, args.address)
+		const factoryAddress = await factory.getAddress()
+		const magic = await ethers.getContractAt("MagicWorldGovernanceToken", await factory.token())
+
+		const total = schedules.reduce((sum, schedule) => sum + schedule.amount, 0n)
+		console.log(`${schedules.length} vesting schedules, ${ethers.formatEther(total)} MAGIC in total`)
+		for (const schedule of schedules) {
+			console.log(
+				`  ${schedule.beneficiary} ${ethers.formatEther(schedule.amount)} MAGIC from ${formatDate(schedule.start)}, cliff ${formatDays(schedule.cliffDuration)}, duration ${formatDays(schedule.duration)}${schedule.revocable ? ", revocable" : ""}`
+			)
+		}
+
+		const signer = await (await getTaskSigner(hre)).getAddress()
+		if (!args.dryRun && (await magic.balanceOf(signer)) < total) {
+			throw new PreflightError(`Signer ${signer} holds less than ${ethers.formatEther(total)} MAGIC`)
+		}
+		if ((await magic.allowance(signer, factoryAddress)) < total) {
+			await sendOrPrint(hre, magic, "approve", [factoryAddress, total], args.dryRun)
+		}
+
+		for (let i = 0; i < schedules.length; i += args.batchSize) {
+			await sendOrPrint(hre, factory, "createVestings", [schedules.slice(i, i + args.batchSize)], args.dryRun)
+		}
+		if (args.dryRun) return
+
+		const beneficiaries = [...new Set(schedules.map((schedule) => schedule.beneficiary))]
+		await printVestingReport(hre, factory, beneficiaries)
+	})
+
+task("vesting:status", "Reports what has vested so far for each beneficiary")
+	.addOptionalParam("beneficiary", "Comma separated beneficiaries to report (defaults to all)")
+	.addOptionalParam("address", "MagicWorldVestingFactory address (defaults to the network deployment)")
+	.setAction(async (args: { beneficiary?: string; address?: string }, hre) => {
+		const beneficiaries = args.beneficiary?.split(",").map((beneficiary) => {
+			if (!hre.ethers.isAddress(beneficiary.trim())) {
+				throw new PreflightError(`Invalid beneficiary address: ${beneficiary}`)
+			}
+			return hre.ethers.getAddress(beneficiary.trim())
+		})
+		await printVestingReport(hre, await getVestingFactory(hre, args.address), beneficiaries)
+	})
+
+task("vesting:revoke", "Revokes a revocable vesting schedule, refunding unvested MAGIC to the factory owner")
+	.addParam("wallet", "Vesting wallet to revoke")
+	.addOptionalParam("address", "MagicWorldVestingFactory address (defaults to the network deployment)")
+	.addFlag("dryRun", "Print the calldata instead of sending the transaction, e.g. for a governance proposal")
+	.setAction(async (args: { wallet: string; address?: string; dryRun: boolean }, hre) => {
+		const factory = await getVestingFactory(hre, args.address)
+		if (!hre.ethers.isAddress(args.wallet) || !(await factory.isVestingWallet(args.wallet))) {
+			throw new PreflightError(`Not a vesting wallet of this factory: ${args.wallet}`)
+		}
+		const wallet = await hre.ethers.getContractAt("MagicWorldVestingWallet", args.wallet)
+		if (!(await wallet.revocable())) throw new PreflightError("Vesting schedule is not revocable")
+		if (await wallet.revoked()) throw new PreflightError("Vesting schedule is already revoked")
+
+		const owner = await factory.owner()
+		const signer = await (await getTaskSigner(hre)).getAddress()
+		if (owner !== signer) {
+			if (!args.dryRun) {
+				throw new PreflightError(
+					`Signer ${signer} is not the factory owner (${owner}). Use --dry-run to get the calldata for a governance proposal.`
+				)
+			}
+			console.log(`Note: ${signer} is not the owner (${owner}); submit the calldata from the owner.`)
+		}
+		await sendOrPrint(hre, factory, "revoke", [args.wallet], args.dryRun)
+	})
@@ -0,0 +1,172 @@
+import { expect } from "chai";
+import { deployments, ethers, getNamedAccounts } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MagicWorldAirdrop, MagicWorldGovernanceToken } from "../typechain-types";
+
+const CLAIM_PERIOD = 30 * 86400;
+
+describe("Airdrop", () => {
+    const setupFixture = deployments.createFixture(async () => {
+        await deployments.fixture(["governance"]);
+        const signers = await getNamedAccounts();
+        const accounts = await ethers.getSigners();
+        const owner = await ethers.getSigner(signers.deployer);
+
+        const token = await ethers.getContractAt(
+            "MagicWorldGovernanceToken",
+            (await deployments.get("MagicWorldGovernanceToken")).address,
+            owner
+        ) as MagicWorldGovernanceToken;
+
+        // Players 1 to 4 get 100, 200, 300 and 400 MAGIC
+        const players = accounts.slice(1, 5);
+        const allocations = players.map((player, i) => [player.address, ethers.parseEther(`${(i + 1) * 100}`).toString()]);
+        const tree = StandardMerkleTree.of(allocations, ["address", "uint256"]);
+        const total = ethers.parseEther("1000");
+
+        const deadline = (await time.latest()) + CLAIM_PERIOD;
+        const airdrop = await ethers.deployContract(
+            "MagicWorldAirdrop",
+            [await token.getAddress(), tree.root, deadline],
+            owner
+        ) as MagicWorldAirdrop;
+        await token.mint(await airdrop.getAddress(), total);
+
+        return { token, airdrop, tree, total, deadline, players, accounts, owner };
+    });
+
+    function proofFor(tree: StandardMerkleTree<string[]>, account: string) {
+        for (const [i, [leafAccount, amount]] of tree.entries()) {
+            if (leafAccount === account) {
+                return { amount: BigInt(amount), proof: tree.getProof(i) };
+            }
+        }
+        throw new Error(`No allocation for ${account}`);
+    }
+
+    // Signs a MAGIC delegateBySig permit
+    async function signDelegation(token: MagicWorldGovernanceToken, delegator: HardhatEthersSigner, delegatee: string) {
+        const domain = {
+            name: await token.name(),
+            version: '1',
+            chainId: (await ethers.provider.getNetwork()).chainId,
+            verifyingContract: await token.getAddress()
+        };
+        const types = {
+            Delegation: [
+                { name: 'delegatee', type: 'address' },
+                { name: 'nonce', type: 'uint256' },
+                { name: 'expiry', type: 'uint256' }
+            ]
+        };
+        const nonce = await token.nonces(delegator.address);
+        const expiry = (await time.latest()) + 3600;
+        const signature = await delegator.signTypedData(domain, types, { delegatee, nonce, expiry });
+        const { v, r, s } = ethers.Signature.from(signature);
+        return { nonce, expiry, v, r, s };
+    }
+
+    describe("Claiming", () => {
+        it("Should pay each account its allocation once", async () => {
+            const { token, airdrop, tree, total, players, accounts } = await setupFixture();
+            const [player, other] = players;
+            const { amount, proof } = proofFor(tree, player.address);
+
+            expect(await airdrop.verify(player.address, amount, proof)).to.be.true;
+
+            // Anyone can submit the claim, the tokens go to the account in the tree
+            await expect(airdrop.connect(accounts[10]).claim(player.address, amount, proof))
+                .to.emit(airdrop, "Claimed")
+                .withArgs(player.address, amount);
+            expect(await token.balanceOf(player.address)).to.equal(amount);
+            expect(await airdrop.hasClaimed(player.address)).to.be.true;
+
+            await expect(airdrop.claim(player.address, amount, proof))
+                .to.be.revertedWithCustomError(airdrop, "AirdropAlreadyClaimed")
+                .withArgs(player.address);
+
+            // Another account's proof, or a different amount, does not verify
+            await expect(airdrop.claim(other.address, amount, proof))
+                .to.be.revertedWithCustomError(airdrop, "AirdropInvalidProof");
+            const otherClaim = proofFor(tree, other.address);
+            await expect(airdrop.claim(other.address, otherClaim.amount + 1n, otherClaim.proof))
+                .to.be.revertedWithCustomError(airdrop, "AirdropInvalidProof");
+            await airdrop.claim(other.address, otherClaim.amount, otherClaim.proof);
+            expect(otherClaim.amount).to.equal(ethers.parseEther("200"));
+            expect(await token.balanceOf(other.address)).to.equal(otherClaim.amount);
+            expect(await token.balanceOf(player.address)).to.equal(ethers.parseEther("100"));
+            expect(await token.balanceOf(await airdrop.getAddress()))
+                .to.equal(total - amount - otherClaim.amount);
+        });
+
+        it("Should close claims after the deadline and let the owner sweep the rest", async () => {
+            const { token, airdrop, tree, total, deadline, players, owner } = await setupFixture();
+            const { amount, proof } = proofFor(tree, players[0].address);
+            await airdrop.claim(players[0].address, amount, proof);
+
+            await expect(airdrop.sweep(owner.address))
+                .to.be.revertedWithCustomError(airdrop, "AirdropClaimNotEnded");
+
+            await time.increaseTo(deadline + 1);
+            const late = proofFor(tree, players[1].address);
+            await expect(airdrop.claim(players[1].address, late.amount, late.proof))
+                .to.be.revertedWithCustomError(airdrop, "AirdropClaimEnded");
+
+            await expect(airdrop.connect(players[1]).sweep(players[1].address))
+                .to.be.revertedWithCustomError(airdrop, "OwnableUnauthorizedAccount");
+            const ownerBefore = await token.balanceOf(owner.address);
+            await expect(airdrop.sweep(owner.address))
+                .to.emit(airdrop, "Swept")
+                .withArgs(owner.address, total - amount);
+            expect(await token.balanceOf(owner.address)).to.equal(ownerBefore + total - amount);
+        });
+    });
+
+    describe("Claim and Delegate", () => {
+        it("Should claim and delegate voting power in one call", async () => {
+            const { token, airdrop, tree, players, accounts } = await setupFixture();
+            const [player, delegatee] = [players[2], accounts[10]];
+            const { amount, proof } = proofFor(tree, player.address);
+
+            const sig = await signDelegation(token, player, delegatee.address);
+            await airdrop.connect(accounts[11]).claimAndDelegate(
+                player.address, amount, proof, delegatee.address, sig.nonce, sig.expiry, sig.v, sig.r, sig.s
+            );
+
+            expect(await token.balanceOf(player.address)).to.equal(amount);
+            expect(await token.delegates(player.address)).to.equal(delegatee.address);
+            expect(await token.getVotes(delegatee.address)).to.equal(amount);
+        });
+
+        it("Should still claim when the signature was already used", async () => {
+            const { token, airdrop, tree, players } = await setupFixture();
+            const player = players[0];
+            const { amount, proof } = proofFor(tree, player.address);
+
+            // Someone submits the signature to MAGIC first
+            const sig = await signDelegation(token, player, player.address);
+            await token.delegateBySig(player.address, sig.nonce, sig.expiry, sig.v, sig.r, sig.s);
+
+            await airdrop.claimAndDelegate(
+                player.address, amount, proof, player.address, sig.nonce, sig.expiry, sig.v, sig.r, sig.s
+            );
+            expect(await token.getVotes(player.address)).to.equal(amount);
+        });
+
+        it("Should reject a delegation signed by another account", async () => {
+            const { token, airdrop, tree, players, accounts } = await setupFixture();
+            const [player, signer, delegatee] = [players[1], players[3], accounts[10]];
+            const { amount, proof } = proofFor(tree, player.address);
+
+            const sig = await signDelegation(token, signer, delegatee.address);
+            await expect(airdrop.claimAndDelegate(
+                player.address, amount, proof, delegatee.address, sig.nonce, sig.expiry, sig.v, sig.r, sig.s
+            ))
+                .to.be.revertedWithCustomError(airdrop, "AirdropDelegationFailed")
+                .withArgs(player.address, delegatee.address);
+            expect(await airdrop.hasClaimed(player.address)).to.be.false;
+        });
+    });
+});
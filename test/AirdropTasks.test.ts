@@ -0,0 +1,159 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { expect } from "chai";
+import hre, { deployments, ethers, getNamedAccounts } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { MagicWorldAirdrop, MagicWorldGovernanceToken } from "../typechain-types";
+
+const CLAIM_PERIOD = 30 * 86400;
+
+interface AirdropProofs {
+    merkleRoot: string;
+    totalAmount: string;
+    claims: Record<string, { amount: string; proof: string[] }>;
+}
+
+describe("Airdrop tasks", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "airdrop-tasks-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const setupFixture = deployments.createFixture(async () => {
+        await deployments.fixture(["governance"]);
+        const signers = await getNamedAccounts();
+        const accounts = await ethers.getSigners();
+        const owner = await ethers.getSigner(signers.deployer);
+
+        const token = await ethers.getContractAt(
+            "MagicWorldGovernanceToken",
+            (await deployments.get("MagicWorldGovernanceToken")).address,
+            owner
+        ) as MagicWorldGovernanceToken;
+        return { token, accounts, owner };
+    });
+
+    function writeCsv(name: string, lines: string[]): string {
+        const file = path.join(dir, name);
+        fs.writeFileSync(file, lines.join("\n") + "\n");
+        return file;
+    }
+
+    function readProofs(file: string): AirdropProofs {
+        return JSON.parse(fs.readFileSync(file, "utf8"));
+    }
+
+    // Deploys the distributor with the root of a proofs file, funded with `amount`
+    async function deployAirdrop(token: MagicWorldGovernanceToken, merkleRoot: string, amount: bigint) {
+        const airdrop = await ethers.deployContract(
+            "MagicWorldAirdrop",
+            [await token.getAddress(), merkleRoot, (await time.latest()) + CLAIM_PERIOD]
+        ) as MagicWorldAirdrop;
+        await token.mint(await airdrop.getAddress(), amount);
+        return airdrop;
+    }
+
+    describe("airdrop:build and airdrop:verify", () => {
+        it("Should write proofs that verify and claim against the deployed root", async () => {
+            const { token, accounts } = await setupFixture();
+            const players = accounts.slice(1, 4).map(account => account.address);
+            const csv = writeCsv("players.csv", [
+                "# Season 1",
+                "account,amount",
+                `${players[0].toLowerCase()},150`,
+                `${players[1]}, 75.5 `,
+                "",
+                `${players[2]},1000`
+            ]);
+
+            // Written next to the CSV by default
+            await hre.run("airdrop:build", { csv });
+            const file = path.join(dir, "players.json");
+            const proofs = readProofs(file);
+            expect(Object.keys(proofs.claims)).to.have.members(players);
+            expect(proofs.claims[players[1]].amount).to.equal(ethers.parseEther("75.5").toString());
+            expect(proofs.totalAmount).to.equal(ethers.parseEther("1225.5").toString());
+
+            const airdrop = await deployAirdrop(token, proofs.merkleRoot, BigInt(proofs.totalAmount));
+            const address = await airdrop.getAddress();
+            await hre.run("airdrop:verify", { proofs: file, address, claims: false });
+
+            for (const [account, { amount, proof }] of Object.entries(proofs.claims)) {
+                expect(await airdrop.verify(account, amount, proof)).to.be.true;
+                await airdrop.claim(account, amount, proof);
+                expect(await token.balanceOf(account)).to.equal(BigInt(amount));
+            }
+            await hre.run("airdrop:verify", { proofs: file, address, claims: true });
+        });
+
+        it("Should build the example allocations", async () => {
+            await setupFixture();
+            const out = path.join(dir, "example.json");
+            await hre.run("airdrop:build", { csv: path.join(hre.config.paths.root, "airdrop", "examples", "players.csv"), out });
+            expect(readProofs(out).totalAmount).to.equal(ethers.parseEther("1225.5").toString());
+        });
+
+        it("Should refuse proofs that don't match the file or the deployed distributor", async () => {
+            const { token, accounts } = await setupFixture();
+            const csv = writeCsv("players.csv", [
+                "account,amount",
+                `${accounts[1].address},100`,
+                `${accounts[2].address},200`
+            ]);
+            const file = path.join(dir, "players.json");
+            await hre.run("airdrop:build", { csv, out: file });
+            const proofs = readProofs(file);
+
+            const other = await deployAirdrop(token, ethers.ZeroHash, BigInt(proofs.totalAmount));
+            await expect(hre.run("airdrop:verify", { proofs: file, address: await other.getAddress(), claims: false }))
+                .to.be.rejectedWith(/Root mismatch/);
+
+            // Only half of the total is funded
+            const airdrop = await deployAirdrop(token, proofs.merkleRoot, ethers.parseEther("150"));
+            const address = await airdrop.getAddress();
+            await hre.run("airdrop:verify", { proofs: file, address, claims: false });
+            await expect(hre.run("airdrop:verify", { proofs: file, address, claims: true }))
+                .to.be.rejectedWith(/Underfunded: 150.0 MAGIC missing/);
+
+            const raised = structuredClone(proofs);
+            raised.claims[accounts[1].address].amount = ethers.parseEther("1000").toString();
+            fs.writeFileSync(file, JSON.stringify(raised));
+            await expect(hre.run("airdrop:verify", { proofs: file, address, claims: false }))
+                .to.be.rejectedWith(/build root 0x[0-9a-f]{64}, not/);
+
+            const swapped = structuredClone(proofs);
+            swapped.claims[accounts[1].address].proof = [ethers.ZeroHash];
+            fs.writeFileSync(file, JSON.stringify(swapped));
+            await expect(hre.run("airdrop:verify", { proofs: file, address, claims: false }))
+                .to.be.rejectedWith(new RegExp(`Invalid proof for ${accounts[1].address}`));
+
+            await expect(hre.run("airdrop:verify", { proofs: path.join(dir, "missing.json"), address, claims: false }))
+                .to.be.rejectedWith(/Proofs file not found/);
+        });
+
+        it("Should reject bad rows with their line", async () => {
+            const { accounts } = await setupFixture();
+            const account = accounts[1].address;
+            const cases: [string[], RegExp][] = [
+                [["0x1234,100"], /:2: invalid account 0x1234/],
+                [[`${ethers.ZeroAddress},100`], /:2: invalid account 0x0{40}/],
+                [[`${account},100`, `${account.toLowerCase()},50`], new RegExp(`:3: duplicate account ${account}`)],
+                [[`${account},lots`], /:2: invalid amount lots/],
+                [[`${account},0`], /:2: amount must be greater than 0/],
+                [[`${account},100,extra`], /:2: expected 2 columns, got 3/],
+                [[], /No allocations/]
+            ];
+            for (const [i, [rows, error]] of cases.entries()) {
+                const csv = writeCsv(`bad-${i}.csv`, ["account,amount", ...rows]);
+                await expect(hre.run("airdrop:build", { csv }), rows.join(" ")).to.be.rejectedWith(error);
+                expect(fs.existsSync(path.join(dir, `bad-${i}.json`))).to.be.false;
+            }
+        });
+    });
+});
@@ -0,0 +1,42 @@
+import fs from "fs";
+import path from "path";
+import { expect } from "chai";
+import hre from "hardhat";
+import { assertNoZeroPlaceholders, readDeploymentParameters } from "../helper-hardhat-config";
+
+describe("Deployment parameters", () => {
+    const parameters = {
+        MagicWorldGovernanceModule: { votingDelay: 1, timelockGuardian: "0x0000000000000000000000000000000000000000" },
+        MagicWorldStakingModule: {
+            rewardToken: "0x1111111111111111111111111111111111111111",
+            whitelistedTokens: ["0x2222222222222222222222222222222222222222", "0x0000000000000000000000000000000000000000"]
+        },
+        MagicWorldAirdropModule: { merkleRoot: "0x" + "00".repeat(32), claimDeadline: 0 }
+    };
+
+    it("Should name every zero placeholder of the deployed modules", () => {
+        expect(() => assertNoZeroPlaceholders(parameters, ["MagicWorldGovernanceModule", "MagicWorldStakingModule"], "test.json"))
+            .to.throw("Replace the zero placeholders in test.json before deploying: " +
+                "MagicWorldGovernanceModule.timelockGuardian, MagicWorldStakingModule.whitelistedTokens[1]");
+        expect(() => assertNoZeroPlaceholders(parameters, ["MagicWorldAirdropModule"], "test.json"))
+            .to.throw(/MagicWorldAirdropModule.merkleRoot$/);
+    });
+
+    it("Should accept modules without placeholders or parameters", () => {
+        expect(() => assertNoZeroPlaceholders(parameters, ["$global", "MagicWorldGovernanceTokenModule"], "test.json"))
+            .to.not.throw();
+    });
+
+    it("Should refuse the shipped parameter files until the placeholders are replaced", () => {
+        for (const file of fs.readdirSync(path.join(__dirname, "..", "ignition", "parameters"))) {
+            expect(() => readDeploymentParameters(path.basename(file, ".json"))).to.throw(/timelockGuardian/);
+        }
+    });
+
+    it("Should stop ignition deploy before a zero timelock guardian gets the canceller role", async () => {
+        await expect(hre.run({ scope: "ignition", task: "deploy" }, {
+            modulePath: "ignition/modules/MagicWorld.ts",
+            parameters: "ignition/parameters/rskTestnet.json"
+        })).to.be.rejectedWith(/MagicWorldGovernanceModule.timelockGuardian/);
+    });
+});
@@ -0,0 +1,94 @@
+import { expect } from "chai";
+import { deployments, ethers, getNamedAccounts } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ContractTransactionResponse } from "ethers";
+import { MagicWorldStaking, MagicWorldToken } from "../typechain-types";
+import { DEV_MIN_STAKE_DURATION } from "../helper-hardhat-config";
+
+const EXTRA_TOKENS = 60;
+
+describe("Gas benchmark", () => {
+    const setupFixture = deployments.createFixture(async () => {
+        await deployments.fixture(["staking"]);
+        const signers = await getNamedAccounts();
+        const accounts = await ethers.getSigners();
+        const owner = await ethers.getSigner(signers.deployer);
+
+        const stakingToken = await ethers.getContractAt(
+            "MagicWorldToken",
+            (await deployments.get("MagicWorldToken")).address,
+            owner
+        ) as MagicWorldToken;
+        const staking = await ethers.getContractAt(
+            "MagicWorldStaking",
+            (await deployments.get("MagicWorldStaking")).address,
+            owner
+        ) as MagicWorldStaking;
+
+        await stakingToken.mint(accounts[1].address, ethers.parseEther("1000"));
+        await stakingToken.connect(accounts[1]).approve(await staking.getAddress(), ethers.MaxUint256);
+
+        return { staking, stakingToken, accounts, owner };
+    });
+
+    async function gasUsed(tx: Promise<ContractTransactionResponse>) {
+        const receipt = await (await tx).wait();
+        return receipt!.gasUsed;
+    }
+
+    it(`Should keep per-call gas flat with ${EXTRA_TOKENS} more tokens whitelisted`, async () => {
+        const { staking, stakingToken, accounts, owner } = await setupFixture();
+        const user = staking.connect(accounts[1]);
+        const tokenAddress = await stakingToken.getAddress();
+
+        // The staker holds a second token, so updates run over more than one stake
+        const secondToken = await ethers.deployContract("MagicWorldToken", [], owner) as MagicWorldToken;
+        const secondAddress = await secondToken.getAddress();
+        await staking.addToken(secondAddress, DEV_MIN_STAKE_DURATION);
+        await secondToken.mint(accounts[1].address, ethers.parseEther("100"));
+        await secondToken.connect(accounts[1]).approve(await staking.getAddress(), ethers.MaxUint256);
+
+        // Every reward token slot is streaming, so updates run over all of them
+        const maxRewardTokens = await staking.MAX_REWARD_TOKENS();
+        while (await staking.getRewardTokensCount() < maxRewardTokens) {
+            const reward = await ethers.deployContract("MockRewardToken", [], owner);
+            await reward.mint(owner.address, ethers.parseEther("604800"));
+            await reward.approve(await staking.getAddress(), ethers.MaxUint256);
+            await staking.addRewardToken(await reward.getAddress(), 7 * 86400);
+            await staking.fundRewardToken(await reward.getAddress(), ethers.parseEther("604800"));
+        }
+
+        await user.stake(tokenAddress, ethers.parseEther("100"));
+        await user.stake(secondAddress, ethers.parseEther("100"));
+
+        // The same stake, claim and unstake cycle at each whitelist size
+        async function measure() {
+            await time.increase(3600);
+            const stake = await gasUsed(user.stake(tokenAddress, ethers.parseEther("10")));
+            await time.increase(3600);
+            const claim = await gasUsed(user.claimRewards());
+            await time.increase(DEV_MIN_STAKE_DURATION);
+            const unstake = await gasUsed(user.unstake(tokenAddress, ethers.parseEther("10")));
+            return { stake, claim, unstake };
+        }
+
+        // First writes to the staker's storage slots cost more, so warm them up once
+        await measure();
+        const before = await measure();
+
+        for (let added = 0; added < EXTRA_TOKENS; added += EXTRA_TOKENS / 2) {
+            const tokens: string[] = [];
+            for (let i = 0; i < EXTRA_TOKENS / 2; i++) {
+                const token = await ethers.deployContract("MagicWorldToken", [], owner);
+                tokens.push(await token.getAddress());
+            }
+            await staking.addTokens(tokens, tokens.map(() => DEV_MIN_STAKE_DURATION));
+
+            const after = await measure();
+            for (const call of ["stake", "claim", "unstake"] as const) {
+                expect(after[call]).to.be.lte(before[call]);
+            }
+        }
+        expect(await staking.getWhitelistedTokensCount()).to.equal(BigInt(EXTRA_TOKENS + 2));
+    });
+});
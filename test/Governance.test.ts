@@ -1,39 +1,61 @@
 import { expect } from "chai";
 import { deployments, ethers, getNamedAccounts } from "hardhat";
 import { time, mine } from "@nomicfoundation/hardhat-network-helpers";
-import { MagicWorldGovernance, MagicWorldGovernanceToken } from "../typechain-types";
+import {
+    MagicWorldGovernance,
+    MagicWorldGovernanceToken,
+    MagicWorldStakedToken,
+    MagicWorldStaking,
+    TimelockController
+} from "../typechain-types";
+import { DEV_GOVERNANCE_PARAMETERS } from "../helper-hardhat-config";
 
 describe("MagicWorldGovernance", () => {
     const setupFixture = deployments.createFixture(async () => {
-        await deployments.fixture();
+        await deployments.fixture(["governance", "staking"]);
         const signers = await getNamedAccounts();
         const accounts = await ethers.getSigners();
+        const deployer = await ethers.getSigner(signers.deployer);
 
-        // Deploy Governance Token
-        const token = await ethers.deployContract(
+        // Governance Token
+        const token = await ethers.getContractAt(
             "MagicWorldGovernanceToken",
-            [],
-            await ethers.getSigner(signers.deployer)
+            (await deployments.get("MagicWorldGovernanceToken")).address,
+            deployer
         ) as MagicWorldGovernanceToken;
         console.log("Token Address:", await token.getAddress());
 
-        // Deploy Governance Contract with REDUCED voting period for testing
-        const votingDelay = 1; // 1 block
-        const votingPeriod = 5; // Reduced from 50400 to 5 blocks for testing
-        const proposalThreshold = 0;
+        // stMAGIC, minted by staking for staked MAGIC
+        const stakedToken = await ethers.getContractAt(
+            "MagicWorldStakedToken",
+            (await deployments.get("MagicWorldStakedToken")).address,
+            deployer
+        ) as MagicWorldStakedToken;
 
-        const governance = await ethers.deployContract(
+        // Governance Contract, deployed with a reduced voting period (5 blocks) on development chains
+        const governance = await ethers.getContractAt(
             "MagicWorldGovernance",
-            [
-                await token.getAddress(),
-                votingDelay,
-                votingPeriod,
-                proposalThreshold
-            ],
-            await ethers.getSigner(signers.deployer)
+            (await deployments.get("MagicWorldGovernance")).address,
+            deployer
         ) as MagicWorldGovernance;
         console.log("Governance Address:", await governance.getAddress());
 
+        // Timelock that queues and executes passed proposals, the deployer is its guardian on development chains
+        const timelock = await ethers.getContractAt(
+            "TimelockController",
+            (await deployments.get("MagicWorldTimelock")).address,
+            deployer
+        ) as TimelockController;
+        console.log("Timelock Address:", await timelock.getAddress());
+
+        // Staking, owned by the deployer on development chains
+        const staking = await ethers.getContractAt(
+            "MagicWorldStaking",
+            (await deployments.get("MagicWorldStaking")).address,
+            deployer
+        ) as MagicWorldStaking;
+        const stakingToken = (await deployments.get("MagicWorldToken")).address;
+
         // Mint tokens to accounts for voting
         await token.mint(accounts[1].address, ethers.parseEther("100"));
         await token.mint(accounts[2].address, ethers.parseEther("200"));
@@ -58,7 +80,7 @@ describe("MagicWorldGovernance", () => {
         // Helper function to create and execute delegation permit
         async function delegateWithPermit(delegator: any, delegatee: string) {
             const nonce = await token.nonces(delegator.address);
-            const expiry = Math.floor(Date.now() / 1000) + 3600; // 1 hour from now
+            const expiry = (await time.latest()) + 3600; // 1 hour from the chain time
 
             const value = {
                 delegatee: delegatee,
@@ -94,18 +116,72 @@ describe("MagicWorldGovernance", () => {
         console.log("Account 3 voting power:",
             ethers.formatEther(await token.getVotes(accounts[3].address)));
 
-        return { governance, token, accounts };
+        return { governance, token, stakedToken, timelock, staking, stakingToken, deployer, accounts };
     });
 
+    // Proposes, votes with every account and waits for the voting period to end
+    async function passProposal(
+        governance: MagicWorldGovernance,
+        accounts: any[],
+        targets: string[],
+        calldatas: string[],
+        description: string
+    ) {
+        const values = targets.map(() => 0);
+        const descriptionHash = ethers.id(description);
+        await governance.connect(accounts[1]).propose(targets, values, calldatas, description);
+        const proposalId = await governance.hashProposal(targets, values, calldatas, descriptionHash);
+
+        await mine(2);
+        await governance.connect(accounts[1]).castVote(proposalId, 1);
+        await governance.connect(accounts[2]).castVote(proposalId, 1);
+        await governance.connect(accounts[3]).castVote(proposalId, 1);
+        await mine(6);
+
+        return { proposalId, args: [targets, values, calldatas, descriptionHash] as const };
+    }
+
     describe("Initialization", () => {
         it("Should initialize with correct settings", async () => {
             const { governance } = await setupFixture();
             expect(await governance.name()).to.equal("MagicWorldGovernance");
-            expect(await governance.quorum(0)).to.equal(ethers.parseEther("4"));
+            expect(await governance["quorumNumerator()"]()).to.equal(4);
+            expect(await governance.quorumDenominator()).to.equal(100);
             expect(await governance.votingDelay()).to.equal(1);
             expect(await governance.votingPeriod()).to.equal(5);
             expect(await governance.proposalThreshold()).to.equal(0);
         });
+
+        it("Should compute the quorum from the past total supply", async () => {
+            const { governance, token, deployer } = await setupFixture();
+            await mine(1);
+            const timepoint = (await governance.clock()) - 1n;
+
+            // 4% of the 600 MAGIC minted in the fixture
+            expect(await token.getPastTotalSupply(timepoint)).to.equal(ethers.parseEther("600"));
+            expect(await governance.quorum(timepoint)).to.equal(ethers.parseEther("24"));
+
+            // Minting raises the quorum of later proposals only
+            await token.mint(deployer.address, ethers.parseEther("400"));
+            await mine(1);
+            expect(await governance.quorum(timepoint)).to.equal(ethers.parseEther("24"));
+            expect(await governance.quorum((await governance.clock()) - 1n)).to.equal(ethers.parseEther("40"));
+        });
+
+        it("Should be wired to the timelock", async () => {
+            const { governance, timelock, deployer } = await setupFixture();
+            const governanceAddress = await governance.getAddress();
+
+            expect(await governance.timelock()).to.equal(await timelock.getAddress());
+            expect(await timelock.getMinDelay()).to.equal(DEV_GOVERNANCE_PARAMETERS.timelockMinDelay);
+            expect(await timelock.hasRole(await timelock.PROPOSER_ROLE(), governanceAddress)).to.be.true;
+            expect(await timelock.hasRole(await timelock.CANCELLER_ROLE(), governanceAddress)).to.be.true;
+            // Open executor role and guardian
+            expect(await timelock.hasRole(await timelock.EXECUTOR_ROLE(), ethers.ZeroAddress)).to.be.true;
+            expect(await timelock.hasRole(await timelock.CANCELLER_ROLE(), deployer.address)).to.be.true;
+            // The deployer gave up the admin role
+            expect(await timelock.hasRole(await timelock.DEFAULT_ADMIN_ROLE(), deployer.address)).to.be.false;
+        });
     });
 
     describe("Proposal Creation", () => {
@@ -192,6 +268,15 @@ describe("MagicWorldGovernance", () => {
             // Log final state
             console.log("Before execution state:", await governance.state(proposalId));
 
+            // Queue proposal in the timelock and wait for its delay
+            await governance.queue(
+                [accounts[1].address],
+                [0],
+                ["0x"],
+                ethers.keccak256(ethers.toUtf8Bytes("Proposal #1"))
+            );
+            await time.increase(DEV_GOVERNANCE_PARAMETERS.timelockMinDelay);
+
             // Execute proposal
             await expect(governance.execute(
                 [accounts[1].address],
@@ -515,6 +600,16 @@ describe("MagicWorldGovernance", () => {
             await mine(6);
             console.log("\nProposal state before execution:", await governance.state(proposalId));
 
+            // Queue the proposal and wait for the timelock delay
+            console.log("\nQueueing proposal...");
+            await expect(governance.queue(
+                proposalParams.targets,
+                proposalParams.values,
+                proposalParams.calldatas,
+                ethers.keccak256(ethers.toUtf8Bytes(proposalParams.description))
+            )).to.emit(governance, "ProposalQueued");
+            await time.increase(DEV_GOVERNANCE_PARAMETERS.timelockMinDelay);
+
             // Execute the proposal
             console.log("\nExecuting proposal...");
             await expect(governance.execute(
@@ -531,4 +626,353 @@ describe("MagicWorldGovernance", () => {
             expect(finalState).to.equal(7); // Executed state
         });
     });
-}); 
\ No newline at end of file
+
+    describe("Timelock", () => {
+        it("Should not execute a queued proposal before the delay", async () => {
+            const { governance, timelock, accounts } = await setupFixture();
+            const { proposalId, args } = await passProposal(
+                governance, accounts, [accounts[1].address], ["0x"], "Proposal #4"
+            );
+
+            // Execution requires queueing first
+            expect(await governance.proposalNeedsQueuing(proposalId)).to.be.true;
+            await expect(governance.execute(...args))
+                .to.be.revertedWithCustomError(timelock, "TimelockUnexpectedOperationState");
+
+            await expect(governance.queue(...args)).to.emit(governance, "ProposalQueued");
+            expect(await governance.state(proposalId)).to.equal(5); // Queued
+
+            const eta = await governance.proposalEta(proposalId);
+            console.log("Proposal ETA:", eta);
+            expect(eta).to.equal(BigInt(await time.latest()) + BigInt(DEV_GOVERNANCE_PARAMETERS.timelockMinDelay));
+
+            // One second before the ETA the operation is not ready yet
+            await time.setNextBlockTimestamp(eta - 1n);
+            await expect(governance.execute(...args))
+                .to.be.revertedWithCustomError(timelock, "TimelockUnexpectedOperationState");
+
+            await time.setNextBlockTimestamp(eta);
+            await expect(governance.execute(...args)).to.emit(governance, "ProposalExecuted");
+            expect(await governance.state(proposalId)).to.equal(7); // Executed
+        });
+
+        it("Should administer staking once the timelock holds its roles", async () => {
+            const { governance, timelock, staking, stakingToken, deployer, accounts } = await setupFixture();
+            const timelockAddress = await timelock.getAddress();
+            const roles = [
+                await staking.PAUSER_ROLE(),
+                await staking.REWARD_DISTRIBUTOR_ROLE(),
+                await staking.TOKEN_MANAGER_ROLE(),
+                await staking.DEFAULT_ADMIN_ROLE()
+            ];
+            for (const role of roles) {
+                await staking.grantRole(role, timelockAddress);
+            }
+            for (const role of roles) {
+                await staking.renounceRole(role, deployer.address);
+            }
+            expect(await staking.hasRole(await staking.DEFAULT_ADMIN_ROLE(), timelockAddress)).to.be.true;
+
+            // The deployer can no longer call admin functions directly
+            await expect(staking.updateMinStakeDuration(stakingToken, 7 * 86400))
+                .to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount")
+                .withArgs(deployer.address, await staking.TOKEN_MANAGER_ROLE());
+
+            const calldata = staking.interface.encodeFunctionData("updateMinStakeDuration", [stakingToken, 7 * 86400]);
+            const { args } = await passProposal(
+                governance, accounts, [await staking.getAddress()], [calldata], "Raise minimum stake duration to 7 days"
+            );
+
+            await governance.queue(...args);
+            await time.increase(DEV_GOVERNANCE_PARAMETERS.timelockMinDelay);
+            await expect(governance.execute(...args))
+                .to.emit(staking, "MinStakeDurationUpdated")
+                .withArgs(stakingToken, 7 * 86400);
+
+            expect((await staking.whitelistedTokens(stakingToken)).minStakeDuration).to.equal(7 * 86400);
+        });
+
+        it("Should let the proposer cancel a pending proposal", async () => {
+            const { governance, accounts } = await setupFixture();
+            const targets = [accounts[1].address];
+            const descriptionHash = ethers.id("Proposal #5");
+            await governance.connect(accounts[1]).propose(targets, [0], ["0x"], "Proposal #5");
+            const proposalId = await governance.hashProposal(targets, [0], ["0x"], descriptionHash);
+
+            // Only the proposer can cancel (simulated, so that the proposal stays pending)
+            await expect(governance.connect(accounts[2]).cancel.staticCall(targets, [0], ["0x"], descriptionHash))
+                .to.be.revertedWithCustomError(governance, "GovernorOnlyProposer");
+
+            await expect(governance.connect(accounts[1]).cancel(targets, [0], ["0x"], descriptionHash))
+                .to.emit(governance, "ProposalCanceled")
+                .withArgs(proposalId);
+            expect(await governance.state(proposalId)).to.equal(2); // Canceled
+        });
+
+        it("Should let the guardian cancel a queued proposal", async () => {
+            const { governance, timelock, deployer, accounts } = await setupFixture();
+            const { proposalId, args } = await passProposal(
+                governance, accounts, [accounts[1].address], ["0x"], "Proposal #6"
+            );
+
+            // The timelock operation id is emitted when the proposal is queued
+            const receipt = await (await governance.queue(...args)).wait();
+            const scheduled = receipt!.logs
+                .map(log => {
+                    try {
+                        return timelock.interface.parseLog(log as any);
+                    } catch (e) {
+                        return null;
+                    }
+                })
+                .find(event => event?.name === "CallScheduled");
+            const operationId = scheduled!.args.id;
+            expect(await timelock.isOperationPending(operationId)).to.be.true;
+
+            // Token holders without the canceller role cannot cancel
+            await expect(timelock.connect(accounts[3]).cancel(operationId))
+                .to.be.revertedWithCustomError(timelock, "AccessControlUnauthorizedAccount");
+
+            await expect(timelock.connect(deployer).cancel(operationId))
+                .to.emit(timelock, "Cancelled")
+                .withArgs(operationId);
+            expect(await governance.state(proposalId)).to.equal(2); // Canceled
+
+            await time.increase(DEV_GOVERNANCE_PARAMETERS.timelockMinDelay);
+            await expect(governance.execute(...args))
+                .to.be.revertedWithCustomError(governance, "GovernorUnexpectedProposalState");
+        });
+    });
+
+    describe("Governance Settings", () => {
+        it("Should update the voting settings and quorum by proposal", async () => {
+            const { governance, accounts } = await setupFixture();
+            const governanceAddress = await governance.getAddress();
+            const { args } = await passProposal(
+                governance,
+                accounts,
+                [governanceAddress, governanceAddress, governanceAddress, governanceAddress],
+                [
+                    governance.interface.encodeFunctionData("setVotingDelay", [2]),
+                    governance.interface.encodeFunctionData("setVotingPeriod", [10]),
+                    governance.interface.encodeFunctionData("setProposalThreshold", [ethers.parseEther("50")]),
+                    governance.interface.encodeFunctionData("updateQuorumNumerator", [10])
+                ],
+                "Update governance settings"
+            );
+
+            await governance.queue(...args);
+            await time.increase(DEV_GOVERNANCE_PARAMETERS.timelockMinDelay);
+            await expect(governance.execute(...args))
+                .to.emit(governance, "VotingDelaySet").withArgs(1, 2)
+                .and.to.emit(governance, "VotingPeriodSet").withArgs(5, 10)
+                .and.to.emit(governance, "ProposalThresholdSet").withArgs(0, ethers.parseEther("50"))
+                .and.to.emit(governance, "QuorumNumeratorUpdated").withArgs(4, 10);
+
+            expect(await governance.votingDelay()).to.equal(2);
+            expect(await governance.votingPeriod()).to.equal(10);
+            expect(await governance.proposalThreshold()).to.equal(ethers.parseEther("50"));
+            expect(await governance["quorumNumerator()"]()).to.equal(10);
+
+            // The new threshold applies to the next proposal: account 1 holds 100 MAGIC, a fresh account none
+            await expect(
+                governance.connect(accounts[4]).propose([accounts[4].address], [0], ["0x"], "Proposal #7")
+            ).to.be.revertedWithCustomError(governance, "GovernorInsufficientProposerVotes");
+            await expect(
+                governance.connect(accounts[1]).propose([accounts[1].address], [0], ["0x"], "Proposal #7")
+            ).to.emit(governance, "ProposalCreated");
+        });
+
+        it("Should only accept setting changes from the timelock", async () => {
+            const { governance, deployer } = await setupFixture();
+
+            await expect(governance.connect(deployer).setVotingPeriod(10))
+                .to.be.revertedWithCustomError(governance, "GovernorOnlyExecutor")
+                .withArgs(deployer.address);
+            await expect(governance.connect(deployer).updateQuorumNumerator(10))
+                .to.be.revertedWithCustomError(governance, "GovernorOnlyExecutor")
+                .withArgs(deployer.address);
+        });
+
+        it("Should reject settings outside their bounds", async () => {
+            const { governance, timelock, token, stakedToken, accounts } = await setupFixture();
+            const { args } = await passProposal(
+                governance,
+                accounts,
+                [await governance.getAddress()],
+                [governance.interface.encodeFunctionData("updateQuorumNumerator", [60])],
+                "Raise quorum to 60%"
+            );
+
+            await governance.queue(...args);
+            await time.increase(DEV_GOVERNANCE_PARAMETERS.timelockMinDelay);
+            await expect(governance.execute(...args))
+                .to.be.revertedWithCustomError(governance, "GovernanceInvalidQuorumNumerator")
+                .withArgs(60, 1, 50);
+
+            // Bounds also apply at deployment
+            const factory = await ethers.getContractFactory("MagicWorldGovernance");
+            const tokenAddress = await token.getAddress();
+            const stakedTokenAddress = await stakedToken.getAddress();
+            const timelockAddress = await timelock.getAddress();
+            await expect(factory.deploy(tokenAddress, stakedTokenAddress, timelockAddress, 0, 5, 0, 4))
+                .to.be.revertedWithCustomError(governance, "GovernanceInvalidVotingDelay")
+                .withArgs(0, 1, 201600);
+            await expect(factory.deploy(tokenAddress, stakedTokenAddress, timelockAddress, 1, 1, 0, 4))
+                .to.be.revertedWithCustomError(governance, "GovernanceInvalidVotingPeriod")
+                .withArgs(1, 5, 403200);
+            await expect(factory.deploy(tokenAddress, stakedTokenAddress, timelockAddress, 1, 5, ethers.parseEther("2000000"), 4))
+                .to.be.revertedWithCustomError(governance, "GovernanceInvalidProposalThreshold")
+                .withArgs(ethers.parseEther("2000000"), ethers.parseEther("1000000"));
+        });
+    });
+
+    describe("Staked Voting Power", () => {
+        it("Should count staked MAGIC through stMAGIC at the proposal snapshot", async () => {
+            const { governance, token, stakedToken, staking, accounts } = await setupFixture();
+            const voter = accounts[1];
+            const tokenAddress = await token.getAddress();
+            await staking.addToken(tokenAddress, 86400);
+
+            await token.connect(voter).approve(await staking.getAddress(), ethers.parseEther("60"));
+            await staking.connect(voter).stake(tokenAddress, ethers.parseEther("60"));
+            expect(await stakedToken.balanceOf(voter.address)).to.equal(ethers.parseEther("60"));
+            expect(await token.getVotes(voter.address)).to.equal(ethers.parseEther("40"));
+
+            // stMAGIC is delegated like MAGIC
+            await stakedToken.connect(voter).delegate(voter.address);
+            await mine();
+            const snapshot = (await ethers.provider.getBlockNumber()) - 1;
+            console.log("Combined voting power:",
+                ethers.formatEther(await governance.getVotes(voter.address, snapshot)));
+            expect(await governance.getVotes(voter.address, snapshot)).to.equal(ethers.parseEther("100"));
+
+            const targets = [await governance.getAddress()];
+            const calldatas = [governance.interface.encodeFunctionData("setVotingDelay", [2])];
+            const description = "Vote with staked MAGIC";
+            await governance.connect(voter).propose(targets, [0], calldatas, description);
+            const proposalId = await governance.hashProposal(targets, [0], calldatas, ethers.id(description));
+
+            // Unstaking after the snapshot burns stMAGIC but doesn't change the vote weight
+            await time.increase(86400);
+            await staking.connect(voter).unstake(tokenAddress, ethers.parseEther("60"));
+            expect(await stakedToken.balanceOf(voter.address)).to.equal(0n);
+            await expect(governance.connect(voter).castVote(proposalId, 1))
+                .to.emit(governance, "VoteCast")
+                .withArgs(voter.address, proposalId, 1, ethers.parseEther("100"), "");
+        });
+
+        it("Should receipt locked positions and burn receipts on emergency withdrawal", async () => {
+            const { token, stakedToken, staking, accounts } = await setupFixture();
+            const voter = accounts[2];
+            const tokenAddress = await token.getAddress();
+            await staking.addToken(tokenAddress, 86400);
+            await token.connect(voter).approve(await staking.getAddress(), ethers.parseEther("150"));
+
+            await staking.connect(voter).stake(tokenAddress, ethers.parseEther("50"));
+            await staking.connect(voter).stakeLocked(tokenAddress, ethers.parseEther("100"), 3);
+            expect(await stakedToken.balanceOf(voter.address)).to.equal(ethers.parseEther("150"));
+            expect(await stakedToken.totalSupply()).to.equal((await staking.whitelistedTokens(tokenAddress)).totalStaked);
+
+            await staking.setEmergencyMode(true);
+            await staking.connect(voter).emergencyWithdraw(tokenAddress);
+            expect(await stakedToken.balanceOf(voter.address)).to.equal(0n);
+            expect(await token.balanceOf(voter.address)).to.equal(ethers.parseEther("200"));
+        });
+
+        it("Should keep stMAGIC non-transferable and controlled by staking", async () => {
+            const { token, stakedToken, staking, accounts } = await setupFixture();
+            const tokenAddress = await token.getAddress();
+            await staking.addToken(tokenAddress, 86400);
+            await token.connect(accounts[1]).approve(await staking.getAddress(), ethers.parseEther("10"));
+            await staking.connect(accounts[1]).stake(tokenAddress, ethers.parseEther("10"));
+
+            await expect(stakedToken.connect(accounts[1]).transfer(accounts[2].address, 1))
+                .to.be.revertedWithCustomError(stakedToken, "StakedTokenNonTransferable");
+            await stakedToken.connect(accounts[1]).approve(accounts[2].address, 1);
+            await expect(stakedToken.connect(accounts[2]).transferFrom(accounts[1].address, accounts[2].address, 1))
+                .to.be.revertedWithCustomError(stakedToken, "StakedTokenNonTransferable");
+            await expect(stakedToken.mint(accounts[2].address, 1))
+                .to.be.revertedWithCustomError(stakedToken, "OwnableUnauthorizedAccount");
+            expect(await stakedToken.owner()).to.equal(await staking.getAddress());
+
+            // Receipts must always match stakes
+            await expect(staking.setReceiptToken(ethers.ZeroAddress, ethers.ZeroAddress))
+                .to.be.revertedWith("Token still has stakes");
+            expect(await staking.votesToken()).to.equal(tokenAddress);
+            expect(await staking.receiptToken()).to.equal(await stakedToken.getAddress());
+        });
+    });
+
+    describe("Governance Token", () => {
+        it("Should let governance administer the minter role", async () => {
+            const { governance, token, timelock, deployer, accounts } = await setupFixture();
+            const minterRole = await token.MINTER_ROLE();
+            const adminRole = await token.DEFAULT_ADMIN_ROLE();
+            const timelockAddress = await timelock.getAddress();
+
+            // The timelock is the only admin, the deployer only mints
+            expect(await token.getRoleMemberCount(adminRole)).to.equal(1);
+            expect(await token.getRoleMember(adminRole, 0)).to.equal(timelockAddress);
+            expect(await token.getRoleMembers(minterRole)).to.deep.equal([deployer.address]);
+            await expect(token.connect(accounts[4]).mint(accounts[4].address, 1))
+                .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+                .withArgs(accounts[4].address, minterRole);
+            await expect(token.grantRole(minterRole, accounts[4].address))
+                .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+                .withArgs(deployer.address, adminRole);
+
+            const { args } = await passProposal(
+                governance,
+                accounts,
+                [await token.getAddress(), await token.getAddress()],
+                [
+                    token.interface.encodeFunctionData("grantRole", [minterRole, accounts[4].address]),
+                    token.interface.encodeFunctionData("revokeRole", [minterRole, deployer.address]),
+                ],
+                "Hand minting over to the rewards distributor"
+            );
+            await governance.queue(...args);
+            await time.increase(DEV_GOVERNANCE_PARAMETERS.timelockMinDelay);
+            await expect(governance.execute(...args))
+                .to.emit(token, "RoleGranted").withArgs(minterRole, accounts[4].address, timelockAddress)
+                .and.to.emit(token, "RoleRevoked").withArgs(minterRole, deployer.address, timelockAddress);
+
+            await token.connect(accounts[4]).mint(accounts[4].address, ethers.parseEther("1"));
+            expect(await token.balanceOf(accounts[4].address)).to.equal(ethers.parseEther("1"));
+            await expect(token.mint(deployer.address, 1))
+                .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
+        });
+
+        it("Should never mint above the maximum supply", async () => {
+            const { token, deployer } = await setupFixture();
+            const maxSupply = await token.MAX_SUPPLY();
+            expect(await token.cap()).to.equal(maxSupply);
+
+            await token.mint(deployer.address, maxSupply - (await token.totalSupply()));
+            expect(await token.totalSupply()).to.equal(maxSupply);
+            await expect(token.mint(deployer.address, 1))
+                .to.be.revertedWithCustomError(token, "ERC20ExceededCap")
+                .withArgs(maxSupply + 1n, maxSupply);
+
+            // Burned tokens can be minted again
+            await token.burn(ethers.parseEther("1"));
+            await token.mint(deployer.address, ethers.parseEther("1"));
+        });
+
+        it("Should let holders burn their tokens and voting power", async () => {
+            const { token, accounts } = await setupFixture();
+
+            await token.connect(accounts[1]).burn(ethers.parseEther("40"));
+            expect(await token.balanceOf(accounts[1].address)).to.equal(ethers.parseEther("60"));
+            expect(await token.getVotes(accounts[1].address)).to.equal(ethers.parseEther("60"));
+            expect(await token.totalSupply()).to.equal(ethers.parseEther("560"));
+
+            await expect(token.connect(accounts[2]).burnFrom(accounts[1].address, 1))
+                .to.be.revertedWithCustomError(token, "ERC20InsufficientAllowance");
+            await token.connect(accounts[1]).approve(accounts[2].address, ethers.parseEther("10"));
+            await token.connect(accounts[2]).burnFrom(accounts[1].address, ethers.parseEther("10"));
+            expect(await token.balanceOf(accounts[1].address)).to.equal(ethers.parseEther("50"));
+        });
+    });
+});
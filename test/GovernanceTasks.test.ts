@@ -0,0 +1,209 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import yaml from "js-yaml";
+import { expect } from "chai";
+import hre, { deployments, ethers, getNamedAccounts } from "hardhat";
+import { time, mine } from "@nomicfoundation/hardhat-network-helpers";
+import {
+    MagicWorldGovernanceToken,
+    MagicWorldGovernanceUpgradeable,
+    MagicWorldStakingUpgradeable,
+    TimelockController
+} from "../typechain-types";
+import { DEV_GOVERNANCE_PARAMETERS } from "../helper-hardhat-config";
+import { encodeProposal, loadProposalSpec, ProposalManifest, ProposalSpec } from "../tasks/proposal-builder";
+
+describe("Governance tasks", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "governance-tasks-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const setupFixture = deployments.createFixture(async () => {
+        await deployments.fixture(["governance", "staking"]);
+        const signers = await getNamedAccounts();
+        const accounts = await ethers.getSigners();
+        const deployer = await ethers.getSigner(signers.deployer);
+
+        const governance = await ethers.getContractAt(
+            "MagicWorldGovernanceUpgradeable",
+            (await deployments.get("MagicWorldGovernance")).address,
+            deployer
+        ) as MagicWorldGovernanceUpgradeable;
+        const timelock = await ethers.getContractAt(
+            "TimelockController",
+            (await deployments.get("MagicWorldTimelock")).address,
+            deployer
+        ) as TimelockController;
+        const staking = await ethers.getContractAt(
+            "MagicWorldStakingUpgradeable",
+            (await deployments.get("MagicWorldStaking")).address,
+            deployer
+        ) as MagicWorldStakingUpgradeable;
+        const magic = await ethers.getContractAt(
+            "MagicWorldGovernanceToken",
+            (await deployments.get("MagicWorldGovernanceToken")).address,
+            deployer
+        ) as MagicWorldGovernanceToken;
+
+        // The tasks propose and vote as the deployer
+        await magic.mint(deployer.address, ethers.parseEther("100"));
+        await magic.delegate(deployer.address);
+        return { governance, timelock, staking, accounts, deployer };
+    });
+
+    function writeSpec(name: string, spec: unknown): string {
+        const file = path.join(dir, name);
+        fs.writeFileSync(file, name.endsWith(".json") ? JSON.stringify(spec) : yaml.dump(spec));
+        return file;
+    }
+
+    describe("Proposal specs", () => {
+        it("Should encode named and raw calls against the network deployments", async () => {
+            const { governance, staking, accounts } = await setupFixture();
+            const stakingAddress = await staking.getAddress();
+            const pauserRole = await staking.PAUSER_ROLE();
+            const keeperCalldata = staking.interface.encodeFunctionData("setKeeper", [accounts[5].address, true]);
+
+            const file = writeSpec("spec.yaml", {
+                description: "Shorter voting and a new pauser",
+                actions: [
+                    { call: "MagicWorldGovernance.setVotingPeriod", args: [10] },
+                    { call: "MagicWorldStaking.grantRole", args: [pauserRole, accounts[4].address] },
+                    { target: stakingAddress.toLowerCase(), calldata: keeperCalldata, value: "5" }
+                ]
+            });
+            const proposal = await encodeProposal(hre, loadProposalSpec(file));
+
+            expect(proposal.targets).to.deep.equal([await governance.getAddress(), stakingAddress, stakingAddress]);
+            expect(proposal.values).to.deep.equal([0n, 0n, 5n]);
+            expect(proposal.calldatas).to.deep.equal([
+                governance.interface.encodeFunctionData("setVotingPeriod", [10]),
+                staking.interface.encodeFunctionData("grantRole", [pauserRole, accounts[4].address]),
+                keeperCalldata
+            ]);
+            expect(proposal.descriptionHash).to.equal(ethers.id("Shorter voting and a new pauser"));
+            expect(proposal.actions[2]).to.match(/\{value: 5\}$/);
+
+            // JSON specs read the same
+            const json = await encodeProposal(hre, loadProposalSpec(writeSpec("spec.json", yaml.load(fs.readFileSync(file, "utf8")))));
+            expect(json.calldatas).to.deep.equal(proposal.calldatas);
+        });
+
+        it("Should load and encode the example specs", async () => {
+            await setupFixture();
+            const examples = path.join(hre.config.paths.root, "proposals", "examples");
+            for (const name of fs.readdirSync(examples)) {
+                const spec = loadProposalSpec(path.join(examples, name));
+                const proposal = await encodeProposal(hre, spec);
+                expect(proposal.calldatas, name).to.have.length(spec.actions.length);
+            }
+        });
+
+        it("Should refuse malformed specs", async () => {
+            await setupFixture();
+            const encode = (actions: unknown[]) =>
+                encodeProposal(hre, { description: "Malformed", actions } as ProposalSpec);
+
+            expect(() => loadProposalSpec(path.join(dir, "missing.yaml"))).to.throw(/Proposal spec not found/);
+            expect(() => loadProposalSpec(writeSpec("no-description.yaml", { actions: [{ target: ethers.ZeroAddress }] })))
+                .to.throw(/needs a non-empty "description"/);
+            expect(() => loadProposalSpec(writeSpec("no-actions.json", { description: "Nothing", actions: [] })))
+                .to.throw(/needs at least one action/);
+
+            await expect(encode([{ call: "setVotingPeriod", args: [10] }]))
+                .to.be.rejectedWith(/Action 0: "call" must look like ContractName.function/);
+            await expect(encode([{ call: "MagicWorldGovernance.setVotingPeriod", args: [10] }, { call: "MagicWorldGovernance.vote" }]))
+                .to.be.rejectedWith(/Action 1: MagicWorldGovernance has no function vote/);
+            await expect(encode([{ call: "MagicWorldGovernance.setVotingPeriod", args: ["ten"] }]))
+                .to.be.rejectedWith(/Action 0: cannot encode setVotingPeriod\(uint32\)/);
+            await expect(encode([{ call: "MagicWorldGovernance.setVotingPeriod", args: [10], address: "0x1234" }]))
+                .to.be.rejectedWith(/Invalid address: 0x1234/);
+            await expect(encode([{ target: "0x1234" }]))
+                .to.be.rejectedWith(/Action 0: invalid target 0x1234/);
+            await expect(encode([{ target: ethers.ZeroAddress, calldata: "setKeeper" }]))
+                .to.be.rejectedWith(/Action 0: calldata must be a hex string/);
+            await expect(encode([{ args: [10] }]))
+                .to.be.rejectedWith(/Action 0: needs either "call" or "target"/);
+        });
+    });
+
+    describe("Lifecycle", () => {
+        it("Should execute the calldata of the spec through propose, vote, queue and execute", async () => {
+            const { governance, timelock, staking, accounts, deployer } = await setupFixture();
+            const stakingAddress = await staking.getAddress();
+            const pauserRole = await staking.PAUSER_ROLE();
+            // The timelock administers staking on live networks
+            await staking.grantRole(await staking.DEFAULT_ADMIN_ROLE(), await timelock.getAddress());
+
+            const spec = writeSpec("lifecycle.yaml", {
+                description: "Shorter voting and a new pauser",
+                actions: [
+                    { call: "MagicWorldGovernance.setVotingPeriod", args: [10] },
+                    { call: "MagicWorldStaking.grantRole", args: [pauserRole, accounts[4].address] },
+                    { target: stakingAddress, calldata: staking.interface.encodeFunctionData("setKeeper", [accounts[5].address, true]) }
+                ]
+            });
+            const manifestFile = path.join(dir, "lifecycle.json");
+
+            await hre.run("gov:propose", { spec, out: manifestFile, dryRun: false });
+            const manifest: ProposalManifest = JSON.parse(fs.readFileSync(manifestFile, "utf8"));
+            expect(manifest.proposer).to.equal(deployer.address);
+            await expect(hre.run("gov:propose", { spec, out: manifestFile, dryRun: false }))
+                .to.be.rejectedWith(/Proposal already exists/);
+
+            await expect(hre.run("gov:vote", { manifest: manifestFile, support: "for", dryRun: false }))
+                .to.be.rejectedWith(/Proposal is Pending/);
+            await mine(DEV_GOVERNANCE_PARAMETERS.votingDelay + 1);
+            await expect(hre.run("gov:vote", { manifest: manifestFile, support: "maybe", dryRun: false }))
+                .to.be.rejectedWith(/Invalid support "maybe"/);
+            await hre.run("gov:vote", { manifest: manifestFile, support: "for", dryRun: false });
+            await expect(hre.run("gov:vote", { manifest: manifestFile, support: "for", dryRun: false }))
+                .to.be.rejectedWith(/has already voted/);
+
+            await expect(hre.run("gov:queue", { manifest: manifestFile, dryRun: false }))
+                .to.be.rejectedWith(/Proposal is Active/);
+            await mine(DEV_GOVERNANCE_PARAMETERS.votingPeriod);
+            await expect(hre.run("gov:execute", { manifest: manifestFile, dryRun: false }))
+                .to.be.rejectedWith(/must be queued first/);
+            await hre.run("gov:queue", { manifest: manifestFile, dryRun: false });
+            await expect(hre.run("gov:execute", { manifest: manifestFile, dryRun: false }))
+                .to.be.rejectedWith(/Timelock delay has not passed/);
+            await time.increase(DEV_GOVERNANCE_PARAMETERS.timelockMinDelay);
+            await hre.run("gov:execute", { manifest: manifestFile, dryRun: false });
+
+            // The timelock ran exactly the encoded calls
+            const executed = await timelock.queryFilter(timelock.filters.CallExecuted());
+            expect(executed.map(event => [event.args.target, event.args.value, event.args.data])).to.deep.equal([
+                [await governance.getAddress(), 0n, governance.interface.encodeFunctionData("setVotingPeriod", [10])],
+                [stakingAddress, 0n, staking.interface.encodeFunctionData("grantRole", [pauserRole, accounts[4].address])],
+                [stakingAddress, 0n, staking.interface.encodeFunctionData("setKeeper", [accounts[5].address, true])]
+            ]);
+            expect(await governance.state(manifest.proposalId)).to.equal(7); // Executed
+            expect(await governance.votingPeriod()).to.equal(10n);
+            expect(await staking.hasRole(pauserRole, accounts[4].address)).to.be.true;
+            expect(await staking.keepers(accounts[5].address)).to.be.true;
+
+            const final: ProposalManifest = JSON.parse(fs.readFileSync(manifestFile, "utf8"));
+            expect(final.queueTransaction).to.match(/^0x[0-9a-f]{64}$/);
+            expect(final.executeTransaction).to.match(/^0x[0-9a-f]{64}$/);
+        });
+
+        it("Should refuse a manifest of another chain", async () => {
+            await setupFixture();
+            const manifestFile = path.join(dir, "other-chain.json");
+            fs.writeFileSync(manifestFile, JSON.stringify({ network: "sepolia", chainId: "11155111" }));
+
+            await expect(hre.run("gov:status", { manifest: manifestFile }))
+                .to.be.rejectedWith(/was created on chain 11155111 \(sepolia\)/);
+            await expect(hre.run("gov:vote", { manifest: path.join(dir, "missing.json"), support: "for", dryRun: false }))
+                .to.be.rejectedWith(/Proposal manifest not found/);
+        });
+    });
+});
@@ -0,0 +1,325 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { expect } from "chai";
+import { deployments, ethers, getNamedAccounts, network } from "hardhat";
+import { time, mine } from "@nomicfoundation/hardhat-network-helpers";
+import {
+    MagicWorldGovernanceToken,
+    MagicWorldGovernanceUpgradeable,
+    MagicWorldStakingUpgradeable,
+    MagicWorldToken
+} from "../typechain-types";
+import { buildLedger, EventIndexer, IndexerError, JsonIndexStore, LEDGER_COLUMNS, ledgerToCsv } from "../indexer";
+
+describe("EventIndexer", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const setupFixture = deployments.createFixture(async () => {
+        await deployments.fixture(["governance", "staking"]);
+        const signers = await getNamedAccounts();
+        const accounts = await ethers.getSigners();
+        const deployer = await ethers.getSigner(signers.deployer);
+
+        const staking = await ethers.getContractAt(
+            "MagicWorldStakingUpgradeable",
+            (await deployments.get("MagicWorldStaking")).address,
+            deployer
+        ) as MagicWorldStakingUpgradeable;
+        const governance = await ethers.getContractAt(
+            "MagicWorldGovernanceUpgradeable",
+            (await deployments.get("MagicWorldGovernance")).address,
+            deployer
+        ) as MagicWorldGovernanceUpgradeable;
+        const stakingToken = await ethers.getContractAt(
+            "MagicWorldToken",
+            (await deployments.get("MagicWorldToken")).address,
+            deployer
+        ) as MagicWorldToken;
+        const magic = await ethers.getContractAt(
+            "MagicWorldGovernanceToken",
+            (await deployments.get("MagicWorldGovernanceToken")).address,
+            deployer
+        ) as MagicWorldGovernanceToken;
+
+        const stakingAddress = await staking.getAddress();
+        for (const i of [1, 2]) {
+            await stakingToken.mint(accounts[i].address, ethers.parseEther("1000"));
+            await stakingToken.connect(accounts[i]).approve(stakingAddress, ethers.MaxUint256);
+            await magic.mint(accounts[i].address, ethers.parseEther("100"));
+            await magic.connect(accounts[i]).delegate(accounts[i].address);
+        }
+        return { staking, governance, stakingToken, accounts, deployer };
+    });
+
+    function createIndexer(staking: string, governance?: string, batchSize?: number) {
+        const store = new JsonIndexStore(path.join(dir, "index.json"));
+        return new EventIndexer(ethers.provider, store, { staking, governance, batchSize });
+    }
+
+    it("Should index staking and governance events and export a user's ledger", async () => {
+        const { staking, governance, stakingToken, accounts } = await setupFixture();
+        const [user1, user2] = [accounts[1], accounts[2]];
+        const tokenAddress = await stakingToken.getAddress();
+
+        await staking.connect(user1).stake(tokenAddress, ethers.parseEther("100"));
+        await staking.connect(user2).stake(tokenAddress, ethers.parseEther("50"));
+        await time.increase(2 * 86400);
+        await staking.connect(user1).claimRewards();
+        await staking.connect(user1).unstake(tokenAddress, ethers.parseEther("40"));
+
+        const governanceAddress = await governance.getAddress();
+        const calldata = governance.interface.encodeFunctionData("setVotingPeriod", [100]);
+        await governance.connect(user1).propose([governanceAddress], [0], [calldata], "Longer voting period");
+        const proposalId = await governance.hashProposal(
+            [governanceAddress], [0], [calldata], ethers.id("Longer voting period")
+        );
+        await mine(2);
+        await governance.connect(user1).castVote(proposalId, 1);
+        await governance.connect(user2).castVote(proposalId, 0);
+
+        // Small batches, so the range takes several requests
+        const indexer = createIndexer(await staking.getAddress(), governanceAddress, 5);
+        const result = await indexer.sync();
+        expect(result.toBlock).to.equal(await ethers.provider.getBlockNumber());
+        expect(result.removed).to.equal(0);
+
+        const state = indexer.store.load()!;
+        expect(state.lastBlock).to.equal(result.toBlock);
+        expect(state.rewardToken).to.equal(await staking.rewardToken());
+        const events = state.events.filter(event => event.blockNumber >= result.toBlock - 20);
+        expect(events.map(event => event.event)).to.include.members([
+            "Staked", "RewardClaimed", "Unstaked", "ProposalCreated", "VoteCast"
+        ]);
+        // Deployment whitelisted the staking token
+        expect(state.events.map(event => event.event)).to.include("TokenWhitelisted");
+        expect(state.events.length).to.equal(result.added);
+
+        const ledger = buildLedger(state, user1.address);
+        expect(ledger.map(entry => entry.event)).to.deep.equal([
+            "Staked", "RewardClaimed", "Unstaked", "ProposalCreated", "VoteCast"
+        ]);
+        expect(ledger[0]).to.include({ account: user1.address, token: tokenAddress, amount: ethers.parseEther("100").toString() });
+        expect(ledger[1].token).to.equal(await staking.rewardToken());
+        expect(BigInt(ledger[1].amount!)).to.be.gt(0n);
+        expect(ledger[4]).to.include({ proposalId: proposalId.toString(), support: "1", weight: ethers.parseEther("100").toString() });
+        expect(ledger[0].date).to.equal(new Date(ledger[0].timestamp * 1000).toISOString());
+
+        const csv = ledgerToCsv(ledger).trim().split("\n");
+        expect(csv[0]).to.equal(LEDGER_COLUMNS.join(","));
+        expect(csv).to.have.length(6);
+        expect(csv[3].split(",")).to.include.members(["Unstaked", ethers.parseEther("40").toString()]);
+
+        // The store round-trips through JSON
+        const reloaded = JSON.parse(JSON.stringify(buildLedger(indexer.store.load()!)));
+        expect(reloaded.filter((entry: { account: string }) => entry.account === user2.address)).to.have.length(2);
+    });
+
+    describe("Ledger", () => {
+        async function syncLedger(staking: MagicWorldStakingUpgradeable, account: string) {
+            const indexer = createIndexer(await staking.getAddress());
+            await indexer.sync();
+            return buildLedger(indexer.store.load()!, account);
+        }
+
+        it("Should record locked stakes with their position, tier and unlock time", async () => {
+            const { staking, stakingToken, accounts } = await setupFixture();
+            const user = accounts[1];
+            const tokenAddress = await stakingToken.getAddress();
+
+            await staking.connect(user).stakeLocked(tokenAddress, ethers.parseEther("100"), 1);
+            const [position] = await staking.getUserLocks(user.address);
+
+            const [entry] = await syncLedger(staking, user.address);
+            expect(entry).to.include({
+                account: user.address,
+                event: "StakedLocked",
+                token: tokenAddress,
+                amount: ethers.parseEther("100").toString(),
+                positionId: "0",
+                tierId: "1",
+                unlockTime: position.unlockTime.toString()
+            });
+        });
+
+        it("Should record withdrawals of locked positions", async () => {
+            const { staking, stakingToken, accounts } = await setupFixture();
+            const user = accounts[1];
+            const tokenAddress = await stakingToken.getAddress();
+
+            await staking.connect(user).stakeLocked(tokenAddress, ethers.parseEther("100"), 0);
+            await staking.connect(user).stakeLocked(tokenAddress, ethers.parseEther("20"), 0);
+            await time.increase(30 * 86400);
+            await staking.connect(user).withdrawLocked(1);
+
+            const ledger = await syncLedger(staking, user.address);
+            expect(ledger.map(entry => entry.event)).to.deep.equal(["StakedLocked", "StakedLocked", "LockedWithdrawn"]);
+            expect(ledger[2]).to.include({
+                token: tokenAddress,
+                amount: ethers.parseEther("20").toString(),
+                positionId: "1"
+            });
+            expect(ledger[2].tierId).to.be.undefined;
+        });
+
+        it("Should record emergency withdrawals", async () => {
+            const { staking, stakingToken, accounts } = await setupFixture();
+            const user = accounts[1];
+            const tokenAddress = await stakingToken.getAddress();
+
+            await staking.connect(user).stake(tokenAddress, ethers.parseEther("100"));
+            await staking.setEmergencyMode(true);
+            await staking.connect(user).emergencyWithdraw(tokenAddress);
+
+            const ledger = await syncLedger(staking, user.address);
+            expect(ledger.map(entry => entry.event)).to.deep.equal(["Staked", "EmergencyWithdrawn"]);
+            expect(ledger[1]).to.include({ token: tokenAddress, amount: ethers.parseEther("100").toString() });
+        });
+
+        it("Should record compounded rewards in the main reward token", async () => {
+            const { staking, stakingToken, accounts } = await setupFixture();
+            const user = accounts[1];
+            const rewardAddress = await staking.rewardToken();
+
+            await staking.addToken(rewardAddress, 3600);
+            await staking.connect(user).stake(await stakingToken.getAddress(), ethers.parseEther("100"));
+            await time.increase(86400);
+            const tx = await staking.connect(user).compound();
+            const compounded = (await tx.wait())!.logs
+                .map(log => staking.interface.parseLog(log))
+                .find(log => log?.name === "Compounded")!.args.amount;
+
+            const ledger = await syncLedger(staking, user.address);
+            expect(ledger.map(entry => entry.event)).to.deep.equal(["Staked", "Compounded"]);
+            expect(ledger[1]).to.include({ token: rewardAddress, amount: compounded.toString() });
+        });
+
+        it("Should record claims of other reward tokens in that token", async () => {
+            const { staking, stakingToken, accounts, deployer } = await setupFixture();
+            const user = accounts[1];
+
+            const partnerToken = await ethers.deployContract("MockRewardToken", [], deployer);
+            const partnerAddress = await partnerToken.getAddress();
+            await partnerToken.mint(deployer.address, ethers.parseEther("8640"));
+            await partnerToken.approve(await staking.getAddress(), ethers.MaxUint256);
+            await staking.addRewardToken(partnerAddress, 86400);
+            await staking.fundRewardToken(partnerAddress, ethers.parseEther("8640"));
+
+            await staking.connect(user).stake(await stakingToken.getAddress(), ethers.parseEther("100"));
+            await time.increase(3600);
+            await staking.connect(user).claimReward(partnerAddress);
+
+            const ledger = await syncLedger(staking, user.address);
+            expect(ledger.map(entry => entry.event)).to.deep.equal(["Staked", "RewardTokenClaimed"]);
+            expect(ledger[1].token).to.equal(partnerAddress);
+            expect(ledger[1].amount).to.equal((await partnerToken.balanceOf(user.address)).toString());
+        });
+
+        it("Should record reward fundings and epochs on the staking contract's ledger", async () => {
+            const { staking, deployer } = await setupFixture();
+            const stakingAddress = await staking.getAddress();
+
+            const partnerToken = await ethers.deployContract("MockRewardToken", [], deployer);
+            const partnerAddress = await partnerToken.getAddress();
+            await partnerToken.mint(deployer.address, ethers.parseEther("10000"));
+            await partnerToken.approve(stakingAddress, ethers.MaxUint256);
+            await staking.addRewardToken(partnerAddress, 86400);
+            await staking.fundRewardToken(partnerAddress, ethers.parseEther("8640"));
+
+            const { periodFinish } = await staking.rewardData(partnerAddress);
+            await staking.scheduleRewardEpoch(partnerAddress, periodFinish, 86400, ethers.parseEther("864"));
+            await staking.cancelRewardEpoch(partnerAddress, 0);
+
+            const ledger = await syncLedger(staking, stakingAddress);
+            // The deployment funded the main reward token
+            expect(ledger.map(entry => entry.event)).to.deep.equal([
+                "RewardsFunded", "RewardTokenFunded", "RewardEpochScheduled", "RewardEpochCancelled"
+            ]);
+            expect(ledger[0].token).to.equal(await staking.rewardToken());
+            expect(ledger[1]).to.include({ token: partnerAddress, amount: ethers.parseEther("8640").toString() });
+            expect(ledger[2]).to.include({
+                token: partnerAddress,
+                amount: ethers.parseEther("864").toString(),
+                epochId: "0",
+                epochStart: periodFinish.toString(),
+                epochDuration: "86400"
+            });
+            expect(ledger[3]).to.include({ token: partnerAddress, amount: ethers.parseEther("864").toString(), epochId: "0" });
+        });
+    });
+
+    it("Should resume from the last indexed block", async () => {
+        const { staking, stakingToken, accounts } = await setupFixture();
+        const tokenAddress = await stakingToken.getAddress();
+        const indexer = createIndexer(await staking.getAddress());
+
+        const first = await indexer.sync();
+        await staking.connect(accounts[1]).stake(tokenAddress, ethers.parseEther("10"));
+        await mine(3);
+
+        // A new indexer on the same store carries on where the last one stopped
+        const resumed = createIndexer(await staking.getAddress());
+        const second = await resumed.sync();
+        expect(second.fromBlock).to.equal(first.toBlock + 1);
+        expect(second.added).to.equal(1);
+
+        const third = await resumed.sync();
+        expect(third.added).to.equal(0);
+        expect(third.toBlock).to.be.lt(third.fromBlock);
+
+        const state = resumed.store.load()!;
+        expect(state.events.filter(event => event.event === "Staked")).to.have.length(1);
+        expect(state.events.length).to.equal(first.added + 1);
+    });
+
+    it("Should drop and reindex events of reorged blocks", async () => {
+        const { staking, stakingToken, accounts } = await setupFixture();
+        const [user1, user2] = [accounts[1], accounts[2]];
+        const tokenAddress = await stakingToken.getAddress();
+        const indexer = createIndexer(await staking.getAddress());
+
+        await staking.connect(user1).stake(tokenAddress, ethers.parseEther("10"));
+        const before = await indexer.sync();
+
+        // Index a stake on a fork that then gets replaced
+        const snapshot = await network.provider.send("evm_snapshot");
+        await staking.connect(user1).stake(tokenAddress, ethers.parseEther("20"));
+        await mine(2);
+        await indexer.sync();
+        expect(indexer.store.load()!.events.filter(event => event.event === "Staked")).to.have.length(2);
+
+        await network.provider.send("evm_revert", [snapshot]);
+        await staking.connect(user2).stake(tokenAddress, ethers.parseEther("30"));
+        await mine(4);
+
+        const result = await indexer.sync();
+        expect(result.reorgedTo).to.equal(before.toBlock);
+        expect(result.removed).to.equal(1);
+        expect(result.added).to.equal(1);
+
+        const stakes = indexer.store.load()!.events.filter(event => event.event === "Staked");
+        expect(stakes.map(event => [event.args.user, event.args.amount])).to.deep.equal([
+            [user1.address, ethers.parseEther("10").toString()],
+            [user2.address, ethers.parseEther("30").toString()]
+        ]);
+        for (const event of stakes) {
+            expect((await ethers.provider.getBlock(event.blockNumber))!.hash).to.equal(event.blockHash);
+        }
+    });
+
+    it("Should refuse a store that indexes other contracts", async () => {
+        const { staking, governance } = await setupFixture();
+        await createIndexer(await staking.getAddress()).sync();
+
+        await expect(createIndexer(await staking.getAddress(), await governance.getAddress()).sync())
+            .to.be.rejectedWith(IndexerError, /Use another store file/);
+    });
+});
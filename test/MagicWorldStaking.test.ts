@@ -6,36 +6,39 @@ import {
     MagicWorldToken,
     MockRewardToken
 } from "../typechain-types";
+import { DEV_MIN_STAKE_DURATION } from "../helper-hardhat-config";
+
+// Virtual balance MagicWorldStaking counts for a rebasing token
+const VIRTUAL_BALANCE = 1000n;
 
 describe("MagicWorldStaking", () => {
     const setupFixture = deployments.createFixture(async () => {
-        await deployments.fixture();
+        await deployments.fixture(["staking"]);
         const signers = await getNamedAccounts();
         const accounts = await ethers.getSigners();
 
         const owner = await ethers.getSigner(signers.deployer);
 
-        // Deploy staking token
-        const stakingToken = await ethers.deployContract(
+        // Staking token and mock reward token come from the "mocks" deployment
+        const stakingToken = await ethers.getContractAt(
             "MagicWorldToken",
-            [],
-            await ethers.getSigner(signers.deployer)
+            (await deployments.get("MagicWorldToken")).address,
+            owner
         ) as MagicWorldToken;
         console.log("Staking Token Address:", await stakingToken.getAddress());
 
-        // Deploy mock reward token
-        const rewardToken = await ethers.deployContract(
+        const rewardToken = await ethers.getContractAt(
             "MockRewardToken",
-            [],
-            await ethers.getSigner(signers.deployer)
+            (await deployments.get("MockRewardToken")).address,
+            owner
         ) as MockRewardToken;
         console.log("Reward Token Address:", await rewardToken.getAddress());
 
-        // Deploy staking contract
-        const staking = await ethers.deployContract(
+        // Staking contract is deployed with the staking token whitelisted and rewards funded
+        const staking = await ethers.getContractAt(
             "MagicWorldStaking",
-            [await rewardToken.getAddress()],
-            await ethers.getSigner(signers.deployer)
+            (await deployments.get("MagicWorldStaking")).address,
+            owner
         ) as MagicWorldStaking;
         console.log("Staking Contract Address:", await staking.getAddress());
 
@@ -61,10 +64,8 @@ describe("MagicWorldStaking", () => {
         console.log("Account 3 staking tokens:", ethers.formatEther(await stakingToken.balanceOf(accounts[3].address)));
         console.log("Staking contract reward tokens:", ethers.formatEther(await rewardToken.balanceOf(await staking.getAddress())));
 
-        // Add a token to whitelist before tests
-        const minStakeDuration = 86400; // 1 day in seconds
-        await staking.addToken(await stakingToken.getAddress(), minStakeDuration);
-        await staking.connect(owner).fundRewards(ethers.parseEther("1000"));
+        // Token is whitelisted by the deployment with the development duration
+        const minStakeDuration = DEV_MIN_STAKE_DURATION;
         return { staking, stakingToken, rewardToken, accounts, minStakeDuration, owner };
     });
 
@@ -158,6 +159,30 @@ describe("MagicWorldStaking", () => {
             const latestBlock = await ethers.provider.getBlock("latest");
             expect(userStake.timestamp).to.be.closeTo(BigInt(latestBlock?.timestamp || 0), 5n);
         });
+
+        it("Should track the tokens a user has a stake in", async () => {
+            const { staking, stakingToken, accounts, minStakeDuration, owner } = await setupFixture();
+            const user = accounts[1];
+            const tokenAddress = await stakingToken.getAddress();
+            const otherToken = await ethers.deployContract("MagicWorldToken", [], owner);
+            const otherAddress = await otherToken.getAddress();
+            await staking.addToken(otherAddress, minStakeDuration);
+            await otherToken.mint(user.address, ethers.parseEther("100"));
+            await otherToken.connect(user).approve(await staking.getAddress(), ethers.MaxUint256);
+
+            await staking.connect(user).stake(tokenAddress, ethers.parseEther("100"));
+            await staking.connect(user).stakeLocked(otherAddress, ethers.parseEther("100"), 0);
+            await staking.connect(user).stake(tokenAddress, ethers.parseEther("10"));
+            expect(await staking.getUserTokens(user.address)).to.deep.equal([tokenAddress, otherAddress]);
+
+            // A token leaves the list once its whole stake is withdrawn, accrued rewards stay
+            await time.increase(minStakeDuration);
+            await staking.connect(user).unstake(tokenAddress, ethers.parseEther("110"));
+            expect(await staking.getUserTokens(user.address)).to.deep.equal([otherAddress]);
+            const accrued = await staking.rewards(user.address, await staking.rewardToken());
+            expect(accrued).to.be.gt(0n);
+            expect(await staking.getPendingRewards(user.address)).to.be.gte(accrued);
+        });
     });
 
     describe("Unstaking", () => {
@@ -228,6 +253,45 @@ describe("MagicWorldStaking", () => {
             await expect(staking.connect(accounts[1]).unstake(await stakingToken.getAddress(), ethers.parseEther("150")))
                 .to.be.revertedWith("Insufficient stake");
         });
+
+        it("Should keep each deposit's lock clock and unstake matured deposits first", async () => {
+            const { staking, stakingToken, accounts, minStakeDuration } = await setupFixture();
+            const user = accounts[1];
+            const tokenAddress = await stakingToken.getAddress();
+
+            // 1000 tokens staked a while ago, topped up with 1 token just before they unlock
+            await staking.connect(user).stake(tokenAddress, ethers.parseEther("500"));
+            await staking.connect(user).stake(tokenAddress, ethers.parseEther("499"));
+            await time.increase(minStakeDuration - 100);
+            await staking.connect(user).stake(tokenAddress, ethers.parseEther("1"));
+
+            const [lots, unlockTimes] = await staking.getStakeLots(user.address, tokenAddress);
+            expect(lots.map((lot) => lot.amount)).to.deep.equal(
+                [ethers.parseEther("500"), ethers.parseEther("499"), ethers.parseEther("1")]);
+            expect(unlockTimes[2]).to.equal(BigInt(await time.latest() + minStakeDuration));
+
+            // The top-up does not relock the earlier deposits
+            await time.increaseTo(unlockTimes[1]);
+            expect(await staking.getUnlockedAmount(user.address, tokenAddress)).to.equal(ethers.parseEther("999"));
+            await expect(staking.connect(user).unstake(tokenAddress, ethers.parseEther("1000")))
+                .to.be.revertedWith("Minimum stake duration not met");
+
+            // Oldest deposits are withdrawn first, partially consuming the second lot
+            await staking.connect(user).unstake(tokenAddress, ethers.parseEther("600"));
+            const [lotsAfter] = await staking.getStakeLots(user.address, tokenAddress);
+            expect(lotsAfter.map((lot) => lot.amount)).to.deep.equal([ethers.parseEther("399"), ethers.parseEther("1")]);
+            expect((await staking.userStakes(user.address, tokenAddress)).amount).to.equal(ethers.parseEther("400"));
+
+            await staking.connect(user).unstake(tokenAddress, ethers.parseEther("399"));
+            await expect(staking.connect(user).unstake(tokenAddress, ethers.parseEther("1")))
+                .to.be.revertedWith("Minimum stake duration not met");
+
+            await time.increaseTo(unlockTimes[2]);
+            await staking.connect(user).unstake(tokenAddress, ethers.parseEther("1"));
+            expect(await stakingToken.balanceOf(user.address)).to.equal(ethers.parseEther("1000"));
+            const [lotsEnd] = await staking.getStakeLots(user.address, tokenAddress);
+            expect(lotsEnd).to.be.empty;
+        });
     });
 
     describe("Rewards", () => {
@@ -257,9 +321,10 @@ describe("MagicWorldStaking", () => {
             const initialRewards = await staking.getPendingRewards(accounts[1].address);
             console.log("Initial rewards:", ethers.formatEther(initialRewards));
 
-            // Log the reward debt for this user
-            const userStake = await staking.userStakes(accounts[1].address, await stakingToken.getAddress());
-            console.log("User reward debt:", ethers.formatEther(userStake.rewardDebt));
+            // Log the reward per token paid for this user
+            const rewardPerTokenPaid = await staking.userRewardPerTokenPaid(
+                accounts[1].address, await stakingToken.getAddress(), await rewardToken.getAddress());
+            console.log("User reward per token paid:", ethers.formatEther(rewardPerTokenPaid));
 
             // Advance time by 1 hour
             const advanceTime = 3600;
@@ -358,8 +423,9 @@ describe("MagicWorldStaking", () => {
                 } catch (error: any) {
                     console.error("Claim failed with error:", error.message);
                     // Log internal contract state that might affect claiming
-                    const userStake = await staking.userStakes(accounts[1].address, await stakingToken.getAddress());
-                    console.log("User reward debt:", ethers.formatEther(userStake.rewardDebt));
+                    const rewardPerTokenPaid = await staking.userRewardPerTokenPaid(
+                        accounts[1].address, await stakingToken.getAddress(), await rewardToken.getAddress());
+                    console.log("User reward per token paid:", ethers.formatEther(rewardPerTokenPaid));
                     console.log("Last reward time:", await staking.lastUpdateTime());
                     console.log("Contract implementation might differ from expected behavior");
                     throw error; // Re-throw to fail the test
@@ -370,43 +436,38 @@ describe("MagicWorldStaking", () => {
             }
         });
 
-        it("Should reset reward debt when staking more tokens", async () => {
+        it("Should keep accrued rewards when staking more tokens", async () => {
             const { staking, rewardToken, accounts, stakingToken } = await setupFixture();
+            const tokenAddress = await stakingToken.getAddress();
 
             // Stake initial tokens
-            await staking.connect(accounts[1]).stake(await stakingToken.getAddress(), ethers.parseEther("100"));
+            await staking.connect(accounts[1]).stake(tokenAddress, ethers.parseEther("100"));
 
             // Advance time by 1 hour
             await time.increase(3600);
 
-            // Get pending rewards
-            const pendingRewards = await staking.getPendingRewards(accounts[1].address);
-
-            // Check reward balance before
+            // Staking more settles the accrued rewards without claiming them
             const balanceBefore = await rewardToken.balanceOf(accounts[1].address);
+            await staking.connect(accounts[1]).stake(tokenAddress, ethers.parseEther("50"));
+            expect(await rewardToken.balanceOf(accounts[1].address)).to.equal(balanceBefore);
 
-            // Stake more tokens (doesn't automatically claim rewards in the actual contract)
-            await staking.connect(accounts[1]).stake(await stakingToken.getAddress(), ethers.parseEther("50"));
-
-            // Check reward balance after
-            const balanceAfter = await rewardToken.balanceOf(accounts[1].address);
-
-            // If rewards were auto-claimed, balances would differ
-            if (balanceAfter > balanceBefore) {
-                console.log("Rewards were auto-claimed");
-            } else {
-                console.log("Rewards were not auto-claimed (expected behavior)");
-            }
+            const pendingRewards = await staking.getPendingRewards(accounts[1].address);
+            expect(pendingRewards).to.be.gt(0n);
 
-            // If there are pending rewards, claim them manually
-            if (pendingRewards > 0) {
-                try {
-                    await staking.connect(accounts[1]).claimRewards();
-                    expect(await rewardToken.balanceOf(accounts[1].address)).to.equal(pendingRewards);
-                } catch (error: any) {
-                    console.log("Failed to claim rewards:", error.message);
-                }
-            }
+            // The claim is mined a second later, when the whole 150 tokens earn
+            // the stream alone
+            const rewardRate = await staking.rewardRate();
+            const { weight } = await staking.whitelistedTokens(tokenAddress);
+            const { boostedAmount } = await staking.userStakes(accounts[1].address, tokenAddress);
+            const PRECISION = await staking.PRECISION();
+            const WEIGHT_PRECISION = await staking.WEIGHT_PRECISION();
+            const rewardPerToken = (rewardRate * PRECISION) / (await staking.totalWeightedStaked());
+            const poolRewardPerToken = (rewardPerToken * weight) / WEIGHT_PRECISION;
+            const extraSecond = (boostedAmount * poolRewardPerToken) / PRECISION;
+
+            await staking.connect(accounts[1]).claimRewards();
+            expect(await rewardToken.balanceOf(accounts[1].address))
+                .to.equal(balanceBefore + pendingRewards + extraSecond);
         });
     });
 
@@ -464,7 +525,7 @@ describe("MagicWorldStaking", () => {
     });
 
     describe("Admin Functions", () => {
-        it("Should allow owner to pause and unpause staking", async () => {
+        it("Should allow the admin to pause and unpause staking", async () => {
             const { staking, accounts, stakingToken } = await setupFixture();
 
             // Pause staking
@@ -491,7 +552,29 @@ describe("MagicWorldStaking", () => {
             await staking.connect(accounts[1]).stake(await stakingToken.getAddress(), ethers.parseEther("100"));
         });
 
-        it("Should prevent non-owners from calling admin functions", async () => {
+        it("Should whitelist several tokens in one call", async () => {
+            const { staking, accounts, owner } = await setupFixture();
+
+            const tokenA = await ethers.deployContract("MagicWorldToken", [], owner) as MagicWorldToken;
+            const tokenB = await ethers.deployContract("MockRewardToken", [], owner) as MockRewardToken;
+
+            await expect(staking.addTokens(
+                [await tokenA.getAddress(), await tokenB.getAddress()],
+                [3600, 7200]
+            ))
+                .to.emit(staking, "TokenWhitelisted").withArgs(await tokenA.getAddress(), 3600)
+                .and.to.emit(staking, "TokenWhitelisted").withArgs(await tokenB.getAddress(), 7200);
+
+            expect(await staking.getWhitelistedTokensCount()).to.equal(3);
+            expect((await staking.whitelistedTokens(await tokenB.getAddress())).minStakeDuration).to.equal(7200);
+
+            await expect(staking.addTokens([await tokenA.getAddress()], []))
+                .to.be.revertedWith("Array length mismatch");
+            await expect(staking.connect(accounts[1]).addTokens([], []))
+                .to.be.reverted;
+        });
+
+        it("Should prevent accounts without a role from calling admin functions", async () => {
             const { staking, accounts } = await setupFixture();
 
             // Only test pause functionality since updateRewardRate and updateMinStakingPeriod don't exist
@@ -500,6 +583,773 @@ describe("MagicWorldStaking", () => {
         });
     });
 
+    describe("Roles", () => {
+        it("Should let each role call only its own functions", async () => {
+            const { staking, stakingToken, rewardToken, accounts, owner } = await setupFixture();
+            const [pauser, distributor, manager] = accounts.slice(4, 7);
+            const tokenAddress = await stakingToken.getAddress();
+            const adminRole = await staking.DEFAULT_ADMIN_ROLE();
+            const pauserRole = await staking.PAUSER_ROLE();
+            const distributorRole = await staking.REWARD_DISTRIBUTOR_ROLE();
+            const managerRole = await staking.TOKEN_MANAGER_ROLE();
+
+            // The deployer starts with every role
+            for (const role of [adminRole, pauserRole, distributorRole, managerRole]) {
+                expect(await staking.hasRole(role, owner.address)).to.be.true;
+            }
+            await staking.grantRole(pauserRole, pauser.address);
+            await staking.grantRole(distributorRole, distributor.address);
+            await staking.grantRole(managerRole, manager.address);
+
+            // A pauser can pause but only the admin can unpause
+            await staking.connect(pauser).pause();
+            await expect(staking.connect(pauser).unpause())
+                .to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount")
+                .withArgs(pauser.address, adminRole);
+            await staking.unpause();
+            await expect(staking.connect(manager).pause())
+                .to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount")
+                .withArgs(manager.address, pauserRole);
+
+            // A distributor funds rewards but can't touch the whitelist
+            await rewardToken.mint(distributor.address, ethers.parseEther("100"));
+            await rewardToken.connect(distributor).approve(await staking.getAddress(), ethers.MaxUint256);
+            await expect(staking.connect(distributor).fundRewards(ethers.parseEther("100")))
+                .to.emit(staking, "RewardsFunded");
+            await expect(staking.connect(distributor).updateMinStakeDuration(tokenAddress, 3600))
+                .to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount")
+                .withArgs(distributor.address, managerRole);
+
+            // A token manager manages the whitelist but not the reward settings
+            await expect(staking.connect(manager).updateMinStakeDuration(tokenAddress, 3600))
+                .to.emit(staking, "MinStakeDurationUpdated")
+                .withArgs(tokenAddress, 3600);
+            await expect(staking.connect(manager).setRewardsDuration(86400))
+                .to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount")
+                .withArgs(manager.address, adminRole);
+        });
+
+        it("Should only let the admin grant and revoke roles", async () => {
+            const { staking, accounts, owner } = await setupFixture();
+            const pauserRole = await staking.PAUSER_ROLE();
+            const pauser = accounts[4];
+
+            await expect(staking.connect(pauser).grantRole(pauserRole, pauser.address))
+                .to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount")
+                .withArgs(pauser.address, await staking.DEFAULT_ADMIN_ROLE());
+
+            await expect(staking.grantRole(pauserRole, pauser.address))
+                .to.emit(staking, "RoleGranted")
+                .withArgs(pauserRole, pauser.address, owner.address);
+            await expect(staking.revokeRole(pauserRole, pauser.address))
+                .to.emit(staking, "RoleRevoked")
+                .withArgs(pauserRole, pauser.address, owner.address);
+            await expect(staking.connect(pauser).pause())
+                .to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+        });
+    });
+
+    describe("Token Weights", () => {
+        // Whitelists a second staking token and stakes 100 of each, MWT from account 1 and the new token from account 2
+        async function setupTwoTokens() {
+            const fixture = await setupFixture();
+            const { staking, stakingToken, accounts, owner, minStakeDuration } = fixture;
+
+            const otherToken = await ethers.deployContract("MagicWorldToken", [], owner) as MagicWorldToken;
+            await staking.addToken(await otherToken.getAddress(), minStakeDuration);
+            await otherToken.mint(accounts[2].address, ethers.parseEther("1000"));
+            await otherToken.connect(accounts[2]).approve(await staking.getAddress(), ethers.MaxUint256);
+
+            return { ...fixture, otherToken, stake: async () => {
+                await staking.connect(accounts[1]).stake(await stakingToken.getAddress(), ethers.parseEther("100"));
+                await staking.connect(accounts[2]).stake(await otherToken.getAddress(), ethers.parseEther("100"));
+            } };
+        }
+
+        it("Should split rewards between tokens by weight", async () => {
+            const { staking, stakingToken, otherToken, accounts, stake } = await setupTwoTokens();
+            const weightPrecision = await staking.WEIGHT_PRECISION();
+
+            // New tokens start at 1x
+            expect((await staking.whitelistedTokens(await otherToken.getAddress())).weight).to.equal(weightPrecision);
+
+            await expect(staking.setTokenWeight(await otherToken.getAddress(), 3n * weightPrecision))
+                .to.emit(staking, "TokenWeightUpdated")
+                .withArgs(await otherToken.getAddress(), weightPrecision, 3n * weightPrecision);
+
+            await stake();
+            expect(await staking.totalNormalizedStaked()).to.equal(ethers.parseEther("200"));
+            expect(await staking.totalWeightedStaked()).to.equal(ethers.parseEther("400"));
+
+            await time.increase(86400);
+
+            // 100 tokens at 3x earn three times as much as 100 tokens at 1x
+            const pending1 = await staking.getPendingRewards(accounts[1].address);
+            const pending2 = await staking.getPendingRewards(accounts[2].address);
+            console.log("Pending rewards at 1x:", ethers.formatEther(pending1));
+            console.log("Pending rewards at 3x:", ethers.formatEther(pending2));
+            expect(pending2).to.be.closeTo(pending1 * 3n, pending1 / 1000n);
+
+            // Together they receive the whole reward stream
+            const rewardRate = await staking.rewardRate();
+            expect(pending1 + pending2).to.be.closeTo(rewardRate * 86400n, rewardRate * 5n);
+            expect((await staking.whitelistedTokens(await stakingToken.getAddress())).weight).to.equal(weightPrecision);
+        });
+
+        it("Should settle accrued rewards before a weight change", async () => {
+            const { staking, otherToken, accounts, stake } = await setupTwoTokens();
+            const weightPrecision = await staking.WEIGHT_PRECISION();
+            const rewardRate = await staking.rewardRate();
+            const dailyRewards = rewardRate * 86400n;
+
+            // Day 1 at equal weights: half of the rewards each
+            await stake();
+            await time.increase(86400);
+            const pendingBefore = await staking.getPendingRewards(accounts[1].address);
+
+            // Accrued rewards are kept at the old weight
+            await staking.setTokenWeight(await otherToken.getAddress(), 3n * weightPrecision);
+            expect(await staking.getPendingRewards(accounts[1].address)).to.be.closeTo(pendingBefore, rewardRate * 2n);
+
+            // Day 2 at 1x vs 3x: a quarter and three quarters
+            await time.increase(86400);
+            const pending1 = await staking.getPendingRewards(accounts[1].address);
+            const pending2 = await staking.getPendingRewards(accounts[2].address);
+            console.log("Pending rewards after rebalancing:", ethers.formatEther(pending1), ethers.formatEther(pending2));
+            expect(pending1).to.be.closeTo(dailyRewards / 2n + dailyRewards / 4n, rewardRate * 5n);
+            expect(pending2).to.be.closeTo(dailyRewards / 2n + (dailyRewards * 3n) / 4n, rewardRate * 5n);
+        });
+
+        it("Should restrict and validate weight updates", async () => {
+            const { staking, stakingToken, otherToken, accounts, stake } = await setupTwoTokens();
+            const weightPrecision = await staking.WEIGHT_PRECISION();
+            const maxWeight = await staking.MAX_WEIGHT();
+
+            await expect(staking.connect(accounts[1]).setTokenWeight(await otherToken.getAddress(), weightPrecision))
+                .to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+            await expect(staking.setTokenWeight(await otherToken.getAddress(), maxWeight + 1n))
+                .to.be.revertedWith("Weight too high");
+            await expect(staking.setTokenWeight(accounts[1].address, weightPrecision))
+                .to.be.revertedWith("Token not whitelisted");
+            await expect(staking.setTokenWeights([await otherToken.getAddress()], []))
+                .to.be.revertedWith("Array length mismatch");
+
+            // Rebalance both tokens at once; a zero weight stops rewards for a token
+            await stake();
+            await expect(staking.setTokenWeights(
+                [await stakingToken.getAddress(), await otherToken.getAddress()],
+                [0, 2n * weightPrecision]
+            ))
+                .to.emit(staking, "TokenWeightUpdated").withArgs(await stakingToken.getAddress(), weightPrecision, 0)
+                .and.to.emit(staking, "TokenWeightUpdated").withArgs(await otherToken.getAddress(), weightPrecision, 2n * weightPrecision);
+            expect(await staking.totalWeightedStaked()).to.equal(ethers.parseEther("200"));
+
+            const pendingBefore = await staking.getPendingRewards(accounts[1].address);
+            await time.increase(86400);
+            expect(await staking.getPendingRewards(accounts[1].address)).to.equal(pendingBefore);
+        });
+    });
+
+    describe("Multiple Reward Tokens", () => {
+        // Adds a partner reward token paid over 1 day and funds it with 8640 tokens (0.1 per second)
+        async function setupPartnerReward() {
+            const fixture = await setupFixture();
+            const { staking, owner } = fixture;
+
+            const partnerToken = await ethers.deployContract("MockRewardToken", [], owner) as MockRewardToken;
+            await partnerToken.mint(owner.address, ethers.parseEther("10000"));
+            await partnerToken.approve(await staking.getAddress(), ethers.MaxUint256);
+
+            await expect(staking.addRewardToken(await partnerToken.getAddress(), 86400))
+                .to.emit(staking, "RewardTokenAdded")
+                .withArgs(await partnerToken.getAddress(), 86400);
+            await expect(staking.fundRewardToken(await partnerToken.getAddress(), ethers.parseEther("8640")))
+                .to.emit(staking, "RewardTokenFunded")
+                .withArgs(await partnerToken.getAddress(), ethers.parseEther("8640"));
+
+            return { ...fixture, partnerToken };
+        }
+
+        it("Should accrue every reward token with its own rate", async () => {
+            const { staking, stakingToken, rewardToken, partnerToken, accounts } = await setupPartnerReward();
+
+            expect(await staking.getRewardTokensCount()).to.equal(2);
+            expect(await staking.rewardTokens(0)).to.equal(await rewardToken.getAddress());
+            expect(await staking.rewardTokens(1)).to.equal(await partnerToken.getAddress());
+
+            const partnerData = await staking.rewardData(await partnerToken.getAddress());
+            expect(partnerData.rewardRate).to.equal(ethers.parseEther("0.1"));
+            expect(partnerData.rewardsDuration).to.equal(86400);
+            const mainRate = await staking.rewardRate();
+            console.log("Main reward rate:", ethers.formatEther(mainRate));
+            console.log("Partner reward rate:", ethers.formatEther(partnerData.rewardRate));
+
+            await staking.connect(accounts[1]).stake(await stakingToken.getAddress(), ethers.parseEther("100"));
+            await time.increase(3600);
+
+            // A single staker receives both streams in full
+            const [tokens, amounts] = await staking.getAllPendingRewards(accounts[1].address);
+            console.log("Pending rewards:", amounts.map((amount) => ethers.formatEther(amount)));
+            expect(tokens).to.deep.equal([await rewardToken.getAddress(), await partnerToken.getAddress()]);
+            expect(amounts[0]).to.be.closeTo(mainRate * 3600n, mainRate * 2n);
+            expect(amounts[1]).to.be.closeTo(partnerData.rewardRate * 3600n, partnerData.rewardRate * 2n);
+            expect(amounts[0]).to.equal(await staking.getPendingRewards(accounts[1].address));
+            expect(amounts[1]).to.equal(await staking.getPendingReward(accounts[1].address, await partnerToken.getAddress()));
+
+            // The partner period ends after a day while the main one keeps going
+            await time.increase(2 * 86400);
+            const partnerPending = await staking.getPendingReward(accounts[1].address, await partnerToken.getAddress());
+            expect(partnerPending).to.be.closeTo(ethers.parseEther("8640"), ethers.parseEther("1"));
+            expect(await staking.getPendingRewards(accounts[1].address)).to.be.closeTo(mainRate * (2n * 86400n + 3600n), mainRate * 5n);
+        });
+
+        it("Should claim a single reward token or all of them", async () => {
+            const { staking, stakingToken, rewardToken, partnerToken, accounts } = await setupPartnerReward();
+            const user = accounts[1];
+
+            await staking.connect(user).stake(await stakingToken.getAddress(), ethers.parseEther("100"));
+            await time.increase(3600);
+
+            // Claiming the partner token leaves the main rewards pending
+            await expect(staking.connect(user).claimReward(await partnerToken.getAddress()))
+                .to.emit(staking, "RewardTokenClaimed")
+                .and.not.to.emit(staking, "RewardClaimed");
+            const partnerBalance = await partnerToken.balanceOf(user.address);
+            console.log("Partner rewards claimed:", ethers.formatEther(partnerBalance));
+            expect(partnerBalance).to.be.gt(0n);
+            expect(await rewardToken.balanceOf(user.address)).to.equal(0n);
+            expect(await staking.getPendingRewards(user.address)).to.be.gt(0n);
+
+            // claimRewards pays every reward token
+            await time.increase(3600);
+            await expect(staking.connect(user).claimRewards())
+                .to.emit(staking, "RewardClaimed")
+                .and.to.emit(staking, "RewardTokenClaimed");
+            console.log("Main rewards claimed:", ethers.formatEther(await rewardToken.balanceOf(user.address)));
+            expect(await rewardToken.balanceOf(user.address)).to.be.gt(0n);
+            expect(await partnerToken.balanceOf(user.address)).to.be.gt(partnerBalance);
+
+            const [, amounts] = await staking.getAllPendingRewards(user.address);
+            for (const amount of amounts) {
+                expect(amount).to.be.lt(ethers.parseEther("0.001"));
+            }
+
+            await expect(staking.connect(user).claimReward(accounts[2].address))
+                .to.be.revertedWith("Not a reward token");
+        });
+
+        it("Should restrict and validate reward token management", async () => {
+            const { staking, rewardToken, partnerToken, accounts, owner } = await setupPartnerReward();
+
+            await expect(staking.connect(accounts[1]).addRewardToken(accounts[1].address, 86400))
+                .to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+            await expect(staking.addRewardToken(ethers.ZeroAddress, 86400))
+                .to.be.revertedWith("Invalid reward token");
+            await expect(staking.addRewardToken(await rewardToken.getAddress(), 86400))
+                .to.be.revertedWith("Reward token already added");
+            await expect(staking.addRewardToken(await partnerToken.getAddress(), 86400))
+                .to.be.revertedWith("Reward token already added");
+            await expect(staking.addRewardToken(accounts[1].address, 0))
+                .to.be.revertedWith("Reward duration must be greater than zero");
+            await expect(staking.fundRewardToken(accounts[1].address, 1))
+                .to.be.revertedWith("Not a reward token");
+            await expect(staking.connect(accounts[1]).fundRewardToken(await partnerToken.getAddress(), 1))
+                .to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+
+            // Durations can only change once the token's own period is over
+            await expect(staking.setRewardTokenDuration(await partnerToken.getAddress(), 3600))
+                .to.be.revertedWith("Previous rewards period must be complete");
+            await time.increase(86401);
+            await expect(staking.setRewardTokenDuration(await partnerToken.getAddress(), 3600))
+                .to.emit(staking, "RewardsDurationUpdated")
+                .withArgs(await partnerToken.getAddress(), 3600);
+
+            // The list of reward tokens is bounded
+            const maxRewardTokens = await staking.MAX_REWARD_TOKENS();
+            for (let i = await staking.getRewardTokensCount(); i < maxRewardTokens; i++) {
+                const extraToken = await ethers.deployContract("MockRewardToken", [], owner);
+                await staking.addRewardToken(await extraToken.getAddress(), 86400);
+            }
+            await expect(staking.addRewardToken(accounts[1].address, 86400))
+                .to.be.revertedWith("Too many reward tokens");
+        });
+    });
+
+    describe("Token Modes", () => {
+        it("Should credit fee-on-transfer stakes with the amount received", async () => {
+            const { staking, accounts, owner, minStakeDuration } = await setupFixture();
+            const feeToken = await ethers.deployContract("MockFeeOnTransferToken", [], owner);
+            const feeAddress = await feeToken.getAddress();
+            for (const account of [accounts[1], accounts[2]]) {
+                await feeToken.mint(account.address, ethers.parseEther("100"));
+                await feeToken.connect(account).approve(await staking.getAddress(), ethers.MaxUint256);
+            }
+
+            // Fees are detected on stake until the token is declared
+            await staking.addToken(feeAddress, minStakeDuration);
+            await expect(staking.connect(accounts[1]).stake(feeAddress, ethers.parseEther("100")))
+                .to.be.revertedWith("Undeclared transfer fee");
+            await expect(staking.connect(accounts[1]).setTokenMode(feeAddress, 1))
+                .to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+            await expect(staking.setTokenMode(feeAddress, 1))
+                .to.emit(staking, "TokenModeUpdated").withArgs(feeAddress, 1);
+
+            // 1% is burnt on the way in
+            await expect(staking.connect(accounts[1]).stake(feeAddress, ethers.parseEther("100")))
+                .to.emit(staking, "Staked").withArgs(accounts[1].address, feeAddress, ethers.parseEther("99"));
+            await staking.connect(accounts[2]).stakeLocked(feeAddress, ethers.parseEther("100"), 0);
+            expect((await staking.userStakes(accounts[1].address, feeAddress)).amount).to.equal(ethers.parseEther("99"));
+            expect((await staking.whitelistedTokens(feeAddress)).totalStaked).to.equal(ethers.parseEther("198"));
+            expect(await feeToken.balanceOf(await staking.getAddress())).to.equal(ethers.parseEther("198"));
+
+            // Every staker gets their credited amount back, the last one included
+            await time.increase(30 * 86400);
+            await staking.connect(accounts[1]).unstake(feeAddress, ethers.parseEther("99"));
+            await staking.connect(accounts[2]).withdrawLocked(0);
+            expect(await feeToken.balanceOf(await staking.getAddress())).to.equal(0n);
+            expect(await feeToken.balanceOf(accounts[1].address)).to.equal(ethers.parseEther("98.01"));
+            expect(await staking.totalNormalizedStaked()).to.equal(0n);
+        });
+
+        it("Should share rebases pro rata between stakers of a rebasing token", async () => {
+            const { staking, rewardToken, accounts, owner, minStakeDuration } = await setupFixture();
+            const rebasingToken = await ethers.deployContract("MockRebasingToken", [], owner);
+            const tokenAddress = await rebasingToken.getAddress();
+            const stakingAddress = await staking.getAddress();
+            for (const account of [accounts[1], accounts[2], accounts[3]]) {
+                await rebasingToken.connect(account).approve(stakingAddress, ethers.MaxUint256);
+            }
+            await rebasingToken.mint(accounts[1].address, ethers.parseEther("100"));
+            await rebasingToken.mint(accounts[2].address, ethers.parseEther("100"));
+
+            await expect(staking.addTokenWithMode(tokenAddress, minStakeDuration, 2))
+                .to.emit(staking, "TokenModeUpdated").withArgs(tokenAddress, 2);
+            await staking.connect(accounts[1]).stake(tokenAddress, ethers.parseEther("100"));
+            await staking.connect(accounts[2]).stake(tokenAddress, ethers.parseEther("100"));
+
+            // Balances double; a later staker buys in at the new rate
+            await rebasingToken.rebase(ethers.parseEther("2"));
+            expect(await rebasingToken.balanceOf(stakingAddress)).to.equal(ethers.parseEther("400"));
+            await rebasingToken.mint(accounts[3].address, ethers.parseEther("200"));
+            await staking.connect(accounts[3]).stake(tokenAddress, ethers.parseEther("200"));
+            expect((await staking.userStakes(accounts[3].address, tokenAddress)).amount)
+                .to.be.closeTo(ethers.parseEther("100"), VIRTUAL_BALANCE);
+
+            // The 1000 wei virtual balance takes its few wei of each rebase
+            const stakeWorth = async (account: string) => {
+                const shares = (await staking.userStakes(account, tokenAddress)).amount;
+                const balance = await rebasingToken.balanceOf(stakingAddress);
+                const totalStaked = (await staking.whitelistedTokens(tokenAddress)).totalStaked;
+                return (shares * (balance + VIRTUAL_BALANCE)) / (totalStaked + VIRTUAL_BALANCE);
+            };
+            await time.increase(minStakeDuration);
+            const worth = await stakeWorth(accounts[1].address);
+            expect(worth).to.be.closeTo(ethers.parseEther("200"), VIRTUAL_BALANCE);
+            await staking.connect(accounts[1]).unstake(tokenAddress, worth);
+            expect(await rebasingToken.balanceOf(accounts[1].address)).to.equal(worth);
+            expect((await staking.userStakes(accounts[1].address, tokenAddress)).amount).to.equal(0n);
+
+            // A negative rebase is shared too, so the last staker can still leave
+            await rebasingToken.rebase(ethers.parseEther("1"));
+            for (const account of [accounts[2], accounts[3]]) {
+                const worth = await stakeWorth(account.address);
+                expect(worth).to.be.closeTo(ethers.parseEther("100"), VIRTUAL_BALANCE);
+                await staking.connect(account).unstake(tokenAddress, worth);
+            }
+            expect(await rebasingToken.balanceOf(stakingAddress)).to.be.lessThan(VIRTUAL_BALANCE);
+            expect(await staking.totalNormalizedStaked()).to.equal(0n);
+
+            // A rebasing token can't share its balance with rewards
+            await expect(staking.addRewardToken(tokenAddress, 86400))
+                .to.be.revertedWith("Rebasing reward token not supported");
+            await staking.addToken(await rewardToken.getAddress(), minStakeDuration);
+            await expect(staking.setTokenMode(await rewardToken.getAddress(), 2))
+                .to.be.revertedWith("Rebasing reward token not supported");
+
+            await staking.connect(accounts[1]).stake(tokenAddress, ethers.parseEther("1"));
+            await expect(staking.setTokenMode(tokenAddress, 0))
+                .to.be.revertedWith("Token still has stakes");
+        });
+        it("Should not let a donation inflate the share price of a rebasing token", async () => {
+            const { staking, accounts, owner, minStakeDuration } = await setupFixture();
+            const [attacker, victim] = [accounts[1], accounts[2]];
+            const rebasingToken = await ethers.deployContract("MockRebasingToken", [], owner);
+            const tokenAddress = await rebasingToken.getAddress();
+            const stakingAddress = await staking.getAddress();
+            for (const account of [attacker, victim]) {
+                await rebasingToken.mint(account.address, ethers.parseEther("100"));
+                await rebasingToken.connect(account).approve(stakingAddress, ethers.MaxUint256);
+            }
+            await staking.addTokenWithMode(tokenAddress, minStakeDuration, 2);
+
+            // The attacker takes the first share for 1 wei and donates to the balance
+            await staking.connect(attacker).stake(tokenAddress, 1n);
+            await rebasingToken.connect(attacker).transfer(stakingAddress, ethers.parseEther("99"));
+
+            // A deposit too small for a share is refused rather than taken
+            await expect(staking.connect(victim).stake(tokenAddress, ethers.parseEther("0.01")))
+                .to.be.revertedWith("Cannot stake 0 shares");
+
+            // The virtual shares take the donation, the victim keeps their deposit
+            await staking.connect(victim).stake(tokenAddress, ethers.parseEther("50"));
+            await time.increase(minStakeDuration);
+            for (const account of [attacker, victim]) {
+                const shares = (await staking.userStakes(account.address, tokenAddress)).amount;
+                const balance = await rebasingToken.balanceOf(stakingAddress);
+                const totalStaked = (await staking.whitelistedTokens(tokenAddress)).totalStaked;
+                const worth = (shares * (balance + VIRTUAL_BALANCE)) / (totalStaked + VIRTUAL_BALANCE);
+                await staking.connect(account).unstake(tokenAddress, worth);
+            }
+            expect(await rebasingToken.balanceOf(victim.address))
+                .to.be.closeTo(ethers.parseEther("100"), ethers.parseEther("0.1"));
+            expect(await rebasingToken.balanceOf(attacker.address)).to.be.lessThan(ethers.parseEther("1.1"));
+        });
+    });
+
+    describe("Emergency Mode", () => {
+        it("Should return principal immediately, ignoring locks", async () => {
+            const { staking, stakingToken, accounts } = await setupFixture();
+            const user = accounts[1];
+            const tokenAddress = await stakingToken.getAddress();
+
+            await staking.connect(user).stake(tokenAddress, ethers.parseEther("100"));
+            await staking.connect(user).stakeLocked(tokenAddress, ethers.parseEther("50"), 3);
+            await staking.connect(accounts[2]).stake(tokenAddress, ethers.parseEther("100"));
+            await time.increase(3600);
+
+            await expect(staking.connect(user).emergencyWithdraw(tokenAddress))
+                .to.be.revertedWith("Emergency mode not active");
+            await expect(staking.connect(user).setEmergencyMode(true))
+                .to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+            await expect(staking.setEmergencyMode(true))
+                .to.emit(staking, "EmergencyModeSet").withArgs(true);
+            await staking.pause();
+
+            // New stakes are blocked, exits work even while paused
+            await expect(staking.connect(accounts[3]).stake(tokenAddress, ethers.parseEther("1")))
+                .to.be.reverted;
+            await expect(staking.connect(user).emergencyWithdraw(tokenAddress))
+                .to.emit(staking, "EmergencyWithdrawn")
+                .withArgs(user.address, tokenAddress, ethers.parseEther("150"));
+
+            expect(await stakingToken.balanceOf(user.address)).to.equal(ethers.parseEther("1000"));
+            expect(await staking.totalNormalizedStaked()).to.equal(ethers.parseEther("100"));
+            expect(await staking.totalWeightedStaked()).to.equal(ethers.parseEther("100"));
+            const tokenInfo = await staking.whitelistedTokens(tokenAddress);
+            expect(tokenInfo.totalStaked).to.equal(ethers.parseEther("100"));
+            expect(tokenInfo.totalBoosted).to.equal(ethers.parseEther("100"));
+
+            const userStake = await staking.userStakes(user.address, tokenAddress);
+            expect(userStake.amount + userStake.lockedAmount + userStake.boostedAmount).to.equal(0n);
+            const [lots] = await staking.getStakeLots(user.address, tokenAddress);
+            expect(lots).to.be.empty;
+            expect((await staking.getUserLocks(user.address))[0].amount).to.equal(0n);
+
+            // Unclaimed rewards are forfeited
+            expect(await staking.getPendingRewards(user.address)).to.equal(0n);
+            await expect(staking.connect(user).emergencyWithdraw(tokenAddress))
+                .to.be.revertedWith("No stake found");
+        });
+
+        it("Should keep accounting consistent for remaining stakers", async () => {
+            const { staking, stakingToken, accounts } = await setupFixture();
+            const tokenAddress = await stakingToken.getAddress();
+
+            await staking.connect(accounts[1]).stake(tokenAddress, ethers.parseEther("100"));
+            await staking.connect(accounts[2]).stake(tokenAddress, ethers.parseEther("100"));
+            await staking.setEmergencyMode(true);
+            await expect(staking.connect(accounts[1]).stakeLocked(tokenAddress, ethers.parseEther("1"), 0))
+                .to.be.revertedWith("Emergency mode active");
+            await staking.connect(accounts[1]).emergencyWithdraw(tokenAddress);
+
+            // The remaining staker now receives the whole reward stream
+            const rewardRate = await staking.rewardRate();
+            const pendingBefore = await staking.getPendingRewards(accounts[2].address);
+            await time.increase(3600);
+            const pendingAfter = await staking.getPendingRewards(accounts[2].address);
+            expect(pendingAfter - pendingBefore).to.be.closeTo(rewardRate * 3600n, rewardRate * 2n);
+
+            await expect(staking.setEmergencyMode(true)).to.be.revertedWith("Emergency mode unchanged");
+            await expect(staking.setEmergencyMode(false))
+                .to.emit(staking, "EmergencyModeSet").withArgs(false);
+            await staking.connect(accounts[1]).stake(tokenAddress, ethers.parseEther("100"));
+            expect(await staking.totalNormalizedStaked()).to.equal(ethers.parseEther("200"));
+        });
+
+        it("Should forfeit the rewards earned on every staked token, unless claimed first", async () => {
+            const { staking, stakingToken, rewardToken, accounts, owner } = await setupFixture();
+            const [user1, user2] = [accounts[1], accounts[2]];
+            const stakingAddress = await staking.getAddress();
+            const tokenAddress = await stakingToken.getAddress();
+            const rewardAddress = await rewardToken.getAddress();
+
+            // A second staked token and a partner reward token
+            const otherToken = await ethers.deployContract("MagicWorldToken", [], owner) as MagicWorldToken;
+            const otherAddress = await otherToken.getAddress();
+            await staking.addToken(otherAddress, DEV_MIN_STAKE_DURATION);
+            const partnerToken = await ethers.deployContract("MockRewardToken", [], owner) as MockRewardToken;
+            const partnerAddress = await partnerToken.getAddress();
+            await partnerToken.mint(owner.address, ethers.parseEther("8640"));
+            await partnerToken.approve(stakingAddress, ethers.MaxUint256);
+            await staking.addRewardToken(partnerAddress, 86400);
+            await staking.fundRewardToken(partnerAddress, ethers.parseEther("8640"));
+
+            // Both users hold a small position in one token and a large one in the other
+            for (const user of [user1, user2]) {
+                await otherToken.mint(user.address, ethers.parseEther("1000"));
+                await otherToken.connect(user).approve(stakingAddress, ethers.MaxUint256);
+                await staking.connect(user).stake(tokenAddress, ethers.parseEther("1"));
+                await staking.connect(user).stake(otherAddress, ethers.parseEther("500"));
+            }
+            await time.increase(3600);
+            await staking.setEmergencyMode(true);
+
+            // Claiming first keeps the rewards
+            await staking.connect(user2).claimRewards();
+            const claimed = [await rewardToken.balanceOf(user2.address), await partnerToken.balanceOf(user2.address)];
+            await staking.connect(user2).emergencyWithdraw(tokenAddress);
+            expect(claimed[0]).to.be.gt(0n);
+            expect(claimed[1]).to.be.gt(0n);
+
+            // Otherwise withdrawing the small position gives up everything earned so far
+            const allocated = [
+                (await staking.rewardData(rewardAddress)).totalAllocatedRewards,
+                (await staking.rewardData(partnerAddress)).totalAllocatedRewards
+            ];
+            const pending = [
+                await staking.getPendingReward(user1.address, rewardAddress),
+                await staking.getPendingReward(user1.address, partnerAddress)
+            ];
+            await staking.connect(user1).emergencyWithdraw(tokenAddress);
+            const [main, partner] = [await staking.rewardData(rewardAddress), await staking.rewardData(partnerAddress)];
+            expect(await staking.rewards(user1.address, rewardAddress)).to.equal(0n);
+            expect(await staking.rewards(user1.address, partnerAddress)).to.equal(0n);
+            expect(allocated[0] - main.totalAllocatedRewards).to.be.closeTo(pending[0], main.rewardRate * 2n);
+            expect(allocated[1] - partner.totalAllocatedRewards).to.be.closeTo(pending[1], partner.rewardRate * 2n);
+
+            // The other position stays staked and earns again from the withdrawal on
+            expect((await staking.userStakes(user1.address, otherAddress)).amount).to.equal(ethers.parseEther("500"));
+            await time.increase(3600);
+            expect(await staking.getPendingRewards(user1.address)).to.be.gt(0n);
+            await staking.connect(user1).emergencyWithdraw(otherAddress);
+            expect(await otherToken.balanceOf(user1.address)).to.equal(ethers.parseEther("1000"));
+        });
+    });
+
+    describe("Compounding", () => {
+        it("Should compound pending rewards into the reward token stake", async () => {
+            const { staking, stakingToken, rewardToken, accounts, minStakeDuration } = await setupFixture();
+            const user = accounts[1];
+            const rewardAddress = await rewardToken.getAddress();
+
+            await staking.connect(user).stake(await stakingToken.getAddress(), ethers.parseEther("100"));
+            await time.increase(3600);
+            await expect(staking.connect(user).compound())
+                .to.be.revertedWith("Reward token not whitelisted");
+
+            await staking.addToken(rewardAddress, minStakeDuration);
+            await time.increase(86400);
+            const [stakeLotsBefore] = await staking.getStakeLots(user.address, await stakingToken.getAddress());
+
+            await expect(staking.connect(user).compound()).to.emit(staking, "Compounded");
+            const compounded = (await staking.userStakes(user.address, rewardAddress)).amount;
+            console.log("Compounded rewards:", ethers.formatEther(compounded));
+            expect(compounded).to.be.gt(0n);
+            expect(await rewardToken.balanceOf(user.address)).to.equal(0n);
+            expect(await staking.getPendingRewards(user.address)).to.be.lt(ethers.parseEther("0.001"));
+            expect((await staking.whitelistedTokens(rewardAddress)).totalStaked).to.equal(compounded);
+
+            // The compounded rewards start a deposit of the reward token, deposits of other tokens keep their lock clock
+            const [rewardLots] = await staking.getStakeLots(user.address, rewardAddress);
+            expect(rewardLots.map((lot) => lot.amount)).to.deep.equal([compounded]);
+            const [stakeLotsAfter] = await staking.getStakeLots(user.address, await stakingToken.getAddress());
+            expect(stakeLotsAfter).to.deep.equal(stakeLotsBefore);
+
+            // Compounded principal is not treated as excess rewards
+            await staking.emergencyWithdrawRewards();
+            await time.increase(minStakeDuration);
+            await staking.connect(user).unstake(rewardAddress, compounded);
+            expect(await rewardToken.balanceOf(user.address)).to.equal(compounded);
+        });
+
+        it("Should let a keeper compound for opted-in stakers only", async () => {
+            const { staking, stakingToken, rewardToken, accounts, minStakeDuration } = await setupFixture();
+            const keeper = accounts[4];
+            const rewardAddress = await rewardToken.getAddress();
+            await staking.addToken(rewardAddress, minStakeDuration);
+
+            await staking.connect(accounts[1]).stake(await stakingToken.getAddress(), ethers.parseEther("100"));
+            await staking.connect(accounts[2]).stake(await stakingToken.getAddress(), ethers.parseEther("100"));
+            await expect(staking.connect(accounts[1]).setAutoCompound(true))
+                .to.emit(staking, "AutoCompoundSet").withArgs(accounts[1].address, true);
+            await time.increase(86400);
+
+            const batch = [accounts[1].address, accounts[2].address, accounts[3].address];
+            await expect(staking.connect(keeper).compoundFor(batch))
+                .to.be.revertedWith("Caller is not a keeper");
+            await expect(staking.connect(accounts[1]).setKeeper(keeper.address, true))
+                .to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+            await expect(staking.setKeeper(keeper.address, true))
+                .to.emit(staking, "KeeperUpdated").withArgs(keeper.address, true);
+
+            expect(await staking.connect(keeper).compoundFor.staticCall(batch)).to.equal(1n);
+            const pending2 = await staking.getPendingRewards(accounts[2].address);
+            await expect(staking.connect(keeper).compoundFor(batch))
+                .to.emit(staking, "Compounded");
+
+            expect((await staking.userStakes(accounts[1].address, rewardAddress)).amount).to.be.gt(0n);
+            expect((await staking.userStakes(accounts[2].address, rewardAddress)).amount).to.equal(0n);
+            expect(await staking.getPendingRewards(accounts[2].address)).to.be.gte(pending2);
+
+            // Opting out stops keepers
+            await staking.connect(accounts[1]).setAutoCompound(false);
+            await time.increase(3600);
+            expect(await staking.connect(keeper).compoundFor.staticCall(batch)).to.equal(0n);
+        });
+        it("Should keep compounded rewards in one lot however often a keeper compounds", async () => {
+            const { staking, stakingToken, rewardToken, accounts, minStakeDuration } = await setupFixture();
+            const [user, keeper] = [accounts[1], accounts[4]];
+            const rewardAddress = await rewardToken.getAddress();
+            await staking.addToken(rewardAddress, minStakeDuration);
+            await staking.setKeeper(keeper.address, true);
+            await staking.connect(user).stake(await stakingToken.getAddress(), ethers.parseEther("100"));
+            await staking.connect(user).setAutoCompound(true);
+
+            await time.increase(3600);
+            await staking.connect(keeper).compoundFor([user.address]);
+            const [[firstLot]] = await staking.getStakeLots(user.address, rewardAddress);
+            for (let i = 0; i < 50; i++) {
+                await time.increase(600);
+                await staking.connect(keeper).compoundFor([user.address]);
+            }
+
+            // Every compounding joined the first lot and unlocks with it
+            const compounded = (await staking.userStakes(user.address, rewardAddress)).amount;
+            const [lots] = await staking.getStakeLots(user.address, rewardAddress);
+            expect(lots).to.have.length(1);
+            expect(lots[0].amount).to.equal(compounded);
+            expect(lots[0].timestamp).to.equal(firstLot.timestamp);
+
+            await time.increaseTo(firstLot.timestamp + BigInt(minStakeDuration));
+            const receipt = await (await staking.connect(user).unstake(rewardAddress, compounded)).wait();
+            console.log("Unstake gas after 51 compounds:", receipt!.gasUsed.toString());
+            // Walking a lot per compounding would add some 5000 gas each
+            expect(receipt!.gasUsed).to.be.lt(250000n);
+            expect(await rewardToken.balanceOf(user.address)).to.equal(compounded);
+        });
+    });
+
+    describe("Lock Tiers", () => {
+        it("Should boost the reward share of locked positions", async () => {
+            const { staking, stakingToken, accounts } = await setupFixture();
+            const weightPrecision = await staking.WEIGHT_PRECISION();
+
+            // Default tiers: 30/90/180/365 days
+            expect(await staking.getLockTiersCount()).to.equal(4);
+            const yearTier = await staking.lockTiers(3);
+            expect(yearTier.duration).to.equal(365 * 86400);
+            expect(yearTier.boost).to.equal(2n * weightPrecision);
+
+            // 100 flexible tokens against 100 tokens locked for a year at 2x
+            await staking.connect(accounts[1]).stake(await stakingToken.getAddress(), ethers.parseEther("100"));
+            const tx = await staking.connect(accounts[2]).stakeLocked(await stakingToken.getAddress(), ethers.parseEther("100"), 3);
+            const unlockTime = BigInt(await time.latest()) + yearTier.duration;
+            await expect(tx)
+                .to.emit(staking, "StakedLocked")
+                .withArgs(accounts[2].address, await stakingToken.getAddress(), 0, ethers.parseEther("100"), 3, unlockTime);
+
+            const lockedStake = await staking.userStakes(accounts[2].address, await stakingToken.getAddress());
+            expect(lockedStake.amount).to.equal(0n);
+            expect(lockedStake.lockedAmount).to.equal(ethers.parseEther("100"));
+            expect(lockedStake.boostedAmount).to.equal(ethers.parseEther("200"));
+            expect(await staking.totalNormalizedStaked()).to.equal(ethers.parseEther("200"));
+            expect(await staking.totalWeightedStaked()).to.equal(ethers.parseEther("300"));
+
+            await time.increase(86400);
+
+            const pending1 = await staking.getPendingRewards(accounts[1].address);
+            const pending2 = await staking.getPendingRewards(accounts[2].address);
+            console.log("Pending rewards flexible:", ethers.formatEther(pending1));
+            console.log("Pending rewards locked at 2x:", ethers.formatEther(pending2));
+            expect(pending2).to.be.closeTo(pending1 * 2n, pending1 / 1000n);
+        });
+
+        it("Should only withdraw a locked position after its unlock time", async () => {
+            const { staking, stakingToken, accounts } = await setupFixture();
+            const user = accounts[1];
+            const tokenAddress = await stakingToken.getAddress();
+
+            await staking.connect(user).stakeLocked(tokenAddress, ethers.parseEther("100"), 0);
+            await staking.connect(user).stakeLocked(tokenAddress, ethers.parseEther("50"), 1);
+            const locks = await staking.getUserLocks(user.address);
+            expect(locks.length).to.equal(2);
+            expect(locks[1].amount).to.equal(ethers.parseEther("50"));
+            expect(locks[1].tierId).to.equal(1);
+
+            // Locked positions are not part of the flexible stake
+            await expect(staking.connect(user).unstake(tokenAddress, ethers.parseEther("100")))
+                .to.be.revertedWith("No stake found");
+            await expect(staking.connect(user).withdrawLocked(0))
+                .to.be.revertedWith("Position still locked");
+
+            // Each position unlocks on its own schedule
+            await time.increaseTo(locks[0].unlockTime);
+            await expect(staking.connect(user).withdrawLocked(0))
+                .to.emit(staking, "LockedWithdrawn")
+                .withArgs(user.address, tokenAddress, 0, ethers.parseEther("100"));
+            await expect(staking.connect(user).withdrawLocked(1))
+                .to.be.revertedWith("Position still locked");
+            await expect(staking.connect(user).withdrawLocked(0))
+                .to.be.revertedWith("No locked position");
+            await expect(staking.connect(user).withdrawLocked(2))
+                .to.be.revertedWith("No locked position");
+
+            expect(await stakingToken.balanceOf(user.address)).to.equal(ethers.parseEther("950"));
+            const userStake = await staking.userStakes(user.address, tokenAddress);
+            expect(userStake.lockedAmount).to.equal(ethers.parseEther("50"));
+            expect(userStake.boostedAmount).to.equal(ethers.parseEther("62.5"));
+            expect(await staking.totalNormalizedStaked()).to.equal(ethers.parseEther("50"));
+
+            await time.increaseTo(locks[1].unlockTime);
+            await staking.connect(user).withdrawLocked(1);
+            expect(await stakingToken.balanceOf(user.address)).to.equal(ethers.parseEther("1000"));
+            expect(await staking.totalWeightedStaked()).to.equal(0n);
+        });
+
+        it("Should restrict and validate lock tier management", async () => {
+            const { staking, stakingToken, accounts } = await setupFixture();
+            const weightPrecision = await staking.WEIGHT_PRECISION();
+            const tokenAddress = await stakingToken.getAddress();
+
+            await expect(staking.connect(accounts[1]).addLockTier(86400, weightPrecision))
+                .to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+            await expect(staking.addLockTier(0, weightPrecision))
+                .to.be.revertedWith("Invalid lock duration");
+            await expect(staking.addLockTier((await staking.MAX_LOCK_DURATION()) + 1n, weightPrecision))
+                .to.be.revertedWith("Invalid lock duration");
+            await expect(staking.addLockTier(86400, weightPrecision - 1n))
+                .to.be.revertedWith("Invalid boost");
+            await expect(staking.addLockTier(86400, (await staking.MAX_BOOST()) + 1n))
+                .to.be.revertedWith("Invalid boost");
+
+            await expect(staking.addLockTier(2 * 365 * 86400, 3n * weightPrecision))
+                .to.emit(staking, "LockTierAdded")
+                .withArgs(4, 2 * 365 * 86400, 3n * weightPrecision);
+
+            await expect(staking.setLockTierEnabled(4, false))
+                .to.emit(staking, "LockTierEnabled").withArgs(4, false);
+            await expect(staking.connect(accounts[1]).stakeLocked(tokenAddress, ethers.parseEther("1"), 4))
+                .to.be.revertedWith("Lock tier disabled");
+            await expect(staking.connect(accounts[1]).stakeLocked(tokenAddress, ethers.parseEther("1"), 5))
+                .to.be.revertedWith("Invalid lock tier");
+
+            // A lock can't end before the token's minimum stake duration
+            await staking.updateMinStakeDuration(tokenAddress, 31 * 86400);
+            await expect(staking.connect(accounts[1]).stakeLocked(tokenAddress, ethers.parseEther("1"), 0))
+                .to.be.revertedWith("Lock shorter than minimum stake duration");
+        });
+    });
+
     describe("Integration Tests", () => {
         it("Should handle full staking, reward, and unstaking lifecycle", async () => {
             const { staking, stakingToken, rewardToken, accounts, minStakeDuration } = await setupFixture();
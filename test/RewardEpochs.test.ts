@@ -0,0 +1,284 @@
+import { expect } from "chai";
+import hre, { deployments, ethers, getNamedAccounts } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+    MagicWorldStaking,
+    MagicWorldToken,
+    MockRewardToken
+} from "../typechain-types";
+
+// Rounding of the reward rate and accumulators, in reward token wei
+const DUST = 10n ** 6n;
+const WEEK = 7 * 86400;
+
+// An epoch streams a whole amount per second, the remainder stays excess
+const streamed = (amount: bigint, duration: number) => amount - (amount % BigInt(duration));
+
+describe("Reward epochs", () => {
+    const setupFixture = deployments.createFixture(async () => {
+        await deployments.fixture(["staking"]);
+        const signers = await getNamedAccounts();
+        const accounts = await ethers.getSigners();
+        const owner = await ethers.getSigner(signers.deployer);
+
+        const stakingToken = await ethers.getContractAt(
+            "MagicWorldToken",
+            (await deployments.get("MagicWorldToken")).address,
+            owner
+        ) as MagicWorldToken;
+        const rewardToken = await ethers.getContractAt(
+            "MockRewardToken",
+            (await deployments.get("MockRewardToken")).address,
+            owner
+        ) as MockRewardToken;
+        const staking = await ethers.getContractAt(
+            "MagicWorldStaking",
+            (await deployments.get("MagicWorldStaking")).address,
+            owner
+        ) as MagicWorldStaking;
+        const stakingAddress = await staking.getAddress();
+
+        await stakingToken.mint(accounts[1].address, ethers.parseEther("1000"));
+        await stakingToken.connect(accounts[1]).approve(stakingAddress, ethers.MaxUint256);
+        await rewardToken.mint(owner.address, ethers.parseEther("10000"));
+        await rewardToken.approve(stakingAddress, ethers.MaxUint256);
+
+        const tokenAddress = await stakingToken.getAddress();
+        const rewardAddress = await rewardToken.getAddress();
+        // The deployment funds a first period, epochs are scheduled after it
+        const periodFinish = Number(await staking.periodFinish());
+        return { staking, rewardToken, tokenAddress, rewardAddress, periodFinish, accounts, owner };
+    });
+
+    describe("Scheduling", () => {
+        it("Should pay each epoch's amount over its own period", async () => {
+            const { staking, rewardToken, tokenAddress, rewardAddress, periodFinish, accounts } = await setupFixture();
+            const user = accounts[1];
+            const week3 = periodFinish + WEEK;
+            const week4 = week3 + WEEK;
+
+            await expect(staking.scheduleRewardEpoch(rewardAddress, week3, WEEK, ethers.parseEther("700")))
+                .to.emit(staking, "RewardEpochScheduled")
+                .withArgs(rewardAddress, 0n, week3, WEEK, streamed(ethers.parseEther("700"), WEEK));
+            await staking.scheduleRewardEpoch(rewardAddress, week4, WEEK, ethers.parseEther("1400"));
+            expect(await staking.getRewardEpochsCount(rewardAddress)).to.equal(2n);
+
+            const [firstId, upcoming] = await staking.getUpcomingEpochs(rewardAddress);
+            expect(firstId).to.equal(0n);
+            expect(upcoming.map(epoch => epoch.amount))
+                .to.deep.equal([streamed(ethers.parseEther("700"), WEEK), streamed(ethers.parseEther("1400"), WEEK)]);
+            expect((await staking.getCurrentEpoch(rewardAddress)).active).to.be.false;
+
+            // Nothing accrues in the gap between the funded period and the first epoch
+            await time.increaseTo(periodFinish);
+            await staking.connect(user).stake(tokenAddress, ethers.parseEther("100"));
+            await time.increaseTo(week3);
+            expect(await staking.getPendingRewards(user.address)).to.equal(0n);
+
+            // Half way through week 3, without any transaction since it started
+            await time.increaseTo(week3 + WEEK / 2);
+            const pendingHalfway = await staking.getPendingRewards(user.address);
+            console.log("Pending half way through week 3:", ethers.formatEther(pendingHalfway));
+            expect(pendingHalfway).to.be.closeTo(ethers.parseEther("350"), DUST);
+
+            const current = await staking.getCurrentEpoch(rewardAddress);
+            expect(current.active).to.be.true;
+            expect(current.epochId).to.equal(0n);
+            expect(current.epoch.start).to.equal(BigInt(week3));
+
+            // The reward state rolls over to week 3, then to week 4 at its start
+            await staking.connect(user).claimRewards();
+            expect(await staking.nextEpoch(rewardAddress)).to.equal(1n);
+            expect(await staking.periodFinish()).to.equal(BigInt(week3 + WEEK));
+
+            await time.increaseTo(week4 + WEEK + 86400);
+            await staking.connect(user).claimRewards();
+            expect(await staking.nextEpoch(rewardAddress)).to.equal(2n);
+            expect(await rewardToken.balanceOf(user.address)).to.be.closeTo(ethers.parseEther("2100"), DUST);
+            expect(await rewardToken.balanceOf(user.address)).to.be.lte(ethers.parseEther("2100"));
+            expect((await staking.getCurrentEpoch(rewardAddress)).active).to.be.false;
+        });
+
+        it("Should start every due epoch when several started since the last update", async () => {
+            const { staking, rewardToken, tokenAddress, rewardAddress, periodFinish, accounts } = await setupFixture();
+            const user = accounts[1];
+
+            await staking.scheduleRewardEpoch(rewardAddress, periodFinish, 86400, ethers.parseEther("100"));
+            await staking.scheduleRewardEpoch(rewardAddress, periodFinish + 86400, 86400, ethers.parseEther("200"));
+            await staking.scheduleRewardEpoch(rewardAddress, periodFinish + 3 * 86400, 86400, ethers.parseEther("300"));
+
+            await time.increaseTo(periodFinish - 1);
+            await staking.connect(user).stake(tokenAddress, ethers.parseEther("100"));
+            await time.increaseTo(periodFinish + 5 * 86400);
+
+            expect(await staking.getPendingRewards(user.address)).to.be.closeTo(ethers.parseEther("600"), DUST);
+            await staking.connect(user).claimRewards();
+            expect(await staking.nextEpoch(rewardAddress)).to.equal(3n);
+            expect(await rewardToken.balanceOf(user.address)).to.be.closeTo(ethers.parseEther("600"), DUST);
+        });
+
+        it("Should reject epochs that overlap the running period or each other", async () => {
+            const { staking, rewardAddress, periodFinish, accounts } = await setupFixture();
+            const amount = ethers.parseEther("100");
+
+            await expect(staking.scheduleRewardEpoch(rewardAddress, (await time.latest()) - 1, WEEK, amount))
+                .to.be.revertedWith("Epoch must start in the future");
+            await expect(staking.scheduleRewardEpoch(rewardAddress, periodFinish - 1, WEEK, amount))
+                .to.be.revertedWith("Overlaps the current period");
+            await expect(staking.scheduleRewardEpoch(rewardAddress, periodFinish, 0, amount))
+                .to.be.revertedWith("Epoch duration must be greater than zero");
+            await expect(staking.scheduleRewardEpoch(rewardAddress, periodFinish, WEEK, 0))
+                .to.be.revertedWith("Cannot fund with 0 tokens");
+            await expect(staking.scheduleRewardEpoch(rewardAddress, periodFinish, WEEK, WEEK - 1))
+                .to.be.revertedWith("Epoch reward rate is zero");
+            await expect(hre.run("staking:schedule-epoch", {
+                start: String(periodFinish), duration: WEEK, amount: ethers.formatEther(WEEK - 1),
+            })).to.be.rejectedWith(/Epoch reward rate is zero/);
+            await expect(staking.scheduleRewardEpoch(accounts[5].address, periodFinish, WEEK, amount))
+                .to.be.revertedWith("Not a reward token");
+            await expect(staking.connect(accounts[1]).scheduleRewardEpoch(rewardAddress, periodFinish, WEEK, amount))
+                .to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+
+            await staking.scheduleRewardEpoch(rewardAddress, periodFinish + WEEK, WEEK, amount);
+            await expect(staking.scheduleRewardEpoch(rewardAddress, periodFinish + WEEK + 1, WEEK, amount))
+                .to.be.revertedWith("Overlaps a scheduled epoch");
+
+            // Funding a period that would run into the epoch is rejected too
+            await time.increaseTo(periodFinish + 1);
+            await expect(staking.fundRewards(amount)).to.be.revertedWith("Overlaps a scheduled epoch");
+        });
+    });
+
+    describe("Cancellation", () => {
+        it("Should refund an epoch that hasn't started", async () => {
+            const { staking, rewardToken, tokenAddress, rewardAddress, periodFinish, accounts, owner } = await setupFixture();
+            const user = accounts[1];
+            const amount = ethers.parseEther("500");
+
+            await staking.scheduleRewardEpoch(rewardAddress, periodFinish, WEEK, amount);
+            await staking.scheduleRewardEpoch(rewardAddress, periodFinish + WEEK, WEEK, amount);
+            const allocatedBefore = await staking.totalAllocatedRewards();
+            const refund = streamed(amount, WEEK);
+
+            await expect(staking.connect(user).cancelRewardEpoch(rewardAddress, 1))
+                .to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+            const ownerBefore = await rewardToken.balanceOf(owner.address);
+            await expect(staking.cancelRewardEpoch(rewardAddress, 1))
+                .to.emit(staking, "RewardEpochCancelled")
+                .withArgs(rewardAddress, 1n, refund);
+            expect(await rewardToken.balanceOf(owner.address)).to.equal(ownerBefore + refund);
+            expect(await staking.totalAllocatedRewards()).to.equal(allocatedBefore - refund);
+            await expect(staking.cancelRewardEpoch(rewardAddress, 1)).to.be.revertedWith("Epoch already cancelled");
+            await expect(staking.cancelRewardEpoch(rewardAddress, 2)).to.be.revertedWith("Invalid epoch");
+
+            // A cancelled epoch is listed with a zero amount and pays nothing
+            const [, upcoming] = await staking.getUpcomingEpochs(rewardAddress);
+            expect(upcoming[1].amount).to.equal(0n);
+
+            await time.increaseTo(periodFinish - 1);
+            await staking.connect(user).stake(tokenAddress, ethers.parseEther("100"));
+            await expect(staking.cancelRewardEpoch(rewardAddress, 0)).to.be.revertedWith("Epoch already started");
+
+            await time.increaseTo(periodFinish + 3 * WEEK);
+            await staking.connect(user).claimRewards();
+            expect(await rewardToken.balanceOf(user.address)).to.be.closeTo(amount, DUST);
+            expect((await staking.getCurrentEpoch(rewardAddress)).epochId).to.equal(0n);
+        });
+
+        it("Should fund a period across a cancelled epoch", async () => {
+            const { staking, rewardToken, tokenAddress, rewardAddress, periodFinish, accounts } = await setupFixture();
+            const user = accounts[1];
+            const amount = ethers.parseEther("700");
+            const rewardsDuration = Number(await staking.rewardsDuration());
+
+            await staking.scheduleRewardEpoch(rewardAddress, periodFinish + WEEK, WEEK, amount);
+            await staking.scheduleRewardEpoch(rewardAddress, periodFinish + 3 * WEEK, WEEK, amount);
+            await staking.cancelRewardEpoch(rewardAddress, 0);
+
+            // The new period runs past the start of the cancelled epoch, the
+            // task's preflight and the contract both let it through
+            await time.increaseTo(periodFinish + 1);
+            await staking.connect(user).stake(tokenAddress, ethers.parseEther("100"));
+            await hre.run("staking:fund", { amount: "700" });
+            const funded = await time.latest();
+            expect(await staking.periodFinish()).to.equal(BigInt(funded + rewardsDuration));
+            expect(funded + rewardsDuration).to.be.gt(periodFinish + WEEK);
+
+            await time.increaseTo(funded + rewardsDuration);
+            await staking.connect(user).claimRewards();
+            expect(await rewardToken.balanceOf(user.address)).to.be.closeTo(amount, DUST);
+        });
+
+        it("Should still reject funding that overlaps an epoch scheduled after a cancelled one", async () => {
+            const { staking, rewardAddress, periodFinish } = await setupFixture();
+            const amount = ethers.parseEther("100");
+            await staking.scheduleRewardEpoch(rewardAddress, periodFinish + 2 * WEEK, WEEK, amount);
+            await staking.cancelRewardEpoch(rewardAddress, 0);
+            await staking.scheduleRewardEpoch(rewardAddress, periodFinish + WEEK, WEEK, amount);
+
+            await time.increaseTo(periodFinish + 10);
+            await expect(hre.run("staking:fund", { amount: "100" }))
+                .to.be.rejectedWith(/Overlaps scheduled epoch #1/);
+            await expect(staking.fundRewards(amount)).to.be.revertedWith("Overlaps a scheduled epoch");
+        });
+
+        it("Should start an epoch scheduled in a cancelled epoch's place on time", async () => {
+            const { staking, rewardToken, tokenAddress, rewardAddress, periodFinish, accounts } = await setupFixture();
+            const user = accounts[1];
+            const amount = ethers.parseEther("700");
+
+            await staking.scheduleRewardEpoch(rewardAddress, periodFinish + 2 * WEEK, WEEK, amount);
+            await staking.cancelRewardEpoch(rewardAddress, 0);
+            // Starts before the cancelled epoch would have
+            await staking.scheduleRewardEpoch(rewardAddress, periodFinish + WEEK, WEEK, amount);
+            const [firstId] = await staking.getUpcomingEpochs(rewardAddress);
+            expect(firstId).to.equal(1n);
+
+            await time.increaseTo(periodFinish);
+            await staking.connect(user).stake(tokenAddress, ethers.parseEther("100"));
+            await time.increaseTo(periodFinish + WEEK + WEEK / 2);
+            expect(await staking.getPendingRewards(user.address)).to.be.closeTo(amount / 2n, DUST);
+            const current = await staking.getCurrentEpoch(rewardAddress);
+            expect(current.active).to.be.true;
+            expect(current.epochId).to.equal(1n);
+
+            await time.increaseTo(periodFinish + 3 * WEEK);
+            await staking.connect(user).claimRewards();
+            expect(await rewardToken.balanceOf(user.address)).to.be.closeTo(amount, DUST);
+        });
+
+        it("Should not schedule into the gap of a cancelled epoch with live epochs after it", async () => {
+            const { staking, rewardAddress, periodFinish } = await setupFixture();
+            const amount = ethers.parseEther("100");
+            await staking.scheduleRewardEpoch(rewardAddress, periodFinish + WEEK, WEEK, amount);
+            await staking.scheduleRewardEpoch(rewardAddress, periodFinish + 3 * WEEK, WEEK, amount);
+            await staking.cancelRewardEpoch(rewardAddress, 0);
+
+            // New epochs go after the last live one
+            await expect(staking.scheduleRewardEpoch(rewardAddress, periodFinish + WEEK, WEEK, amount))
+                .to.be.revertedWith("Overlaps a scheduled epoch");
+            await staking.scheduleRewardEpoch(rewardAddress, periodFinish + 4 * WEEK, WEEK, amount);
+            expect(await staking.getRewardEpochsCount(rewardAddress)).to.equal(3n);
+        });
+
+        it("Should keep scheduled epochs out of the excess rewards", async () => {
+            const { staking, rewardToken, rewardAddress, periodFinish, owner } = await setupFixture();
+            const amount = ethers.parseEther("500");
+            await staking.scheduleRewardEpoch(rewardAddress, periodFinish + WEEK, WEEK, amount);
+            expect(amount % BigInt(WEEK)).to.be.gt(0n);
+            expect((await staking.rewardEpochs(rewardAddress, 0)).amount).to.equal(streamed(amount, WEEK));
+
+            const ownerBefore = await rewardToken.balanceOf(owner.address);
+            await staking.emergencyWithdrawRewards();
+            const withdrawn = await rewardToken.balanceOf(owner.address) - ownerBefore;
+
+            // Only what the running period emitted while nobody staked, and the
+            // remainder of the epoch's amount, was excess
+            console.log("Withdrawn as excess:", ethers.formatEther(withdrawn));
+            expect(withdrawn).to.be.gte(amount % BigInt(WEEK));
+            expect(await staking.totalAllocatedRewards()).to.be.gte(streamed(amount, WEEK));
+            expect(await rewardToken.balanceOf(await staking.getAddress()))
+                .to.equal(await staking.totalAllocatedRewards());
+        });
+    });
+});
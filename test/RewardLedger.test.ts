@@ -0,0 +1,280 @@
+import { expect } from "chai";
+import { deployments, ethers, getNamedAccounts } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+    MagicWorldStaking,
+    MagicWorldToken,
+    MockRewardToken
+} from "../typechain-types";
+import { DEV_MIN_STAKE_DURATION } from "../helper-hardhat-config";
+
+// Rounding of the reward rate and accumulators, in reward token wei
+const DUST = 10n ** 6n;
+
+describe("Reward ledger", () => {
+    const setupFixture = deployments.createFixture(async () => {
+        await deployments.fixture(["staking"]);
+        const signers = await getNamedAccounts();
+        const accounts = await ethers.getSigners();
+        const owner = await ethers.getSigner(signers.deployer);
+
+        const stakingToken = await ethers.getContractAt(
+            "MagicWorldToken",
+            (await deployments.get("MagicWorldToken")).address,
+            owner
+        ) as MagicWorldToken;
+        const rewardToken = await ethers.getContractAt(
+            "MockRewardToken",
+            (await deployments.get("MockRewardToken")).address,
+            owner
+        ) as MockRewardToken;
+        const staking = await ethers.getContractAt(
+            "MagicWorldStaking",
+            (await deployments.get("MagicWorldStaking")).address,
+            owner
+        ) as MagicWorldStaking;
+        const stakingAddress = await staking.getAddress();
+
+        for (const account of accounts.slice(1, 4)) {
+            await stakingToken.mint(account.address, ethers.parseEther("1000"));
+            await stakingToken.connect(account).approve(stakingAddress, ethers.MaxUint256);
+        }
+        await rewardToken.approve(stakingAddress, ethers.MaxUint256);
+
+        const tokenAddress = await stakingToken.getAddress();
+        const rewardAddress = await rewardToken.getAddress();
+        return { staking, stakingToken, rewardToken, tokenAddress, rewardAddress, accounts, owner };
+    });
+
+    // Rewards a stream distributes from `from` to the end of its period
+    async function emittedSince(staking: MagicWorldStaking, reward: string, from: number) {
+        const data = await staking.rewardData(reward);
+        return data.rewardRate * (data.periodFinish - BigInt(from));
+    }
+
+    describe("Accrual", () => {
+        it("Should keep accrued rewards across stake, unstake and claim", async () => {
+            const { staking, rewardToken, tokenAddress, rewardAddress, accounts } = await setupFixture();
+            const user = accounts[1];
+            const rewardRate = await staking.rewardRate();
+
+            await staking.connect(user).stake(tokenAddress, ethers.parseEther("100"));
+            const stakedAt = await time.latest();
+            await time.increase(3600);
+
+            // Staking more moves what was earned into the user's accrued rewards
+            const pendingBefore = await staking.getPendingRewards(user.address);
+            await staking.connect(user).stake(tokenAddress, ethers.parseEther("50"));
+            const accrued = await staking.rewards(user.address, rewardAddress);
+            expect(accrued).to.be.gte(pendingBefore);
+            expect(await staking.getPendingRewards(user.address)).to.equal(accrued);
+
+            // So does unstaking
+            await time.increase(DEV_MIN_STAKE_DURATION);
+            const pendingBeforeUnstake = await staking.getPendingRewards(user.address);
+            await staking.connect(user).unstake(tokenAddress, ethers.parseEther("50"));
+            expect(await staking.rewards(user.address, rewardAddress)).to.be.gte(pendingBeforeUnstake);
+
+            // The only staker earns the whole stream
+            await staking.connect(user).claimRewards();
+            const earned = rewardRate * BigInt((await time.latest()) - stakedAt);
+            const claimed = await rewardToken.balanceOf(user.address);
+            expect(claimed).to.be.lte(earned);
+            expect(claimed).to.be.closeTo(earned, DUST);
+            expect(await staking.rewards(user.address, rewardAddress)).to.equal(0n);
+        });
+
+        it("Should not pay rewards past the end of the period", async () => {
+            const { staking, rewardToken, tokenAddress, rewardAddress, accounts } = await setupFixture();
+            const user = accounts[1];
+
+            await staking.connect(user).stake(tokenAddress, ethers.parseEther("100"));
+            const expected = await emittedSince(staking, rewardAddress, await time.latest());
+
+            await time.increaseTo((await staking.periodFinish()) + 86400n);
+            expect(await staking.getPendingRewards(user.address)).to.be.closeTo(expected, DUST);
+            await staking.connect(user).claimRewards();
+            expect(await rewardToken.balanceOf(user.address)).to.be.closeTo(expected, DUST);
+
+            // Nothing more accrues once the period is over
+            await time.increase(86400);
+            expect(await staking.getPendingRewards(user.address)).to.equal(0n);
+            await expect(staking.connect(user).claimRewards()).to.be.revertedWith("No rewards to claim");
+        });
+    });
+
+    describe("Conservation", () => {
+        it("Should pay out every distributed reward exactly once across stakers", async () => {
+            const { staking, rewardToken, tokenAddress, rewardAddress, accounts, owner } = await setupFixture();
+            const [user1, user2, user3] = accounts.slice(1, 4);
+
+            // A second staked token with a 2x weight and a second reward stream
+            const otherToken = await ethers.deployContract("MagicWorldToken", [], owner);
+            const otherAddress = await otherToken.getAddress();
+            await staking.addToken(otherAddress, DEV_MIN_STAKE_DURATION);
+            await staking.setTokenWeight(otherAddress, 2n * (await staking.WEIGHT_PRECISION()));
+            await otherToken.mint(user2.address, ethers.parseEther("1000"));
+            await otherToken.connect(user2).approve(await staking.getAddress(), ethers.MaxUint256);
+
+            const partnerReward = await ethers.deployContract("MockRewardToken", [], owner);
+            const partnerAddress = await partnerReward.getAddress();
+            await staking.addRewardToken(partnerAddress, 5 * 86400);
+            await partnerReward.mint(owner.address, ethers.parseEther("500"));
+            await partnerReward.approve(await staking.getAddress(), ethers.MaxUint256);
+            await staking.fundRewardToken(partnerAddress, ethers.parseEther("500"));
+
+            await staking.connect(user1).stake(tokenAddress, ethers.parseEther("100"));
+            const firstStake = await time.latest();
+            const expectedMain = await emittedSince(staking, rewardAddress, firstStake);
+            const expectedPartner = await emittedSince(staking, partnerAddress, firstStake);
+
+            await time.increase(3600);
+            await staking.connect(user2).stakeLocked(otherAddress, ethers.parseEther("200"), 0);
+            await time.increase(86400);
+            await staking.connect(user1).claimRewards();
+            await staking.connect(user3).stake(tokenAddress, ethers.parseEther("300"));
+            await time.increase(86400);
+            await staking.connect(user1).stake(tokenAddress, ethers.parseEther("50"));
+            await staking.setTokenWeight(otherAddress, 3n * (await staking.WEIGHT_PRECISION()));
+            await time.increase(2 * 86400);
+            await staking.connect(user3).unstake(tokenAddress, ethers.parseEther("100"));
+            await staking.connect(user2).claimReward(partnerAddress);
+
+            // Everyone claims what is left once both periods are over
+            await time.increaseTo((await staking.periodFinish()) + 1n);
+            for (const user of [user1, user2, user3]) {
+                await staking.connect(user).claimRewards();
+                await expect(staking.connect(user).claimRewards()).to.be.revertedWith("No rewards to claim");
+            }
+
+            let paidMain = 0n;
+            let paidPartner = 0n;
+            for (const user of [user1, user2, user3]) {
+                paidMain += await rewardToken.balanceOf(user.address);
+                paidPartner += await partnerReward.balanceOf(user.address);
+            }
+            console.log("Main reward paid:", ethers.formatEther(paidMain), "of", ethers.formatEther(expectedMain));
+            console.log("Partner reward paid:", ethers.formatEther(paidPartner), "of", ethers.formatEther(expectedPartner));
+
+            expect(paidMain).to.be.lte(expectedMain);
+            expect(paidMain).to.be.closeTo(expectedMain, DUST);
+            expect(paidPartner).to.be.lte(expectedPartner);
+            expect(paidPartner).to.be.closeTo(expectedPartner, DUST);
+
+            // Only rounding dust is left allocated
+            expect((await staking.rewardData(rewardAddress)).totalAllocatedRewards).to.be.lte(DUST);
+            expect((await staking.rewardData(partnerAddress)).totalAllocatedRewards).to.be.lte(DUST);
+        });
+    });
+
+    describe("Liability", () => {
+        it("Should only let the owner withdraw rewards nobody is owed", async () => {
+            const { staking, rewardToken, tokenAddress, rewardAddress, accounts, owner } = await setupFixture();
+            const user = accounts[1];
+            const stakingAddress = await staking.getAddress();
+
+            await staking.connect(user).stake(tokenAddress, ethers.parseEther("100"));
+            const expected = await emittedSince(staking, rewardAddress, await time.latest());
+            await time.increase(86400);
+            await rewardToken.mint(stakingAddress, ethers.parseEther("250"));
+
+            // The surplus and what was scheduled before anyone staked are excess
+            const ownerBefore = await rewardToken.balanceOf(owner.address);
+            await staking.emergencyWithdrawRewards();
+            expect(await rewardToken.balanceOf(owner.address) - ownerBefore).to.be.gte(ethers.parseEther("250"));
+            expect(await rewardToken.balanceOf(stakingAddress))
+                .to.equal((await staking.rewardData(rewardAddress)).totalAllocatedRewards);
+
+            // What is left still covers the whole stream
+            await time.increaseTo((await staking.periodFinish()) + 1n);
+            await staking.connect(user).claimRewards();
+            expect(await rewardToken.balanceOf(user.address)).to.be.closeTo(expected, DUST);
+            expect(await rewardToken.balanceOf(stakingAddress)).to.be.lte(DUST);
+        });
+
+        it("Should leave the rounding remainder of a funding as excess", async () => {
+            const { staking, rewardToken, tokenAddress, rewardAddress, accounts, owner } = await setupFixture();
+            const user = accounts[1];
+            const stakingAddress = await staking.getAddress();
+            await rewardToken.mint(owner.address, ethers.parseEther("1000"));
+            await staking.connect(user).stake(tokenAddress, ethers.parseEther("100"));
+
+            // Clear the deployment's period and what it left over
+            await time.increaseTo((await staking.periodFinish()) + 1n);
+            await staking.connect(user).claimRewards();
+            await staking.emergencyWithdrawRewards();
+            const paidBefore = await rewardToken.balanceOf(user.address);
+
+            const duration = await staking.rewardsDuration();
+            const amount = ethers.parseEther("1000") + 12345n;
+            const remainder = amount % duration;
+            expect(remainder).to.be.gt(0n);
+            // With no period running, less than a token unit per second streams nothing
+            await expect(staking.fundRewards(duration - 1n)).to.be.revertedWith("Reward rate is zero");
+            const allocatedBefore = (await staking.rewardData(rewardAddress)).totalAllocatedRewards;
+            await staking.fundRewards(amount);
+            expect((await staking.rewardData(rewardAddress)).totalAllocatedRewards)
+                .to.equal(allocatedBefore + amount - remainder);
+
+            // Once the period has paid out, only the remainder and the accumulator's rounding are left
+            await time.increaseTo((await staking.periodFinish()) + 1n);
+            await staking.connect(user).claimRewards();
+            expect(await rewardToken.balanceOf(user.address) - paidBefore).to.be.closeTo(amount - remainder, DUST);
+            const ownerBefore = await rewardToken.balanceOf(owner.address);
+            await staking.emergencyWithdrawRewards();
+            const withdrawn = await rewardToken.balanceOf(owner.address) - ownerBefore;
+            expect(withdrawn).to.be.gte(remainder);
+            expect(withdrawn).to.be.closeTo(remainder, DUST);
+            expect(await rewardToken.balanceOf(stakingAddress))
+                .to.equal((await staking.rewardData(rewardAddress)).totalAllocatedRewards);
+        });
+
+        it("Should take compounded rewards out of the liability", async () => {
+            const { staking, rewardToken, tokenAddress, rewardAddress, accounts } = await setupFixture();
+            const user = accounts[1];
+            await staking.addToken(rewardAddress, DEV_MIN_STAKE_DURATION);
+
+            await staking.connect(user).stake(tokenAddress, ethers.parseEther("100"));
+            await time.increase(86400);
+            const allocatedBefore = (await staking.rewardData(rewardAddress)).totalAllocatedRewards;
+            const tx = await staking.connect(user).compound();
+            const compounded = (await staking.userStakes(user.address, rewardAddress)).amount;
+
+            await expect(tx).to.emit(staking, "Compounded").withArgs(user.address, compounded);
+            expect((await staking.rewardData(rewardAddress)).totalAllocatedRewards)
+                .to.equal(allocatedBefore - compounded);
+
+            // The compounded stake is principal, not excess
+            await staking.emergencyWithdrawRewards();
+            await time.increase(DEV_MIN_STAKE_DURATION);
+            await staking.connect(user).unstake(rewardAddress, compounded);
+            expect(await rewardToken.balanceOf(user.address)).to.equal(compounded);
+        });
+
+        it("Should release forfeited rewards on emergency withdrawal", async () => {
+            const { staking, rewardToken, tokenAddress, rewardAddress, accounts } = await setupFixture();
+            const [user1, user2] = accounts.slice(1, 3);
+
+            await staking.connect(user1).stake(tokenAddress, ethers.parseEther("100"));
+            const firstStake = await time.latest();
+            await staking.connect(user2).stake(tokenAddress, ethers.parseEther("100"));
+            await time.increase(86400);
+
+            await staking.setEmergencyMode(true);
+            await staking.connect(user1).emergencyWithdraw(tokenAddress);
+            const forfeitedAt = await time.latest();
+            expect(await staking.getPendingRewards(user1.address)).to.equal(0n);
+            expect(await staking.rewards(user1.address, rewardAddress)).to.equal(0n);
+            await staking.emergencyWithdrawRewards();
+
+            // The remaining staker is still paid in full
+            await time.increaseTo((await staking.periodFinish()) + 1n);
+            await staking.connect(user2).claimRewards();
+            const rewardRate = await staking.rewardRate();
+            const user2Share = rewardRate * BigInt(forfeitedAt - firstStake - 1) / 2n
+                + await emittedSince(staking, rewardAddress, forfeitedAt);
+            expect(await rewardToken.balanceOf(user2.address)).to.be.closeTo(user2Share, DUST);
+            expect(await rewardToken.balanceOf(user1.address)).to.equal(0n);
+        });
+    });
+});
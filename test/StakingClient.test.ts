@@ -0,0 +1,172 @@
+import { expect } from "chai";
+import { deployments, ethers, getNamedAccounts } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { MagicWorldStaking, MagicWorldToken } from "../typechain-types";
+import {
+    ContractPausedError,
+    InsufficientAllowanceError,
+    InsufficientStakeError,
+    InvalidLockTierError,
+    MinStakeDurationNotMetError,
+    NoLockedPositionError,
+    PositionLockedError,
+    NoRewardsToClaimError,
+    StakingClient,
+    TokenNotWhitelistedError,
+    parseStakingError,
+} from "../sdk";
+import { DEV_MIN_STAKE_DURATION } from "../helper-hardhat-config";
+
+describe("StakingClient", () => {
+    const setupFixture = deployments.createFixture(async () => {
+        await deployments.fixture(["staking"]);
+        const signers = await getNamedAccounts();
+        const accounts = await ethers.getSigners();
+        const owner = await ethers.getSigner(signers.deployer);
+
+        const stakingAddress = (await deployments.get("MagicWorldStaking")).address;
+        const staking = await ethers.getContractAt("MagicWorldStaking", stakingAddress, owner) as MagicWorldStaking;
+        const stakingToken = await ethers.getContractAt(
+            "MagicWorldToken",
+            (await deployments.get("MagicWorldToken")).address,
+            owner
+        ) as MagicWorldToken;
+        const tokenAddress = await stakingToken.getAddress();
+
+        await stakingToken.mint(accounts[1].address, ethers.parseEther("1000"));
+
+        const client = StakingClient.connect(stakingAddress, accounts[1]);
+        return { client, staking, stakingToken, tokenAddress, accounts, owner };
+    });
+
+    describe("Staking", () => {
+        it("Should stake a human-readable amount with auto-approve", async () => {
+            const { client, staking, tokenAddress, accounts } = await setupFixture();
+
+            await client.stake(tokenAddress, "100.5", { autoApprove: true });
+
+            const userStake = await staking.userStakes(accounts[1].address, tokenAddress);
+            expect(userStake.amount).to.equal(ethers.parseEther("100.5"));
+        });
+
+        it("Should refuse to stake without allowance unless auto-approve is set", async () => {
+            const { client, tokenAddress } = await setupFixture();
+
+            const error = await client.stake(tokenAddress, "10").catch((e) => e);
+            expect(error).to.be.instanceOf(InsufficientAllowanceError);
+            expect(error.allowance).to.equal(0n);
+            expect(error.required).to.equal(ethers.parseEther("10"));
+        });
+
+        it("Should reject tokens that are not whitelisted", async () => {
+            const { client, owner } = await setupFixture();
+            const other = await ethers.deployContract("MagicWorldToken", [], owner);
+
+            const error = await client.stake(await other.getAddress(), "1", { autoApprove: true }).catch((e) => e);
+            expect(error).to.be.instanceOf(TokenNotWhitelistedError);
+        });
+    });
+
+    describe("Unstaking", () => {
+        it("Should report the unlock time and block early unstaking", async () => {
+            const { client, tokenAddress, accounts } = await setupFixture();
+            await client.stake(tokenAddress, "100", { autoApprove: true });
+
+            const info = await client.unstakeable(accounts[1].address, tokenAddress);
+            const latest = await time.latest();
+            expect(info.amount).to.equal(ethers.parseEther("100"));
+            expect(info.unlockTime).to.equal(BigInt(latest + DEV_MIN_STAKE_DURATION));
+            expect(info.unlocked).to.be.false;
+
+            const error = await client.unstake(tokenAddress, "100").catch((e) => e);
+            expect(error).to.be.instanceOf(MinStakeDurationNotMetError);
+            expect(error.unlockTime).to.equal(info.unlockTime);
+        });
+
+        it("Should unstake once the minimum duration has passed", async () => {
+            const { client, stakingToken, tokenAddress, accounts } = await setupFixture();
+            await client.stake(tokenAddress, "100", { autoApprove: true });
+            await time.increase(DEV_MIN_STAKE_DURATION + 1);
+
+            expect((await client.unstakeable(accounts[1].address, tokenAddress)).unlocked).to.be.true;
+            await expect(client.unstake(tokenAddress, "150")).to.be.rejectedWith(InsufficientStakeError);
+
+            await client.unstake(tokenAddress, "100");
+            expect(await stakingToken.balanceOf(accounts[1].address)).to.equal(ethers.parseEther("1000"));
+        });
+
+        it("Should report each deposit and only unstake unlocked ones", async () => {
+            const { client, tokenAddress, accounts } = await setupFixture();
+            await client.stake(tokenAddress, "100", { autoApprove: true });
+            await time.increase(DEV_MIN_STAKE_DURATION);
+            await client.stake(tokenAddress, "50", { autoApprove: true });
+
+            const info = await client.unstakeable(accounts[1].address, tokenAddress);
+            expect(info.lots.map((lot) => lot.amount)).to.deep.equal([ethers.parseEther("100"), ethers.parseEther("50")]);
+            expect(info.unlockedAmount).to.equal(ethers.parseEther("100"));
+            expect(info.unlockTime).to.equal(info.lots[1].unlockTime);
+            expect(info.unlocked).to.be.false;
+
+            const error = await client.unstake(tokenAddress, "120").catch((e) => e);
+            expect(error).to.be.instanceOf(MinStakeDurationNotMetError);
+            expect(error.unlockTime).to.equal(info.lots[1].unlockTime);
+
+            await client.unstake(tokenAddress, "100");
+            expect((await client.unstakeable(accounts[1].address, tokenAddress)).amount).to.equal(ethers.parseEther("50"));
+        });
+    });
+
+    describe("Locked positions", () => {
+        it("Should stake locked, list positions and block early withdrawal", async () => {
+            const { client, staking, stakingToken, tokenAddress, accounts } = await setupFixture();
+
+            await expect(client.stakeLocked(tokenAddress, "1", 99, { autoApprove: true }))
+                .to.be.rejectedWith(InvalidLockTierError);
+
+            await client.stakeLocked(tokenAddress, "100", 0, { autoApprove: true });
+            const [position] = await client.lockedPositions(accounts[1].address);
+            expect(position.positionId).to.equal(0);
+            expect(position.amount).to.equal(ethers.parseEther("100"));
+            expect(position.unlockTime).to.equal((await staking.lockTiers(0)).duration + BigInt(await time.latest()));
+            expect(position.unlocked).to.be.false;
+
+            const error = await client.withdrawLocked(0).catch((e) => e);
+            expect(error).to.be.instanceOf(PositionLockedError);
+            expect(error).to.be.instanceOf(MinStakeDurationNotMetError);
+            expect(error.unlockTime).to.equal(position.unlockTime);
+            await expect(client.withdrawLocked(1)).to.be.rejectedWith(NoLockedPositionError);
+
+            await time.increaseTo(position.unlockTime);
+            await client.withdrawLocked(0);
+            expect(await client.lockedPositions(accounts[1].address)).to.be.empty;
+            expect(await stakingToken.balanceOf(accounts[1].address)).to.equal(ethers.parseEther("1000"));
+        });
+    });
+
+    describe("Rewards", () => {
+        it("Should return pending rewards and map claim reverts", async () => {
+            const { client, tokenAddress, accounts } = await setupFixture();
+
+            await expect(client.claimRewards()).to.be.rejectedWith(NoRewardsToClaimError);
+
+            await client.stake(tokenAddress, "100", { autoApprove: true });
+            await time.increase(3600);
+            expect(await client.pendingRewards(accounts[1].address)).to.be.gt(0n);
+        });
+    });
+
+    describe("Error mapping", () => {
+        it("Should translate revert strings and custom errors", async () => {
+            const { staking, tokenAddress, accounts } = await setupFixture();
+
+            const notWhitelisted = await staking.connect(accounts[1]).stake(ethers.ZeroAddress, 1).catch((e) => e);
+            expect(parseStakingError(notWhitelisted)).to.be.instanceOf(TokenNotWhitelistedError);
+
+            await staking.pause();
+            const paused = await staking.connect(accounts[1]).stake(tokenAddress, 1).catch((e) => e);
+            expect(parseStakingError(paused)).to.be.instanceOf(ContractPausedError);
+
+            expect(parseStakingError(new Error("unrelated"))).to.be.undefined;
+        });
+    });
+});
@@ -0,0 +1,231 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import yaml from "js-yaml";
+import { expect } from "chai";
+import hre, { deployments, ethers, getNamedAccounts } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { MagicWorldStaking, MagicWorldToken, MockRewardToken } from "../typechain-types";
+import { DEV_MIN_STAKE_DURATION } from "../helper-hardhat-config";
+import { encodeProposal, ProposalSpec } from "../tasks/proposal-builder";
+import { getDeploymentBlock } from "../tasks/helpers";
+
+const EPOCH = 7n * 86400n;
+
+describe("Staking tasks", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "staking-tasks-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const setupFixture = deployments.createFixture(async () => {
+        await deployments.fixture(["staking"]);
+        const signers = await getNamedAccounts();
+        const accounts = await ethers.getSigners();
+        const owner = await ethers.getSigner(signers.deployer);
+
+        const staking = await ethers.getContractAt(
+            "MagicWorldStaking",
+            (await deployments.get("MagicWorldStaking")).address,
+            owner
+        ) as MagicWorldStaking;
+        const stakingToken = await ethers.getContractAt(
+            "MagicWorldToken",
+            (await deployments.get("MagicWorldToken")).address,
+            owner
+        ) as MagicWorldToken;
+        const rewardToken = await ethers.getContractAt(
+            "MockRewardToken",
+            (await deployments.get("MockRewardToken")).address,
+            owner
+        ) as MockRewardToken;
+        return { staking, stakingToken, rewardToken, accounts, owner };
+    });
+
+    describe("staking:fund", () => {
+        it("Should approve and fund the main reward token, and only print on a dry run", async () => {
+            const { staking, rewardToken, owner } = await setupFixture();
+            const stakingAddress = await staking.getAddress();
+            await rewardToken.mint(owner.address, ethers.parseEther("1000"));
+            await rewardToken.approve(stakingAddress, 0);
+            const balanceBefore = await rewardToken.balanceOf(stakingAddress);
+
+            await hre.run("staking:fund", { amount: "1000", dryRun: true });
+            expect(await rewardToken.balanceOf(stakingAddress)).to.equal(balanceBefore);
+            expect(await rewardToken.allowance(owner.address, stakingAddress)).to.equal(0n);
+
+            await hre.run("staking:fund", { amount: "1000", dryRun: false });
+            expect(await rewardToken.balanceOf(stakingAddress)).to.equal(balanceBefore + ethers.parseEther("1000"));
+            expect(await staking.periodFinish()).to.equal(BigInt(await time.latest()) + await staking.rewardsDuration());
+        });
+
+        it("Should refuse funding that the contract or the signer would reject", async () => {
+            const { staking, stakingToken, rewardToken, owner } = await setupFixture();
+
+            await expect(hre.run("staking:fund", { amount: "0", dryRun: false }))
+                .to.be.rejectedWith(/Cannot fund with 0 tokens/);
+            await expect(hre.run("staking:fund", { amount: "1", reward: await stakingToken.getAddress(), dryRun: false }))
+                .to.be.rejectedWith(/Not a reward token/);
+            const balance = await rewardToken.balanceOf(owner.address);
+            await expect(hre.run("staking:fund", { amount: ethers.formatEther(balance + 1n), dryRun: false }))
+                .to.be.rejectedWith(/holds less than/);
+
+            await staking.revokeRole(await staking.REWARD_DISTRIBUTOR_ROLE(), owner.address);
+            await expect(hre.run("staking:fund", { amount: "1", dryRun: false }))
+                .to.be.rejectedWith(/doesn't have the staking reward-distributor role/);
+            // The calldata is still printed, e.g. for a proposal
+            await hre.run("staking:fund", { amount: "1", dryRun: true });
+        });
+
+        it("Should fund on top of an epoch that is due but not rolled over yet", async () => {
+            const { staking, stakingToken, rewardToken, accounts, owner } = await setupFixture();
+            const rewardAddress = await rewardToken.getAddress();
+            await rewardToken.mint(owner.address, ethers.parseEther("2000"));
+            await rewardToken.approve(await staking.getAddress(), ethers.MaxUint256);
+            await stakingToken.mint(accounts[1].address, ethers.parseEther("100"));
+            await stakingToken.connect(accounts[1]).approve(await staking.getAddress(), ethers.MaxUint256);
+            await staking.connect(accounts[1]).stake(await stakingToken.getAddress(), ethers.parseEther("100"));
+
+            const start = (await staking.periodFinish()) + 3600n;
+            await staking.scheduleRewardEpoch(rewardAddress, start, EPOCH, ethers.parseEther("1000"));
+            await time.increaseTo(start + EPOCH / 2n);
+            expect(await staking.nextEpoch(rewardAddress)).to.equal(0n);
+
+            // The epoch's rest rolls into the new period, as the preflight expects
+            const epochRate = (await staking.rewardEpochs(rewardAddress, 0)).amount / EPOCH;
+            await hre.run("staking:fund", { amount: "1000", dryRun: false });
+            const fundedAt = BigInt(await time.latest());
+            const leftover = (start + EPOCH - fundedAt) * epochRate;
+            expect(await staking.nextEpoch(rewardAddress)).to.equal(1n);
+            expect(await staking.rewardRate())
+                .to.equal((leftover + ethers.parseEther("1000")) / (await staking.rewardsDuration()));
+        });
+    });
+
+    describe("staking:status", () => {
+        async function runStatus(args: { fromBlock?: number; batchSize?: number }) {
+            const logs: string[] = [];
+            const log = console.log;
+            console.log = (...values: unknown[]) => logs.push(values.join(" "));
+            try {
+                await hre.run("staking:status", args);
+            } finally {
+                console.log = log;
+            }
+            return logs;
+        }
+
+        it("Should list role members from the deployment block, a few blocks per request", async () => {
+            const { staking, accounts, owner } = await setupFixture();
+            expect(await staking.hasRole(await staking.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+            const pauserRole = await staking.PAUSER_ROLE();
+            await staking.grantRole(pauserRole, accounts[5].address);
+            await staking.grantRole(pauserRole, accounts[6].address);
+            await staking.revokeRole(pauserRole, accounts[6].address);
+            const grantedAt = await ethers.provider.getBlockNumber();
+
+            // The scan starts where the deployment was mined, not at genesis
+            expect(await getDeploymentBlock(hre, "MagicWorldStaking", await staking.getAddress())).to.be.gt(0);
+            const logs = await runStatus({ batchSize: 2 });
+            // The deployment granted the admin role
+            expect(logs.find(line => line.trim().startsWith("admin:"))).to.include(owner.address);
+            const pausers = logs.find(line => line.trim().startsWith("pauser:"))!;
+            expect(pausers).to.include(accounts[5].address);
+            expect(pausers).to.not.include(accounts[6].address);
+
+            // Grants before --from-block aren't seen
+            const later = await runStatus({ fromBlock: grantedAt + 1 });
+            expect(later.find(line => line.trim().startsWith("pauser:"))).to.not.include(accounts[5].address);
+
+            await expect(runStatus({ batchSize: 0 })).to.be.rejectedWith(/Invalid batch size/);
+        });
+    });
+
+    describe("staking:emergency-withdraw", () => {
+        it("Should count what a due epoch released before it is rolled over", async () => {
+            const { staking, rewardToken, owner } = await setupFixture();
+            const rewardAddress = await rewardToken.getAddress();
+            await rewardToken.mint(owner.address, ethers.parseEther("1000"));
+            await rewardToken.approve(await staking.getAddress(), ethers.MaxUint256);
+
+            // Nobody stakes, the deployment's period is over and its rewards withdrawn
+            await time.increaseTo(await staking.periodFinish());
+            await staking.emergencyWithdrawRewards();
+            await expect(hre.run("staking:emergency-withdraw", { dryRun: false }))
+                .to.be.rejectedWith(/No excess rewards to withdraw/);
+
+            // Half of an unstaked epoch is released once it rolls over, which no transaction has done yet.
+            // Its amount streams exactly, so nothing else is excess.
+            const amount = EPOCH * 10n ** 15n;
+            const start = BigInt(await time.latest()) + 3600n;
+            await staking.scheduleRewardEpoch(rewardAddress, start, EPOCH, amount);
+            await time.increaseTo(start + EPOCH / 2n);
+            expect(await staking.nextEpoch(rewardAddress)).to.equal(0n);
+            const stored = (await staking.rewardData(rewardAddress)).totalAllocatedRewards;
+            expect(await rewardToken.balanceOf(await staking.getAddress())).to.equal(stored);
+
+            const ownerBefore = await rewardToken.balanceOf(owner.address);
+            await hre.run("staking:emergency-withdraw", { dryRun: false });
+            expect(await rewardToken.balanceOf(owner.address) - ownerBefore)
+                .to.be.closeTo(amount / 2n, 10n ** 16n);
+        });
+    });
+
+    describe("staking:migrate", () => {
+        it("Should copy the whitelist of the Ownable deployment through a proposal spec", async () => {
+            const { staking, stakingToken, rewardToken, owner } = await setupFixture();
+            const tokenAddress = await stakingToken.getAddress();
+
+            // The previous deployment, built from the original Ownable contract
+            const previous = await ethers.deployContract(
+                "MagicWorldStakingOwnableMock", [await rewardToken.getAddress()], owner
+            );
+            const otherToken = await ethers.deployContract("MagicWorldToken", [], owner);
+            const otherAddress = await otherToken.getAddress();
+            await previous.addToken(tokenAddress, 2 * DEV_MIN_STAKE_DURATION);
+            await previous.addToken(otherAddress, 3 * DEV_MIN_STAKE_DURATION);
+
+            const out = path.join(dir, "migrate-staking.yaml");
+            await hre.run("staking:migrate", { from: await previous.getAddress(), out });
+            const spec = yaml.load(fs.readFileSync(out, "utf8")) as ProposalSpec;
+            expect(spec.actions.map(action => [action.call, action.args])).to.deep.equal([
+                ["MagicWorldStaking.updateMinStakeDuration", [tokenAddress, String(2 * DEV_MIN_STAKE_DURATION)]],
+                ["MagicWorldStaking.addToken", [otherAddress, String(3 * DEV_MIN_STAKE_DURATION)]]
+            ]);
+
+            // What the timelock would execute; the deployer holds the roles on development chains
+            const { targets, calldatas } = await encodeProposal(hre, spec);
+            for (const [i, target] of targets.entries()) {
+                await (await owner.sendTransaction({ to: target, data: calldatas[i] })).wait();
+            }
+            expect((await staking.whitelistedTokens(tokenAddress)).minStakeDuration)
+                .to.equal(BigInt(2 * DEV_MIN_STAKE_DURATION));
+            const added = await staking.whitelistedTokens(otherAddress);
+            expect(added.isWhitelisted).to.be.true;
+            expect(added.minStakeDuration).to.equal(BigInt(3 * DEV_MIN_STAKE_DURATION));
+            expect(added.weight).to.equal(await staking.WEIGHT_PRECISION());
+
+            // Nothing is left to copy afterwards
+            fs.rmSync(out);
+            await hre.run("staking:migrate", { from: await previous.getAddress(), out });
+            expect(fs.existsSync(out)).to.be.false;
+        });
+
+        it("Should refuse a previous deployment that isn't an Ownable staking contract", async () => {
+            const { staking, rewardToken } = await setupFixture();
+            const out = path.join(dir, "migrate-staking.yaml");
+
+            await expect(hre.run("staking:migrate", { from: await staking.getAddress(), out }))
+                .to.be.rejectedWith(/must differ/);
+            await expect(hre.run("staking:migrate", { from: await rewardToken.getAddress(), out }))
+                .to.be.rejectedWith(/is not an Ownable MagicWorldStaking/);
+            await expect(hre.run("staking:migrate", { from: "0x1234", out }))
+                .to.be.rejectedWith(/Invalid address/);
+        });
+    });
+});
@@ -0,0 +1,267 @@
+import fs from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import { expect } from "chai";
+import hre, { deployments, ethers, getNamedAccounts, upgrades } from "hardhat";
+import { time, mine } from "@nomicfoundation/hardhat-network-helpers";
+import {
+    MagicWorldGovernanceToken,
+    MagicWorldGovernanceUpgradeable,
+    MagicWorldGovernanceV2Mock,
+    MagicWorldStakingUpgradeable,
+    MagicWorldStakingV2Mock,
+    MagicWorldToken,
+    MockRewardToken
+} from "../typechain-types";
+import { DEV_GOVERNANCE_PARAMETERS } from "../helper-hardhat-config";
+import { deployUpgradeableProxy } from "../helper-upgrades";
+import { encodeProposal, ProposalSpec } from "../tasks/proposal-builder";
+
+// Rounding of the reward rate and accumulators, in reward token wei
+const DUST = 10n ** 6n;
+const STAKING_LIBRARIES = ["RewardEpochs", "TokenWhitelist", "RewardTokens", "LockTiers"];
+
+describe("Upgrades", () => {
+    const setupFixture = deployments.createFixture(async () => {
+        await deployments.fixture(["governance", "staking"]);
+        const signers = await getNamedAccounts();
+        const accounts = await ethers.getSigners();
+        const deployer = await ethers.getSigner(signers.deployer);
+
+        const stakingToken = await ethers.getContractAt(
+            "MagicWorldToken",
+            (await deployments.get("MagicWorldToken")).address,
+            deployer
+        ) as MagicWorldToken;
+        const rewardToken = await ethers.getContractAt(
+            "MockRewardToken",
+            (await deployments.get("MockRewardToken")).address,
+            deployer
+        ) as MockRewardToken;
+        const magic = await ethers.getContractAt(
+            "MagicWorldGovernanceToken",
+            (await deployments.get("MagicWorldGovernanceToken")).address,
+            deployer
+        ) as MagicWorldGovernanceToken;
+
+        // Both are proxies, deployed by the deploy scripts
+        const staking = await ethers.getContractAt(
+            "MagicWorldStakingUpgradeable",
+            (await deployments.get("MagicWorldStaking")).address,
+            deployer
+        ) as MagicWorldStakingUpgradeable;
+        const governance = await ethers.getContractAt(
+            "MagicWorldGovernanceUpgradeable",
+            (await deployments.get("MagicWorldGovernance")).address,
+            deployer
+        ) as MagicWorldGovernanceUpgradeable;
+
+        const libraries: Record<string, string> = {};
+        for (const library of STAKING_LIBRARIES) {
+            libraries[library] = (await deployments.get(library)).address;
+        }
+
+        // Accounts 1 and 2 stake, account 2 in a locked position
+        const stakingAddress = await staking.getAddress();
+        for (const [i, amount] of [[1, "100"], [2, "300"]] as const) {
+            await stakingToken.mint(accounts[i].address, ethers.parseEther("1000"));
+            await stakingToken.connect(accounts[i]).approve(stakingAddress, ethers.MaxUint256);
+            await staking.connect(accounts[i]).stake(await stakingToken.getAddress(), ethers.parseEther(amount));
+        }
+        await staking.connect(accounts[2]).stakeLocked(await stakingToken.getAddress(), ethers.parseEther("200"), 1);
+        await time.increase(2 * 86400);
+
+        return { staking, governance, stakingToken, rewardToken, magic, libraries, accounts, deployer };
+    });
+
+    describe("Staking", () => {
+        it("Should keep balances and pending rewards across an upgrade", async () => {
+            const { staking, stakingToken, rewardToken, libraries, accounts, deployer } = await setupFixture();
+            const stakingAddress = await staking.getAddress();
+            const tokenAddress = await stakingToken.getAddress();
+            const [user1, user2] = [accounts[1], accounts[2]];
+            const implementationBefore = await upgrades.erc1967.getImplementationAddress(stakingAddress);
+
+            const stakesBefore = await Promise.all([user1, user2].map(user => staking.userStakes(user.address, tokenAddress)));
+            const locksBefore = await staking.getUserLocks(user2.address);
+            const lotsBefore = await staking.getStakeLots(user1.address, tokenAddress);
+            const totalsBefore = [
+                await staking.totalNormalizedStaked(),
+                await staking.totalWeightedStaked(),
+                await staking.totalAllocatedRewards(),
+                await staking.rewardRate()
+            ];
+            const pendingBefore = await Promise.all([user1, user2].map(user => staking.getPendingRewards(user.address)));
+            const timeBefore = await time.latest();
+
+            // What the deploy script does when the implementation changed
+            const result = await deployUpgradeableProxy(hre, "MagicWorldStaking", {
+                contract: "MagicWorldStakingV2Mock",
+                from: deployer.address,
+                args: [],
+                libraries
+            });
+            expect(result.newlyDeployed).to.be.false;
+            expect(result.proposal).to.be.undefined;
+            expect(result.implementation).to.not.equal(implementationBefore);
+            expect(await upgrades.erc1967.getImplementationAddress(stakingAddress)).to.equal(result.implementation);
+
+            const upgraded = await ethers.getContractAt("MagicWorldStakingV2Mock", stakingAddress, deployer) as MagicWorldStakingV2Mock;
+            expect(await upgraded.implementationVersion()).to.equal(2n);
+
+            // State is unchanged
+            for (const [i, user] of [user1, user2].entries()) {
+                expect(await upgraded.userStakes(user.address, tokenAddress)).to.deep.equal(stakesBefore[i]);
+            }
+            expect(await upgraded.getUserLocks(user2.address)).to.deep.equal(locksBefore);
+            expect(await upgraded.getStakeLots(user1.address, tokenAddress)).to.deep.equal(lotsBefore);
+            expect([
+                await upgraded.totalNormalizedStaked(),
+                await upgraded.totalWeightedStaked(),
+                await upgraded.totalAllocatedRewards(),
+                await upgraded.rewardRate()
+            ]).to.deep.equal(totalsBefore);
+            expect(await upgraded.hasRole(await upgraded.DEFAULT_ADMIN_ROLE(), deployer.address)).to.be.true;
+
+            // Pending rewards only grew by what accrued while upgrading
+            const accrued = totalsBefore[3] * BigInt((await time.latest()) - timeBefore);
+            for (const [i, user] of [user1, user2].entries()) {
+                const pending = await upgraded.getPendingRewards(user.address);
+                console.log(`Pending rewards of account ${i + 1}:`, ethers.formatEther(pendingBefore[i]), "->", ethers.formatEther(pending));
+                expect(pending).to.be.gte(pendingBefore[i]);
+                expect(pending - pendingBefore[i]).to.be.lte(accrued + DUST);
+            }
+
+            // Stakers keep claiming and unstaking on the new implementation
+            const pending = await upgraded.getPendingRewards(user1.address);
+            await upgraded.connect(user1).claimRewards();
+            expect(await rewardToken.balanceOf(user1.address)).to.be.closeTo(pending, pending / 1000n);
+            await upgraded.connect(user1).unstake(tokenAddress, ethers.parseEther("100"));
+            expect((await upgraded.userStakes(user1.address, tokenAddress)).amount).to.equal(0n);
+        });
+
+        it("Should leave an unchanged implementation in place", async () => {
+            const { staking, libraries, deployer } = await setupFixture();
+            const implementation = await upgrades.erc1967.getImplementationAddress(await staking.getAddress());
+
+            const result = await deployUpgradeableProxy(hre, "MagicWorldStaking", {
+                contract: "MagicWorldStakingUpgradeable",
+                from: deployer.address,
+                args: [],
+                libraries
+            });
+            expect(result.implementation).to.equal(implementation);
+            expect(await upgrades.erc1967.getImplementationAddress(await staking.getAddress())).to.equal(implementation);
+        });
+
+        it("Should only let the admin upgrade", async () => {
+            const { staking, libraries, accounts, deployer } = await setupFixture();
+            const factory = await ethers.getContractFactory("MagicWorldStakingV2Mock", { signer: deployer, libraries });
+            const implementation = await upgrades.prepareUpgrade(await staking.getAddress(), factory, {
+                kind: "uups",
+                unsafeAllowLinkedLibraries: true
+            }) as string;
+
+            await expect(staking.connect(accounts[1]).upgradeToAndCall(implementation, "0x"))
+                .to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+            await expect(staking.initialize(await staking.rewardToken()))
+                .to.be.revertedWithCustomError(staking, "InvalidInitialization");
+
+            // The implementation itself can't be initialized either
+            const implementationContract = await ethers.getContractAt("MagicWorldStakingV2Mock", implementation);
+            await expect(implementationContract.initialize(await staking.rewardToken()))
+                .to.be.revertedWithCustomError(staking, "InvalidInitialization");
+        });
+
+        it("Should reject an implementation with an incompatible storage layout", async () => {
+            const { staking, libraries, deployer } = await setupFixture();
+            const implementation = await upgrades.erc1967.getImplementationAddress(await staking.getAddress());
+
+            await expect(deployUpgradeableProxy(hre, "MagicWorldStaking", {
+                contract: "MagicWorldStakingBadLayoutMock",
+                from: deployer.address,
+                args: [],
+                libraries
+            })).to.be.rejectedWith(/New storage layout is incompatible/);
+            expect(await upgrades.erc1967.getImplementationAddress(await staking.getAddress())).to.equal(implementation);
+        });
+
+        it("Should write a proposal when the deployer lacks the admin role", async () => {
+            const { staking, libraries, accounts } = await setupFixture();
+            const implementation = await upgrades.erc1967.getImplementationAddress(await staking.getAddress());
+
+            const result = await deployUpgradeableProxy(hre, "MagicWorldStaking", {
+                contract: "MagicWorldStakingV2Mock",
+                from: accounts[1].address,
+                args: [],
+                libraries
+            });
+            expect(result.proposal).to.equal(path.join(hre.config.paths.root, "proposals", "upgrades", "hardhat", "MagicWorldStaking.yaml"));
+            const spec = yaml.load(fs.readFileSync(result.proposal!, "utf8")) as ProposalSpec;
+            fs.rmSync(result.proposal!);
+            expect(spec.actions[0].args).to.deep.equal([result.implementation, "0x"]);
+            expect(await upgrades.erc1967.getImplementationAddress(await staking.getAddress())).to.equal(implementation);
+        });
+
+        it("Should throw upgrade failures other than access instead of writing a proposal", async () => {
+            const { staking, libraries, deployer } = await setupFixture();
+            const implementation = await upgrades.erc1967.getImplementationAddress(await staking.getAddress());
+
+            await expect(deployUpgradeableProxy(hre, "MagicWorldStaking", {
+                contract: "MagicWorldStakingBadUUIDMock",
+                from: deployer.address,
+                args: [],
+                libraries
+            })).to.be.rejectedWith(/UUPSUnsupportedProxiableUUID/);
+            expect(fs.existsSync(path.join(hre.config.paths.root, "proposals", "upgrades", "hardhat", "MagicWorldStaking.yaml"))).to.be.false;
+            expect(await upgrades.erc1967.getImplementationAddress(await staking.getAddress())).to.equal(implementation);
+        });
+    });
+
+    describe("Governance", () => {
+        it("Should upgrade the governor through a proposal", async () => {
+            const { governance, magic, accounts, deployer } = await setupFixture();
+            const governanceAddress = await governance.getAddress();
+            for (const i of [1, 2, 3]) {
+                await magic.mint(accounts[i].address, ethers.parseEther("100"));
+                await magic.connect(accounts[i]).delegate(accounts[i].address);
+            }
+
+            // The deployer can't upgrade, so the deploy script writes a proposal
+            const result = await deployUpgradeableProxy(hre, "MagicWorldGovernance", {
+                contract: "MagicWorldGovernanceV2Mock",
+                from: deployer.address,
+                args: []
+            });
+            expect(result.proposal).to.not.be.undefined;
+            const spec = yaml.load(fs.readFileSync(result.proposal!, "utf8")) as ProposalSpec;
+            fs.rmSync(result.proposal!);
+            await expect(governance.upgradeToAndCall(result.implementation, "0x"))
+                .to.be.revertedWithCustomError(governance, "GovernorOnlyExecutor");
+
+            const { targets, values, calldatas, description, descriptionHash } = await encodeProposal(hre, spec);
+            expect(targets).to.deep.equal([governanceAddress]);
+            await governance.connect(accounts[1]).propose(targets, values, calldatas, description);
+            const proposalId = await governance.hashProposal(targets, values, calldatas, descriptionHash);
+            await mine(2);
+            for (const i of [1, 2, 3]) {
+                await governance.connect(accounts[i]).castVote(proposalId, 1);
+            }
+            await mine(6);
+            await governance.queue(targets, values, calldatas, descriptionHash);
+            await time.increase(DEV_GOVERNANCE_PARAMETERS.timelockMinDelay);
+            await governance.execute(targets, values, calldatas, descriptionHash);
+
+            const upgraded = await ethers.getContractAt("MagicWorldGovernanceV2Mock", governanceAddress) as MagicWorldGovernanceV2Mock;
+            expect(await upgrades.erc1967.getImplementationAddress(governanceAddress)).to.equal(result.implementation);
+            expect(await upgraded.implementationVersion()).to.equal(2n);
+
+            // Settings and proposals carry over
+            expect(await upgraded.name()).to.equal("MagicWorldGovernance");
+            expect(await upgraded.votingPeriod()).to.equal(BigInt(DEV_GOVERNANCE_PARAMETERS.votingPeriod));
+            expect(await upgraded.timelock()).to.equal((await deployments.get("MagicWorldTimelock")).address);
+            expect(await upgraded.stakedToken()).to.equal((await deployments.get("MagicWorldStakedToken")).address);
+            expect(await upgraded.state(proposalId)).to.equal(7); // Executed
+        });
+    });
+});
@@ -0,0 +1,220 @@
+import { expect } from "chai";
+import { deployments, ethers, getNamedAccounts } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+    MagicWorldGovernanceToken,
+    MagicWorldVestingFactory,
+    MagicWorldVestingWallet
+} from "../typechain-types";
+
+const DAY = 86400;
+
+describe("Vesting", () => {
+    const setupFixture = deployments.createFixture(async () => {
+        await deployments.fixture(["vesting"]);
+        const signers = await getNamedAccounts();
+        const accounts = await ethers.getSigners();
+        const owner = await ethers.getSigner(signers.deployer);
+
+        const token = await ethers.getContractAt(
+            "MagicWorldGovernanceToken",
+            (await deployments.get("MagicWorldGovernanceToken")).address,
+            owner
+        ) as MagicWorldGovernanceToken;
+        const factory = await ethers.getContractAt(
+            "MagicWorldVestingFactory",
+            (await deployments.get("MagicWorldVestingFactory")).address,
+            owner
+        ) as MagicWorldVestingFactory;
+
+        await token.mint(owner.address, ethers.parseEther("1000000"));
+        await token.approve(await factory.getAddress(), ethers.MaxUint256);
+
+        return { token, factory, accounts, owner };
+    });
+
+    function schedule(
+        beneficiary: string,
+        amount: bigint,
+        start: number,
+        cliffDuration: number,
+        duration: number,
+        revocable = false
+    ): MagicWorldVestingFactory.ScheduleStruct {
+        return { beneficiary, amount, start, cliffDuration, duration, revocable };
+    }
+
+    // Creates one schedule and returns its wallet
+    async function createVesting(
+        factory: MagicWorldVestingFactory,
+        params: MagicWorldVestingFactory.ScheduleStruct
+    ): Promise<MagicWorldVestingWallet> {
+        const tx = await factory.createVesting(params);
+        const receipt = await tx.wait();
+        const event = receipt!.logs
+            .map(log => factory.interface.parseLog(log))
+            .find(parsed => parsed?.name === "VestingCreated");
+        return ethers.getContractAt("MagicWorldVestingWallet", event!.args.wallet);
+    }
+
+    describe("Schedule", () => {
+        it("Should release nothing before the cliff and vest linearly after it", async () => {
+            const { token, factory, accounts } = await setupFixture();
+            const beneficiary = accounts[1];
+            const amount = ethers.parseEther("1200");
+            const start = (await time.latest()) + DAY;
+
+            const wallet = await createVesting(factory, schedule(beneficiary.address, amount, start, 30 * DAY, 120 * DAY));
+            expect(await token.balanceOf(await wallet.getAddress())).to.equal(amount);
+            expect(await wallet.beneficiary()).to.equal(beneficiary.address);
+            expect(await wallet.cliff()).to.equal(start + 30 * DAY);
+            expect(await wallet.end()).to.equal(start + 120 * DAY);
+
+            // Nothing vests before the cliff, even though time has passed since the start
+            await time.increaseTo(start + 30 * DAY - 2);
+            expect(await wallet.releasable()).to.equal(0n);
+            await expect(wallet.release()).to.be.revertedWithCustomError(wallet, "VestingNothingToRelease");
+
+            // At the cliff the time since the start has vested at once
+            expect(await wallet.vestedAmount(start + 30 * DAY)).to.equal(amount / 4n);
+            expect(await wallet.vestedAmount(start + 60 * DAY)).to.equal(amount / 2n);
+
+            // Anyone can release, the tokens always go to the beneficiary
+            await time.increaseTo(start + 60 * DAY - 1);
+            await expect(wallet.connect(accounts[2]).release())
+                .to.emit(wallet, "TokensReleased")
+                .withArgs(beneficiary.address, amount / 2n);
+            expect(await token.balanceOf(beneficiary.address)).to.equal(amount / 2n);
+            expect(await wallet.released()).to.equal(amount / 2n);
+
+            // Everything has vested at the end
+            await time.increaseTo(start + 200 * DAY);
+            await wallet.release();
+            console.log("Released to beneficiary:", ethers.formatEther(await token.balanceOf(beneficiary.address)));
+            expect(await token.balanceOf(beneficiary.address)).to.equal(amount);
+            expect(await token.balanceOf(await wallet.getAddress())).to.equal(0n);
+        });
+
+        it("Should create a batch of schedules funded by the caller", async () => {
+            const { token, factory, accounts, owner } = await setupFixture();
+            const [investor, teamMember] = accounts.slice(1, 3);
+            const start = await time.latest();
+
+            const balanceBefore = await token.balanceOf(owner.address);
+            await factory.createVestings([
+                schedule(investor.address, ethers.parseEther("100"), start, 0, 365 * DAY),
+                schedule(teamMember.address, ethers.parseEther("200"), start, 365 * DAY, 4 * 365 * DAY, true),
+                schedule(teamMember.address, ethers.parseEther("50"), start, 0, 30 * DAY, true)
+            ]);
+
+            expect(await token.balanceOf(owner.address)).to.equal(balanceBefore - ethers.parseEther("350"));
+            expect(await factory.getVestingWalletsCount()).to.equal(3n);
+            expect(await factory.getBeneficiaryWallets(investor.address)).to.have.lengthOf(1);
+
+            const teamWallets = await factory.getBeneficiaryWallets(teamMember.address);
+            expect(teamWallets).to.have.lengthOf(2);
+            for (const walletAddress of teamWallets) {
+                expect(await factory.isVestingWallet(walletAddress)).to.be.true;
+                const wallet = await ethers.getContractAt("MagicWorldVestingWallet", walletAddress);
+                expect(await wallet.beneficiary()).to.equal(teamMember.address);
+                expect(await wallet.revocable()).to.be.true;
+            }
+        });
+
+        it("Should reject invalid schedules", async () => {
+            const { factory, accounts } = await setupFixture();
+            const walletInterface = await ethers.getContractAt("MagicWorldVestingWallet", ethers.ZeroAddress);
+            const start = await time.latest();
+            const amount = ethers.parseEther("100");
+
+            await expect(factory.createVesting(schedule(accounts[1].address, amount, start, 2 * DAY, DAY)))
+                .to.be.revertedWithCustomError(walletInterface, "VestingInvalidSchedule");
+            await expect(factory.createVesting(schedule(accounts[1].address, amount, start, 0, 0)))
+                .to.be.revertedWithCustomError(walletInterface, "VestingInvalidSchedule");
+            await expect(factory.createVesting(schedule(ethers.ZeroAddress, amount, start, 0, DAY)))
+                .to.be.revertedWithCustomError(walletInterface, "VestingInvalidSchedule");
+            await expect(factory.createVesting(schedule(accounts[1].address, 0n, start, 0, DAY)))
+                .to.be.revertedWith("Amount must be greater than 0");
+        });
+    });
+
+    describe("Voting Power", () => {
+        it("Should let the beneficiary vote with unvested tokens", async () => {
+            const { token, factory, accounts } = await setupFixture();
+            const [beneficiary, delegatee] = accounts.slice(1, 3);
+            const amount = ethers.parseEther("1000");
+            const start = (await time.latest()) + 30 * DAY;
+
+            const wallet = await createVesting(factory, schedule(beneficiary.address, amount, start, 0, 365 * DAY));
+            const walletAddress = await wallet.getAddress();
+
+            // Nothing has vested yet, but the votes already count for the beneficiary
+            expect(await wallet.vestedAmount(await time.latest())).to.equal(0n);
+            expect(await token.delegates(walletAddress)).to.equal(beneficiary.address);
+            expect(await token.getVotes(beneficiary.address)).to.equal(amount);
+
+            // Only the beneficiary can move them
+            await expect(wallet.connect(delegatee).delegate(delegatee.address))
+                .to.be.revertedWithCustomError(wallet, "VestingUnauthorized")
+                .withArgs(delegatee.address);
+            await wallet.connect(beneficiary).delegate(delegatee.address);
+            expect(await token.getVotes(beneficiary.address)).to.equal(0n);
+            expect(await token.getVotes(delegatee.address)).to.equal(amount);
+
+            // Released tokens leave the wallet's delegation
+            await time.increaseTo(start + 73 * DAY);
+            await wallet.release();
+            const released = await wallet.released();
+            expect(await token.getVotes(delegatee.address)).to.equal(amount - released);
+        });
+    });
+
+    describe("Revocation", () => {
+        it("Should refund unvested tokens to the owner and keep vested tokens releasable", async () => {
+            const { token, factory, accounts, owner } = await setupFixture();
+            const beneficiary = accounts[1];
+            const amount = ethers.parseEther("1000");
+            const start = await time.latest();
+
+            const wallet = await createVesting(factory, schedule(beneficiary.address, amount, start, 0, 100 * DAY, true));
+            const walletAddress = await wallet.getAddress();
+
+            await expect(factory.connect(beneficiary).revoke(walletAddress))
+                .to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+            await time.increaseTo(start + 40 * DAY - 1);
+
+            const ownerBefore = await token.balanceOf(owner.address);
+            const tx = await factory.revoke(walletAddress);
+            const vested = amount * 40n / 100n;
+            await expect(tx).to.emit(factory, "VestingRevoked").withArgs(walletAddress, amount - vested);
+            await expect(tx).to.emit(wallet, "VestingRevoked").withArgs(owner.address, amount - vested);
+            expect(await token.balanceOf(owner.address)).to.equal(ownerBefore + amount - vested);
+
+            // What had vested stays with the beneficiary, nothing more vests
+            expect(await wallet.revoked()).to.be.true;
+            expect(await wallet.releasable()).to.equal(vested);
+            await time.increase(100 * DAY);
+            await wallet.release();
+            expect(await token.balanceOf(beneficiary.address)).to.equal(vested);
+
+            await expect(factory.revoke(walletAddress))
+                .to.be.revertedWithCustomError(wallet, "VestingAlreadyRevoked");
+        });
+
+        it("Should only revoke revocable schedules through the factory", async () => {
+            const { factory, accounts, owner } = await setupFixture();
+            const start = await time.latest();
+
+            const wallet = await createVesting(
+                factory,
+                schedule(accounts[1].address, ethers.parseEther("100"), start, 0, 100 * DAY)
+            );
+            await expect(factory.revoke(await wallet.getAddress()))
+                .to.be.revertedWithCustomError(wallet, "VestingNotRevocable");
+            await expect(wallet.connect(owner).revoke(owner.address))
+                .to.be.revertedWithCustomError(wallet, "VestingUnauthorized")
+                .withArgs(owner.address);
+            await expect(factory.revoke(accounts[2].address)).to.be.revertedWith("Unknown vesting wallet");
+        });
+    });
+});
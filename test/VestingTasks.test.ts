@@ -0,0 +1,139 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { expect } from "chai";
+import hre, { deployments, ethers, getNamedAccounts } from "hardhat";
+import { MagicWorldGovernanceToken, MagicWorldVestingFactory } from "../typechain-types";
+
+const DAY = 86400;
+const HEADER = "beneficiary,amount,start,cliffDays,durationDays,revocable";
+
+describe("Vesting tasks", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "vesting-tasks-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const setupFixture = deployments.createFixture(async () => {
+        await deployments.fixture(["vesting"]);
+        const signers = await getNamedAccounts();
+        const accounts = await ethers.getSigners();
+        const owner = await ethers.getSigner(signers.deployer);
+
+        const token = await ethers.getContractAt(
+            "MagicWorldGovernanceToken",
+            (await deployments.get("MagicWorldGovernanceToken")).address,
+            owner
+        ) as MagicWorldGovernanceToken;
+        const factory = await ethers.getContractAt(
+            "MagicWorldVestingFactory",
+            (await deployments.get("MagicWorldVestingFactory")).address,
+            owner
+        ) as MagicWorldVestingFactory;
+
+        await token.mint(owner.address, ethers.parseEther("10000"));
+        return { token, factory, accounts, owner };
+    });
+
+    function writeCsv(name: string, lines: string[]): string {
+        const file = path.join(dir, name);
+        fs.writeFileSync(file, lines.join("\n") + "\n");
+        return file;
+    }
+
+    describe("vesting:create", () => {
+        it("Should create and fund the schedules of a CSV in batches", async () => {
+            const { token, factory, accounts } = await setupFixture();
+            const [user1, user2] = [accounts[1].address, accounts[2].address];
+            const csv = writeCsv("allocations.csv", [
+                "# Team",
+                HEADER,
+                "",
+                `${user1.toLowerCase()},1000.5,2030-01-01,365,1460,true`,
+                `${user2},250, 1893456000 ,0.5,30,FALSE`,
+                `${user1},10,1893456000,0,1,false`
+            ]);
+
+            const logs: string[] = [];
+            const log = console.log;
+            console.log = (...values: unknown[]) => logs.push(values.join(" "));
+            try {
+                await hre.run("vesting:create", { csv, batchSize: 2, dryRun: false });
+            } finally {
+                console.log = log;
+            }
+
+            // The summary states each schedule as it is created, fractional days included
+            expect(logs).to.include(
+                `  ${ethers.getAddress(user1)} 1000.5 MAGIC from 2030-01-01T00:00:00Z, cliff 365d, duration 1460d, revocable`
+            );
+            expect(logs).to.include(
+                `  ${user2} 250.0 MAGIC from 2030-01-01T00:00:00Z, cliff 0.5d (43200s), duration 30d`
+            );
+
+            expect(await factory.getVestingWallets()).to.have.length(3);
+            const [first, third] = await factory.getBeneficiaryWallets(user1);
+            const wallet = await ethers.getContractAt("MagicWorldVestingWallet", first);
+            expect(await token.balanceOf(first)).to.equal(ethers.parseEther("1000.5"));
+            expect(await wallet.start()).to.equal(BigInt(Date.parse("2030-01-01") / 1000));
+            expect(await wallet.cliff()).to.equal(await wallet.start() + BigInt(365 * DAY));
+            expect(await wallet.end()).to.equal(await wallet.start() + BigInt(1460 * DAY));
+            expect(await wallet.revocable()).to.be.true;
+            expect(await token.balanceOf(third)).to.equal(ethers.parseEther("10"));
+
+            const [second] = await factory.getBeneficiaryWallets(user2);
+            const halfDay = await ethers.getContractAt("MagicWorldVestingWallet", second);
+            expect(await halfDay.start()).to.equal(1893456000n);
+            expect(await halfDay.cliff()).to.equal(1893456000n + BigInt(DAY / 2));
+            expect(await halfDay.revocable()).to.be.false;
+        });
+
+        it("Should accept the example allocations", async () => {
+            const { factory } = await setupFixture();
+            const csv = path.join(hre.config.paths.root, "vesting", "examples", "allocations.csv");
+
+            await hre.run("vesting:create", { csv, batchSize: 20, dryRun: true });
+            expect(await factory.getVestingWallets()).to.have.length(0);
+        });
+
+        it("Should reject bad rows with their line before sending anything", async () => {
+            const { factory, accounts } = await setupFixture();
+            const user = accounts[1].address;
+            const cases: [string, RegExp][] = [
+                [`0x1234,100,2030-01-01,0,365,false`, /:2: invalid beneficiary 0x1234/],
+                [`${ethers.ZeroAddress},100,2030-01-01,0,365,false`, /:2: invalid beneficiary 0x0{40}/],
+                [`${user},1e3,2030-01-01,0,365,false`, /:2: invalid amount 1e3/],
+                [`${user},0,2030-01-01,0,365,false`, /:2: amount must be greater than 0/],
+                [`${user},100,soon,0,365,false`, /:2: invalid start soon/],
+                [`${user},100,2030-01-01,-1,365,false`, /:2: invalid cliffDays -1/],
+                [`${user},100,2030-01-01,0,0,false`, /:2: invalid durationDays 0/],
+                [`${user},100,2030-01-01,366,365,false`, /:2: the cliff can't be longer than the vesting duration/],
+                [`${user},100,2030-01-01,0,365,yes`, /:2: revocable must be true or false, got yes/],
+                [`${user},100,2030-01-01,0,365`, /:2: expected 6 columns, got 5/]
+            ];
+            for (const [i, [row, error]] of cases.entries()) {
+                const csv = writeCsv(`bad-${i}.csv`, [HEADER, row]);
+                await expect(hre.run("vesting:create", { csv, batchSize: 20, dryRun: false }), row)
+                    .to.be.rejectedWith(error);
+            }
+
+            // Valid rows before a bad one aren't created either
+            const csv = writeCsv("partly-bad.csv", [HEADER, `${user},100,2030-01-01,0,365,false`, `${user},100,2030-01-01,0,365,maybe`]);
+            await expect(hre.run("vesting:create", { csv, batchSize: 1, dryRun: false }))
+                .to.be.rejectedWith(/partly-bad.csv:3: revocable/);
+            expect(await factory.getVestingWallets()).to.have.length(0);
+
+            await expect(hre.run("vesting:create", { csv: writeCsv("empty.csv", [HEADER]), batchSize: 20, dryRun: false }))
+                .to.be.rejectedWith(/No vesting schedules/);
+            await expect(hre.run("vesting:create", { csv: writeCsv("header.csv", ["account,amount"]), batchSize: 20, dryRun: false }))
+                .to.be.rejectedWith(/must start with the header beneficiary,amount,start,cliffDays,durationDays,revocable/);
+            await expect(hre.run("vesting:create", { csv: path.join(dir, "missing.csv"), batchSize: 20, dryRun: false }))
+                .to.be.rejectedWith(/CSV file not found/);
+        });
+    });
+});